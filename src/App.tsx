@@ -8,6 +8,7 @@ import { CashFlowForm } from './components/CashFlowForm';
 import { AssetsLiabilitiesForm } from './components/AssetsLiabilitiesForm';
 import { ParametersForm } from './components/ParametersForm';
 import { SimulationResults } from './components/SimulationResults';
+import { RentVsBuyAnalysis } from './components/RentVsBuyAnalysis';
 
 const STEPS = [
   '基本情報',
@@ -16,7 +17,8 @@ const STEPS = [
   '資産・負債',
   'パラメータ',
   'キャッシュフロー',
-  'シミュレーション結果'
+  'シミュレーション結果',
+  '賃貸と購入の比較'
 ];
 
 function App() {
@@ -39,6 +41,8 @@ function App() {
         return <CashFlowForm />;
       case 7:
         return <SimulationResults />;
+      case 8:
+        return <RentVsBuyAnalysis />;
       default:
         return null;
     }
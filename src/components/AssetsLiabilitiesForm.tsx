@@ -3,6 +3,18 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { useSimulatorStore } from '@/store/simulator';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  NISA_TSUMITATE_ANNUAL_LIMIT,
+  NISA_GROWTH_ANNUAL_LIMIT,
+  NISA_LIFETIME_LIMIT,
+  IDECO_MIN_PAYOUT_AGE,
+  IDECO_MAX_PAYOUT_AGE,
+  getIdecoMonthlyLimit,
+  projectIdeco,
+} from '@/lib/taxAdvantagedAccounts';
+import { calculateCareerPension, getCareerOccupation, getCareerSegment, getCareerSegments } from '@/lib/career';
+import { comparePayoutMethods, PAYOUT_ANNUITY_YEARS } from '@/lib/retirementIncome';
 
 const assetsLiabilitiesSchema = z.object({
   assets: z.object({
@@ -16,13 +28,34 @@ const assetsLiabilitiesSchema = z.object({
     loans: z.number().min(0),
     creditCards: z.number().min(0),
   }),
+  taxAdvantaged: z.object({
+    nisa: z.object({
+      enabled: z.boolean(),
+      currentBalance: z.number().min(0),
+      currentCostBasis: z.number().min(0).max(NISA_LIFETIME_LIMIT),
+      tsumitateMonthly: z.number().min(0).max(NISA_TSUMITATE_ANNUAL_LIMIT / 12),
+      growthAnnual: z.number().min(0).max(NISA_GROWTH_ANNUAL_LIMIT),
+      contributionEndAge: z.number().min(0).max(120),
+      withdrawalStartAge: z.number().min(0).max(120),
+      annualWithdrawal: z.number().min(0),
+      expectedReturn: z.number().min(-100).max(100),
+    }),
+    ideco: z.object({
+      enabled: z.boolean(),
+      currentBalance: z.number().min(0),
+      monthlyContribution: z.number().min(0),
+      contributionEndAge: z.number().min(0).max(120),
+      payoutAge: z.number().min(IDECO_MIN_PAYOUT_AGE).max(IDECO_MAX_PAYOUT_AGE),
+      expectedReturn: z.number().min(-100).max(100),
+    }),
+  }),
 });
 
 type AssetsLiabilitiesFormData = z.infer<typeof assetsLiabilitiesSchema>;
 
 export function AssetsLiabilitiesForm() {
-  const { assetsLiabilities, setAssetsLiabilities, setCurrentStep } = useSimulatorStore();
-  const { register, handleSubmit, watch } = useForm<AssetsLiabilitiesFormData>({
+  const { assetsLiabilities, basicInfo, incomeInfo, setAssetsLiabilities, setCurrentStep } = useSimulatorStore();
+  const { register, handleSubmit, watch, setValue, formState: { errors } } = useForm<AssetsLiabilitiesFormData>({
     resolver: zodResolver(assetsLiabilitiesSchema),
     defaultValues: assetsLiabilities,
   });
@@ -30,6 +63,32 @@ export function AssetsLiabilitiesForm() {
   const values = watch();
   const totalAssets = Object.values(values?.assets || {}).reduce((sum, value) => sum + (value || 0), 0);
   const totalLiabilities = Object.values(values?.liabilities || {}).reduce((sum, value) => sum + (value || 0), 0);
+  const nisaEnabled = watch('taxAdvantaged.nisa.enabled');
+  const idecoEnabled = watch('taxAdvantaged.ideco.enabled');
+  const careerSegments = getCareerSegments(basicInfo, incomeInfo);
+  const idecoMonthlyLimit = getIdecoMonthlyLimit(getCareerOccupation(basicInfo, careerSegments, basicInfo.currentAge));
+
+  // 受取年齢時点の見込み残高を一時金と年金で受け取る場合の比較
+  const idecoValues = values.taxAdvantaged?.ideco;
+  const idecoAges = idecoEnabled && idecoValues
+    ? Array.from({ length: Math.max(0, idecoValues.payoutAge - basicInfo.currentAge + 1) }, (_, i) => basicInfo.currentAge + i)
+    : [];
+  const idecoProjection = idecoEnabled && idecoValues
+    ? projectIdeco(
+        idecoValues,
+        idecoAges.map(age => getCareerSegment(careerSegments, age)?.occupation),
+        idecoAges
+      )
+    : [];
+  const idecoPayoutAmount = idecoProjection.reduce((sum, year) => sum + year.payout, 0);
+  const idecoComparison = comparePayoutMethods({
+    amount: idecoPayoutAmount,
+    yearsOfService: idecoProjection.filter(year => year.contribution > 0).length,
+    payoutStartAge: idecoValues?.payoutAge ?? IDECO_MIN_PAYOUT_AGE,
+    publicPension: calculateCareerPension(basicInfo, incomeInfo, incomeInfo.pensionStartAge),
+    publicPensionStartAge: incomeInfo.pensionStartAge,
+    annuityYearsOptions: PAYOUT_ANNUITY_YEARS,
+  });
 
   const onSubmit = (data: AssetsLiabilitiesFormData) => {
     setAssetsLiabilities(data);
@@ -81,12 +140,15 @@ export function AssetsLiabilitiesForm() {
               />
             </div>
             <div className="space-y-2">
-              <label className="text-sm font-medium">不動産（万円）</label>
+              <label className="text-sm font-medium">持ち家以外の不動産（万円）</label>
               <input
                 type="number"
                 {...register('assets.realEstate', { valueAsNumber: true })}
                 className="w-full rounded-md border border-gray-200 px-3 py-2"
               />
+              <p className="text-xs text-gray-500">
+                投資用物件などを入力します。持ち家の評価額は住まいの設定から計算するため含めないでください
+              </p>
             </div>
             <div className="space-y-2">
               <label className="text-sm font-medium">合計資産</label>
@@ -125,6 +187,195 @@ export function AssetsLiabilitiesForm() {
           </div>
         </div>
 
+        <div className="space-y-6">
+          <h3 className="text-lg font-semibold">非課税口座</h3>
+
+          <div className="space-y-4">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="nisaEnabled"
+                checked={nisaEnabled}
+                onCheckedChange={(checked) => setValue('taxAdvantaged.nisa.enabled', checked === true)}
+              />
+              <label htmlFor="nisaEnabled" className="text-sm font-medium">NISA（新NISA）</label>
+            </div>
+            {nisaEnabled && (
+              <div className="grid grid-cols-2 gap-6 pl-6">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">現在の評価額（万円）</label>
+                  <input
+                    type="number"
+                    {...register('taxAdvantaged.nisa.currentBalance', { valueAsNumber: true })}
+                    className="w-full rounded-md border border-gray-200 px-3 py-2"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">これまでの投資元本（万円）</label>
+                  <input
+                    type="number"
+                    {...register('taxAdvantaged.nisa.currentCostBasis', { valueAsNumber: true })}
+                    className="w-full rounded-md border border-gray-200 px-3 py-2"
+                  />
+                  <p className="text-xs text-gray-500">生涯投資枠{NISA_LIFETIME_LIMIT}万円のうち使用済みの額</p>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">つみたて投資枠（万円/月）</label>
+                  <input
+                    type="number"
+                    step="0.1"
+                    {...register('taxAdvantaged.nisa.tsumitateMonthly', { valueAsNumber: true })}
+                    className="w-full rounded-md border border-gray-200 px-3 py-2"
+                  />
+                  <p className="text-xs text-gray-500">年間{NISA_TSUMITATE_ANNUAL_LIMIT}万円まで</p>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">成長投資枠（万円/年）</label>
+                  <input
+                    type="number"
+                    {...register('taxAdvantaged.nisa.growthAnnual', { valueAsNumber: true })}
+                    className="w-full rounded-md border border-gray-200 px-3 py-2"
+                  />
+                  <p className="text-xs text-gray-500">年間{NISA_GROWTH_ANNUAL_LIMIT}万円まで</p>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">積立終了年齢</label>
+                  <input
+                    type="number"
+                    {...register('taxAdvantaged.nisa.contributionEndAge', { valueAsNumber: true })}
+                    className="w-full rounded-md border border-gray-200 px-3 py-2"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">想定利回り（%）</label>
+                  <input
+                    type="number"
+                    step="0.1"
+                    {...register('taxAdvantaged.nisa.expectedReturn', { valueAsNumber: true })}
+                    className="w-full rounded-md border border-gray-200 px-3 py-2"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">取り崩し開始年齢</label>
+                  <input
+                    type="number"
+                    {...register('taxAdvantaged.nisa.withdrawalStartAge', { valueAsNumber: true })}
+                    className="w-full rounded-md border border-gray-200 px-3 py-2"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">取り崩し額（万円/年）</label>
+                  <input
+                    type="number"
+                    {...register('taxAdvantaged.nisa.annualWithdrawal', { valueAsNumber: true })}
+                    className="w-full rounded-md border border-gray-200 px-3 py-2"
+                  />
+                  <p className="text-xs text-gray-500">売却した元本分の投資枠は翌年に復活します</p>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-4">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="idecoEnabled"
+                checked={idecoEnabled}
+                onCheckedChange={(checked) => setValue('taxAdvantaged.ideco.enabled', checked === true)}
+              />
+              <label htmlFor="idecoEnabled" className="text-sm font-medium">iDeCo（個人型確定拠出年金）</label>
+            </div>
+            {idecoEnabled && (
+              <div className="grid grid-cols-2 gap-6 pl-6">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">現在の残高（万円）</label>
+                  <input
+                    type="number"
+                    {...register('taxAdvantaged.ideco.currentBalance', { valueAsNumber: true })}
+                    className="w-full rounded-md border border-gray-200 px-3 py-2"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">掛金（万円/月）</label>
+                  <input
+                    type="number"
+                    step="0.1"
+                    {...register('taxAdvantaged.ideco.monthlyContribution', { valueAsNumber: true })}
+                    className="w-full rounded-md border border-gray-200 px-3 py-2"
+                  />
+                  <p className="text-xs text-gray-500">
+                    現在の職業の上限は月{idecoMonthlyLimit}万円（経歴の区間がある場合は各年齢の職業の上限）。掛金は全額が所得控除されます
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">拠出終了年齢</label>
+                  <input
+                    type="number"
+                    {...register('taxAdvantaged.ideco.contributionEndAge', { valueAsNumber: true })}
+                    className="w-full rounded-md border border-gray-200 px-3 py-2"
+                  />
+                  <p className="text-xs text-gray-500">65歳になるまで拠出できます</p>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">受取年齢（一時金）</label>
+                  <input
+                    type="number"
+                    {...register('taxAdvantaged.ideco.payoutAge', { valueAsNumber: true })}
+                    className="w-full rounded-md border border-gray-200 px-3 py-2"
+                  />
+                  {errors.taxAdvantaged?.ideco?.payoutAge && (
+                    <p className="text-sm text-red-500">
+                      {IDECO_MIN_PAYOUT_AGE}〜{IDECO_MAX_PAYOUT_AGE}歳の間で指定してください
+                    </p>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">想定利回り（%）</label>
+                  <input
+                    type="number"
+                    step="0.1"
+                    {...register('taxAdvantaged.ideco.expectedReturn', { valueAsNumber: true })}
+                    className="w-full rounded-md border border-gray-200 px-3 py-2"
+                  />
+                </div>
+              </div>
+            )}
+            {idecoEnabled && idecoPayoutAmount > 0 && (
+              <div className="space-y-2 pl-6">
+                <h4 className="text-sm font-semibold">受取方法の比較（受取時の見込み残高 {Number(idecoPayoutAmount.toFixed(1))}万円）</h4>
+                <table className="w-full text-sm border-collapse">
+                  <thead>
+                    <tr className="bg-gray-50">
+                      <th className="border px-3 py-2 text-left">受取方法</th>
+                      <th className="border px-3 py-2 text-right">年額（万円）</th>
+                      <th className="border px-3 py-2 text-right">税額（万円）</th>
+                      <th className="border px-3 py-2 text-right">手取り合計（万円）</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    <tr>
+                      <td className="border px-3 py-2">一時金（退職所得控除 {idecoComparison.lumpSum.deduction}万円）</td>
+                      <td className="border px-3 py-2 text-right">-</td>
+                      <td className="border px-3 py-2 text-right">{idecoComparison.lumpSum.total}</td>
+                      <td className="border px-3 py-2 text-right">{idecoComparison.lumpSum.netAmount}</td>
+                    </tr>
+                    {idecoComparison.annuities.map((row) => (
+                      <tr key={row.years}>
+                        <td className="border px-3 py-2">年金（{row.years}年）</td>
+                        <td className="border px-3 py-2 text-right">{row.annualPayment}</td>
+                        <td className="border px-3 py-2 text-right">{row.tax}</td>
+                        <td className="border px-3 py-2 text-right">{row.netAmount}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <p className="text-xs text-gray-500">
+                  一時金の退職所得控除は加入年数（シミュレーション期間中の拠出年数）で計算します。退職金と同じ年に受け取る場合は合算して課税されます
+                </p>
+              </div>
+            )}
+          </div>
+        </div>
+
         <div className="flex justify-between space-x-4">
           <button
             type="button"
@@ -1,8 +1,20 @@
 import React from 'react';
-import { useForm } from 'react-hook-form';
+import { useForm, type Path } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { useSimulatorStore } from '@/store/simulator';
+import {
+  buildMortgageSchedule,
+  compareRateStressScenarios,
+  getMortgageLoan,
+  summarizeMortgage,
+} from '@/lib/mortgage';
+import { HOME_TYPE_LABELS, getMortgageTaxCreditRule } from '@/lib/mortgageTaxCredit';
+import { PROPERTY_TYPE_LABELS, calculateOwnershipCosts } from '@/lib/ownershipCosts';
+import { MortgageAffordability } from '@/components/MortgageAffordability';
+import { EXTRA_SCHOOLING_LABELS, calculateStudentLoanRepayment } from '@/lib/education';
+import { Checkbox } from '@/components/ui/checkbox';
+import type { HomeType, PropertyType } from '@/store/simulator';
 import {
   Select,
   SelectContent,
@@ -15,9 +27,210 @@ const currentYear = new Date().getFullYear();
 const years = Array.from({ length: 251 }, (_, i) => 1900 + i);
 const ages = Array.from({ length: 121 }, (_, i) => i);
 const yearsFromNow = Array.from({ length: 31 }, (_, i) => i);
+// 住宅ローンの金利上昇ストレスの比較（上昇幅%と上昇にかかる年数）
+const stressIncreases = [0, 1, 2];
+const STRESS_YEARS = 10;
 
 const educationTypes = ['公立', '私立', '行かない'] as const;
-const universityTypes = ['公立大学（文系）', '公立大学（理系）', '私立大学（文系）', '私立大学（理系）', '行かない'] as const;
+const universityTypes = ['公立大学（文系）', '公立大学（理系）', '私立大学（文系）', '私立大学（理系）', '専門学校', '行かない'] as const;
+
+const rentHousingSchema = z.object({
+  monthlyRent: z.number().min(0),
+  annualIncreaseRate: z.number().min(0),
+});
+
+const ownHousingSchema = z.object({
+  purchaseYear: z.number().min(1900).max(2150),
+  purchasePrice: z.number().min(0),
+  loanAmount: z.number().min(0),
+  interestRate: z.number().min(0),
+  rateType: z.enum(['fixed', 'variable', 'fixed_period']),
+  fixedPeriodYears: z.number().min(1).max(35),
+  rateChanges: z.array(z.object({
+    year: z.number().min(1900).max(2150),
+    rate: z.number().min(0).max(20),
+  })),
+  loanTermYears: z.number().min(1).max(50),
+  maintenanceCostRate: z.number().min(0).max(100),
+  repaymentMethod: z.enum(['equal_payment', 'equal_principal']),
+  prepayments: z.array(z.object({
+    year: z.number().min(1900).max(2150),
+    amount: z.number().min(0),
+    type: z.enum(['shorten_term', 'reduce_payment']),
+  })),
+  homeType: z.enum(['certified', 'zeh', 'energy_efficient', 'standard']),
+  newlyBuilt: z.boolean(),
+  propertyType: z.enum(['house', 'condo']),
+  landShare: z.number().min(0).max(100),
+  landAssessedValue: z.number().min(0),
+  buildingAssessedValue: z.number().min(0),
+  managementFee: z.number().min(0),
+  repairReserve: z.number().min(0),
+  repairReserveStepYears: z.number().min(0).max(50),
+  repairReserveStepRate: z.number().min(0).max(100),
+  renovationCost: z.number().min(0),
+  renovationIntervalYears: z.number().min(0).max(50),
+});
+
+type OwnHousingFormData = z.infer<typeof ownHousingSchema>;
+
+const housingPhaseSchema = z.object({
+  type: z.enum(['rent', 'own']),
+  startYear: z.number().min(1900).max(2150),
+  rent: rentHousingSchema.optional(),
+  own: ownHousingSchema.optional(),
+  movingCost: z.number().min(0),
+  salePrice: z.number().min(0),
+  saleCostRate: z.number().min(0).max(100),
+});
+
+// 持ち家の初期値（住み替えで購入する場合も同じ）
+function createOwnHousing(purchaseYear: number): OwnHousingFormData {
+  return {
+    purchaseYear,
+    purchasePrice: 0,
+    loanAmount: 0,
+    interestRate: 0,
+    rateType: 'fixed',
+    fixedPeriodYears: 10,
+    rateChanges: [],
+    loanTermYears: 35,
+    maintenanceCostRate: 0.3,
+    repaymentMethod: 'equal_payment',
+    prepayments: [],
+    homeType: 'energy_efficient',
+    newlyBuilt: true,
+    propertyType: 'house',
+    landShare: 40,
+    landAssessedValue: 0,
+    buildingAssessedValue: 0,
+    managementFee: 1.5,
+    repairReserve: 1,
+    repairReserveStepYears: 5,
+    repairReserveStepRate: 20,
+    renovationCost: 200,
+    renovationIntervalYears: 15,
+  };
+}
+
+const extraSchoolingSchema = z.object({
+  type: z.enum(['cram', 'lessons']),
+  startAge: z.number().min(0).max(30),
+  endAge: z.number().min(0).max(30),
+  monthlyAmount: z.number().min(0),
+});
+
+const educationFundingSchema = z.object({
+  grants: z.array(z.object({
+    startAge: z.number().min(0).max(30),
+    endAge: z.number().min(0).max(30),
+    annualAmount: z.number().min(0),
+  })),
+  studentLoans: z.array(z.object({
+    startAge: z.number().min(0).max(30),
+    endAge: z.number().min(0).max(30),
+    monthlyAmount: z.number().min(0),
+    interestRate: z.number().min(0).max(20),
+    repaymentYears: z.number().int().min(1).max(40),
+  })),
+  insurance: z.array(z.object({
+    monthlyPremium: z.number().min(0),
+    premiumEndAge: z.number().min(0).max(30),
+    maturityAge: z.number().min(0).max(30),
+    maturityAmount: z.number().min(0),
+  })),
+  gifts: z.array(z.object({
+    age: z.number().min(0).max(30),
+    amount: z.number().min(0),
+  })),
+});
+
+type EducationFundingFormData = z.infer<typeof educationFundingSchema>;
+type EducationFundingKind = keyof EducationFundingFormData;
+
+// 教育資金の種類ごとの入力欄と、追加したときの初期値
+const educationFundingFields: {
+  [K in EducationFundingKind]: {
+    title: string;
+    fields: { name: keyof EducationFundingFormData[K][number]; label: string; step?: string }[];
+    create: () => EducationFundingFormData[K][number];
+  };
+} = {
+  grants: {
+    title: '給付型奨学金',
+    fields: [
+      { name: 'startAge', label: '開始年齢' },
+      { name: 'endAge', label: '終了年齢' },
+      { name: 'annualAmount', label: '年額（万円）', step: '0.1' },
+    ],
+    create: () => ({ startAge: 18, endAge: 21, annualAmount: 50 }),
+  },
+  studentLoans: {
+    title: '貸与型奨学金（本人が返済）',
+    fields: [
+      { name: 'startAge', label: '開始年齢' },
+      { name: 'endAge', label: '終了年齢' },
+      { name: 'monthlyAmount', label: '月額（万円）', step: '0.1' },
+      { name: 'interestRate', label: '利率（%）', step: '0.01' },
+      { name: 'repaymentYears', label: '返済年数' },
+    ],
+    create: () => ({ startAge: 18, endAge: 21, monthlyAmount: 5, interestRate: 0.5, repaymentYears: 15 }),
+  },
+  insurance: {
+    title: '学資保険',
+    fields: [
+      { name: 'monthlyPremium', label: '保険料（万円/月）', step: '0.1' },
+      { name: 'premiumEndAge', label: '払込終了年齢' },
+      { name: 'maturityAge', label: '満期年齢' },
+      { name: 'maturityAmount', label: '満期金（万円）' },
+    ],
+    create: () => ({ monthlyPremium: 1.5, premiumEndAge: 10, maturityAge: 18, maturityAmount: 200 }),
+  },
+  gifts: {
+    title: '教育資金の贈与',
+    fields: [
+      { name: 'age', label: '受け取る年齢' },
+      { name: 'amount', label: '金額（万円）' },
+    ],
+    create: () => ({ age: 0, amount: 500 }),
+  },
+};
+
+const educationPlanSchema = z.object({
+  nursery: z.enum(educationTypes),
+  preschool: z.enum(educationTypes),
+  elementary: z.enum(educationTypes),
+  juniorHigh: z.enum(educationTypes),
+  highSchool: z.enum(educationTypes),
+  university: z.enum(universityTypes),
+  graduateSchool: z.enum(educationTypes),
+  livingAway: z.boolean(),
+  extraSchooling: z.array(extraSchoolingSchema),
+  funding: educationFundingSchema,
+});
+
+type EducationPlanFormData = z.infer<typeof educationPlanSchema>;
+
+// 子どもの教育プランの初期値（出生予定の子も同じ）
+function createEducationPlan(): EducationPlanFormData {
+  return {
+    nursery: '公立',
+    preschool: '公立',
+    elementary: '公立',
+    juniorHigh: '公立',
+    highSchool: '公立',
+    university: '公立大学（文系）',
+    graduateSchool: '行かない',
+    livingAway: false,
+    extraSchooling: [],
+    funding: {
+      grants: [],
+      studentLoans: [],
+      insurance: [],
+      gifts: [],
+    },
+  };
+}
 
 const basicInfoSchema = z.object({
   currentAge: z.number().min(0).max(120),
@@ -29,18 +242,9 @@ const basicInfoSchema = z.object({
   maritalStatus: z.enum(['single', 'married', 'planning']),
   housingInfo: z.object({
     type: z.enum(['rent', 'own']),
-    rent: z.object({
-      monthlyRent: z.number().min(0),
-      annualIncreaseRate: z.number().min(0),
-    }).optional(),
-    own: z.object({
-      purchaseYear: z.number().min(1900).max(2150),
-      purchasePrice: z.number().min(0),
-      loanAmount: z.number().min(0),
-      interestRate: z.number().min(0),
-      loanTermYears: z.number().min(1).max(50),
-      maintenanceCostRate: z.number().min(0).max(100),
-    }).optional(),
+    rent: rentHousingSchema.optional(),
+    own: ownHousingSchema.optional(),
+    phases: z.array(housingPhaseSchema),
   }),
   spouseInfo: z.object({
     age: z.number().min(0).max(120).optional(),
@@ -48,31 +252,18 @@ const basicInfoSchema = z.object({
     marriageAge: z.number().min(0).max(120).optional(),
     occupation: z.enum(['company_employee', 'part_time_with_pension', 'part_time_without_pension', 'self_employed', 'homemaker']).optional(),
     additionalExpense: z.number().min(0).optional(),
+    deathAge: z.number().min(0).max(120).optional(),
   }).optional(),
   children: z.array(
     z.object({
       currentAge: z.number().min(0).max(120),
-      educationPlan: z.object({
-        nursery: z.enum(educationTypes),
-        preschool: z.enum(educationTypes),
-        elementary: z.enum(educationTypes),
-        juniorHigh: z.enum(educationTypes),
-        highSchool: z.enum(educationTypes),
-        university: z.enum(universityTypes),
-      }),
+      educationPlan: educationPlanSchema,
     })
   ),
   plannedChildren: z.array(
     z.object({
       yearsFromNow: z.number().min(0).max(30),
-      educationPlan: z.object({
-        nursery: z.enum(educationTypes),
-        preschool: z.enum(educationTypes),
-        elementary: z.enum(educationTypes),
-        juniorHigh: z.enum(educationTypes),
-        highSchool: z.enum(educationTypes),
-        university: z.enum(universityTypes),
-      }),
+      educationPlan: educationPlanSchema,
     })
   ),
 });
@@ -101,6 +292,23 @@ export function BasicInfoForm() {
   const plannedChildren = watch('plannedChildren') || [];
   const housingType = watch('housingInfo.type');
   const startYear = watch('startYear');
+  const ownHousing = watch('housingInfo.own');
+  const prepayments = ownHousing?.prepayments || [];
+  const rateChanges = ownHousing?.rateChanges || [];
+  const housingPhases = watch('housingInfo.phases') || [];
+
+  // 返済予定表と繰上返済による利息の軽減額
+  const mortgageLoan = housingType === 'own' && ownHousing ? getMortgageLoan(ownHousing) : undefined;
+  const mortgageSchedule = mortgageLoan ? buildMortgageSchedule(mortgageLoan) : [];
+  const mortgageSummary = mortgageLoan ? summarizeMortgage(mortgageLoan) : undefined;
+  // 金利上昇ストレス（10年かけて上昇）の比較
+  const stressResults = mortgageLoan && mortgageLoan.rateType !== 'fixed'
+    ? compareRateStressScenarios(mortgageLoan, stressIncreases, STRESS_YEARS, Math.max(startYear || currentYear, mortgageLoan.startYear))
+    : [];
+  // 住宅ローン控除の借入限度額と控除期間（子育て世帯等の上乗せはシミュレーションで判定）
+  const mortgageTaxCreditRule = housingType === 'own' && ownHousing
+    ? getMortgageTaxCreditRule(ownHousing.purchaseYear, ownHousing.homeType, ownHousing.newlyBuilt)
+    : undefined;
 
   const onSubmit = (data: BasicInfoFormData) => {
     setBasicInfo(data);
@@ -120,35 +328,211 @@ export function BasicInfoForm() {
           monthlyRent: 0,
           annualIncreaseRate: 0,
         },
+        phases: housingPhases,
       }, { shouldValidate: true });
     } else {
       setValue('housingInfo', {
         type: 'own',
-        own: {
-          purchaseYear: startYear || currentYear,
-          purchasePrice: 0,
-          loanAmount: 0,
-          interestRate: 0,
-          loanTermYears: 35,
-          maintenanceCostRate: 1,
-        },
+        own: createOwnHousing(startYear || currentYear),
+        phases: housingPhases,
       }, { shouldValidate: true });
     }
   };
 
+  // 固定資産税・管理費・修繕積立金・大規模修繕の入力（現在の持ち家と住み替え先の持ち家で共通）
+  const renderOwnershipCostFields = (
+    prefix: 'housingInfo.own' | `housingInfo.phases.${number}.own`,
+    own: OwnHousingFormData
+  ) => {
+    const firstYearCosts = calculateOwnershipCosts(own, own.purchaseYear + 1);
+    return (
+      <div className="grid grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">物件の種類</label>
+          <Select
+            value={own.propertyType}
+            onValueChange={(value) => setValue(`${prefix}.propertyType`, value as PropertyType)}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="物件の種類を選択" />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(PROPERTY_TYPE_LABELS) as PropertyType[]).map((type) => (
+                <SelectItem key={type} value={type}>{PROPERTY_TYPE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">購入金額のうち土地の割合（%）</label>
+          <input
+            type="number"
+            {...register(`${prefix}.landShare`, { valueAsNumber: true })}
+            className="w-full rounded-md border border-gray-200 px-3 py-2"
+          />
+          <p className="text-xs text-gray-500">純資産に含める評価額と、未入力の固定資産税評価額の推計に使います</p>
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">固定資産税評価額・土地（万円）</label>
+          <input
+            type="number"
+            {...register(`${prefix}.landAssessedValue`, { valueAsNumber: true })}
+            className="w-full rounded-md border border-gray-200 px-3 py-2"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">固定資産税評価額・建物（万円）</label>
+          <input
+            type="number"
+            {...register(`${prefix}.buildingAssessedValue`, { valueAsNumber: true })}
+            className="w-full rounded-md border border-gray-200 px-3 py-2"
+          />
+        </div>
+        <p className="col-span-3 text-xs text-gray-500">
+          評価額が0の場合は、購入金額を土地の割合で分け、土地は時価の7割・建物は6割の評価額で推計します
+        </p>
+        {own.propertyType === 'condo' ? (
+          <>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">管理費（万円/月）</label>
+              <input
+                type="number"
+                step="0.1"
+                {...register(`${prefix}.managementFee`, { valueAsNumber: true })}
+                className="w-full rounded-md border border-gray-200 px-3 py-2"
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">修繕積立金（万円/月）</label>
+              <input
+                type="number"
+                step="0.1"
+                {...register(`${prefix}.repairReserve`, { valueAsNumber: true })}
+                className="w-full rounded-md border border-gray-200 px-3 py-2"
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">修繕積立金の引き上げ（年ごと・%）</label>
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  {...register(`${prefix}.repairReserveStepYears`, { valueAsNumber: true })}
+                  className="w-full rounded-md border border-gray-200 px-3 py-2"
+                />
+                <input
+                  type="number"
+                  {...register(`${prefix}.repairReserveStepRate`, { valueAsNumber: true })}
+                  className="w-full rounded-md border border-gray-200 px-3 py-2"
+                />
+              </div>
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">大規模修繕の費用（万円）</label>
+              <input
+                type="number"
+                {...register(`${prefix}.renovationCost`, { valueAsNumber: true })}
+                className="w-full rounded-md border border-gray-200 px-3 py-2"
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">大規模修繕の間隔（年）</label>
+              <input
+                type="number"
+                {...register(`${prefix}.renovationIntervalYears`, { valueAsNumber: true })}
+                className="w-full rounded-md border border-gray-200 px-3 py-2"
+              />
+            </div>
+          </>
+        )}
+        <p className="col-span-3 text-xs text-gray-500">
+          購入翌年の保有コスト：固定資産税・都市計画税 {firstYearCosts.propertyTax}万円
+          {own.propertyType === 'condo'
+            ? `、管理費・修繕積立金 ${Number((firstYearCosts.managementFee + firstYearCosts.repairReserve).toFixed(1))}万円`
+            : ''}
+          、維持費 {firstYearCosts.maintenance}万円（建物の評価額は3年ごとの評価替えで下がり、新築住宅の減額措置を反映）
+        </p>
+      </div>
+    );
+  };
+
+  const addHousingPhase = () => {
+    const lastPhase = housingPhases[housingPhases.length - 1];
+    const phaseYear = (lastPhase?.startYear ?? startYear ?? currentYear) + 5;
+    setValue('housingInfo.phases', [
+      ...housingPhases,
+      {
+        type: 'own',
+        startYear: phaseYear,
+        own: createOwnHousing(phaseYear),
+        movingCost: 30,
+        salePrice: 0,
+        saleCostRate: 4,
+      },
+    ]);
+  };
+
+  const removeHousingPhase = (index: number) => {
+    setValue(
+      'housingInfo.phases',
+      housingPhases.filter((_, i) => i !== index)
+    );
+  };
+
+  const handleHousingPhaseTypeChange = (index: number, value: 'rent' | 'own') => {
+    const phase = housingPhases[index];
+    setValue(`housingInfo.phases.${index}`, {
+      ...phase,
+      type: value,
+      rent: value === 'rent' ? { monthlyRent: 0, annualIncreaseRate: 0 } : undefined,
+      own: value === 'own' ? createOwnHousing(phase.startYear) : undefined,
+    });
+  };
+
+  const addRateChange = () => {
+    const lastChange = rateChanges[rateChanges.length - 1];
+    setValue('housingInfo.own.rateChanges', [
+      ...rateChanges,
+      {
+        year: (lastChange?.year ?? ownHousing?.purchaseYear ?? currentYear) + 5,
+        rate: (lastChange?.rate ?? ownHousing?.interestRate ?? 0) + 0.5,
+      },
+    ]);
+  };
+
+  const removeRateChange = (index: number) => {
+    setValue(
+      'housingInfo.own.rateChanges',
+      rateChanges.filter((_, i) => i !== index)
+    );
+  };
+
+  const addPrepayment = () => {
+    setValue('housingInfo.own.prepayments', [
+      ...prepayments,
+      {
+        year: (ownHousing?.purchaseYear || currentYear) + 10,
+        amount: 100,
+        type: 'shorten_term',
+      },
+    ]);
+  };
+
+  const removePrepayment = (index: number) => {
+    setValue(
+      'housingInfo.own.prepayments',
+      prepayments.filter((_, i) => i !== index)
+    );
+  };
+
   const addChild = () => {
     setValue('children', [
       ...children,
       {
         currentAge: 0,
-        educationPlan: {
-          nursery: '公立',
-          preschool: '公立',
-          elementary: '公立',
-          juniorHigh: '公立',
-          highSchool: '公立',
-          university: '公立大学（文系）',
-        },
+        educationPlan: createEducationPlan(),
       },
     ]);
   };
@@ -165,14 +549,7 @@ export function BasicInfoForm() {
       ...plannedChildren,
       {
         yearsFromNow: 0,
-        educationPlan: {
-          nursery: '公立',
-          preschool: '公立',
-          elementary: '公立',
-          juniorHigh: '公立',
-          highSchool: '公立',
-          university: '公立大学（文系）',
-        },
+        educationPlan: createEducationPlan(),
       },
     ]);
   };
@@ -193,7 +570,8 @@ export function BasicInfoForm() {
       elementary: '小学校',
       juniorHigh: '中学校',
       highSchool: '高校',
-      university: '大学',
+      university: '大学・専門学校',
+      graduateSchool: '大学院',
     };
 
     return (
@@ -220,6 +598,192 @@ export function BasicInfoForm() {
     );
   };
 
+  const addExtraSchooling = (prefix: `children.${number}` | `plannedChildren.${number}`, plan: EducationPlanFormData) => {
+    setValue(`${prefix}.educationPlan.extraSchooling`, [
+      ...plan.extraSchooling,
+      { type: 'cram', startAge: 12, endAge: 17, monthlyAmount: 3 },
+    ]);
+  };
+
+  const removeExtraSchooling = (
+    prefix: `children.${number}` | `plannedChildren.${number}`,
+    plan: EducationPlanFormData,
+    index: number
+  ) => {
+    setValue(
+      `${prefix}.educationPlan.extraSchooling`,
+      plan.extraSchooling.filter((_, i) => i !== index)
+    );
+  };
+
+  // 自宅外通学と塾・習い事の予算
+  const renderExtraEducationFields = (
+    prefix: `children.${number}` | `plannedChildren.${number}`,
+    plan: EducationPlanFormData
+  ) => (
+    <div className="space-y-4">
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id={`${prefix}.livingAway`}
+          checked={plan.livingAway}
+          onCheckedChange={(checked) => setValue(`${prefix}.educationPlan.livingAway`, checked === true)}
+        />
+        <label htmlFor={`${prefix}.livingAway`} className="text-sm font-medium">
+          大学・専門学校・大学院は自宅外から通学する（家賃と仕送り）
+        </label>
+      </div>
+
+      <div className="flex justify-between items-center">
+        <h5 className="text-sm font-medium">塾・習い事</h5>
+        <button
+          type="button"
+          onClick={() => addExtraSchooling(prefix, plan)}
+          className="px-2 py-1 bg-blue-500 text-white rounded-md hover:bg-blue-600"
+        >
+          追加
+        </button>
+      </div>
+      {plan.extraSchooling.map((extra, extraIndex) => (
+        <div key={extraIndex} className="grid grid-cols-5 gap-4 items-end">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">種類</label>
+            <Select
+              defaultValue={extra.type}
+              onValueChange={(value) =>
+                setValue(`${prefix}.educationPlan.extraSchooling.${extraIndex}.type`, value as 'cram' | 'lessons')
+              }
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="種類を選択" />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(EXTRA_SCHOOLING_LABELS) as ('cram' | 'lessons')[]).map((type) => (
+                  <SelectItem key={type} value={type}>{EXTRA_SCHOOLING_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">開始年齢</label>
+            <input
+              type="number"
+              {...register(`${prefix}.educationPlan.extraSchooling.${extraIndex}.startAge`, { valueAsNumber: true })}
+              className="w-full rounded-md border border-gray-200 px-3 py-2"
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">終了年齢</label>
+            <input
+              type="number"
+              {...register(`${prefix}.educationPlan.extraSchooling.${extraIndex}.endAge`, { valueAsNumber: true })}
+              className="w-full rounded-md border border-gray-200 px-3 py-2"
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">月額（万円）</label>
+            <input
+              type="number"
+              step="0.1"
+              {...register(`${prefix}.educationPlan.extraSchooling.${extraIndex}.monthlyAmount`, { valueAsNumber: true })}
+              className="w-full rounded-md border border-gray-200 px-3 py-2"
+            />
+          </div>
+          <button
+            type="button"
+            onClick={() => removeExtraSchooling(prefix, plan, extraIndex)}
+            className="px-2 py-2 bg-red-500 text-white rounded-md hover:bg-red-600"
+          >
+            削除
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+
+  const addEducationFunding = (
+    prefix: `children.${number}` | `plannedChildren.${number}`,
+    plan: EducationPlanFormData,
+    kind: EducationFundingKind
+  ) => {
+    setValue(`${prefix}.educationPlan.funding`, {
+      ...plan.funding,
+      [kind]: [...plan.funding[kind], educationFundingFields[kind].create()],
+    });
+  };
+
+  const removeEducationFunding = (
+    prefix: `children.${number}` | `plannedChildren.${number}`,
+    plan: EducationPlanFormData,
+    kind: EducationFundingKind,
+    index: number
+  ) => {
+    setValue(`${prefix}.educationPlan.funding`, {
+      ...plan.funding,
+      [kind]: plan.funding[kind].filter((_, i) => i !== index),
+    });
+  };
+
+  // 奨学金・学資保険・教育資金の贈与（親の教育費の負担を減らす資金）
+  const renderEducationFundingFields = (
+    prefix: `children.${number}` | `plannedChildren.${number}`,
+    plan: EducationPlanFormData
+  ) => {
+    const studentLoanTotals = plan.funding.studentLoans.map(calculateStudentLoanRepayment);
+    return (
+      <div className="space-y-4">
+        {(Object.keys(educationFundingFields) as EducationFundingKind[]).map((kind) => (
+          <div key={kind} className="space-y-2">
+            <div className="flex justify-between items-center">
+              <h5 className="text-sm font-medium">{educationFundingFields[kind].title}</h5>
+              <button
+                type="button"
+                onClick={() => addEducationFunding(prefix, plan, kind)}
+                className="px-2 py-1 bg-blue-500 text-white rounded-md hover:bg-blue-600"
+              >
+                追加
+              </button>
+            </div>
+            {plan.funding[kind].map((_, fundingIndex) => (
+              <div key={fundingIndex} className="grid grid-cols-6 gap-4 items-end">
+                {educationFundingFields[kind].fields.map((field) => (
+                  <div key={String(field.name)} className="space-y-2">
+                    <label className="text-sm font-medium">{field.label}</label>
+                    <input
+                      type="number"
+                      step={field.step ?? '1'}
+                      {...register(
+                        `${prefix}.educationPlan.funding.${kind}.${fundingIndex}.${String(field.name)}` as Path<BasicInfoFormData>,
+                        { valueAsNumber: true }
+                      )}
+                      className="w-full rounded-md border border-gray-200 px-3 py-2"
+                    />
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => removeEducationFunding(prefix, plan, kind, fundingIndex)}
+                  className="px-2 py-2 bg-red-500 text-white rounded-md hover:bg-red-600"
+                >
+                  削除
+                </button>
+                {kind === 'studentLoans' && studentLoanTotals[fundingIndex] && (
+                  <p className="col-span-6 text-xs text-gray-500">
+                    借入総額 {studentLoanTotals[fundingIndex].borrowed}万円、
+                    卒業後の返済 月{studentLoanTotals[fundingIndex].monthlyRepayment}万円（本人が返済するため親の収支には含めません）
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        ))}
+        <p className="text-xs text-gray-500">
+          奨学金と贈与はその子の教育費を上限に充て、残りを親の教育費として計上します。贈与の使い残しは子どもの資金として扱い、親の資産には戻しません。
+          学資保険の保険料と満期金は親の収支に計上します。
+        </p>
+      </div>
+    );
+  };
+
   return (
     <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
       <div className="space-y-4">
@@ -415,7 +979,7 @@ export function BasicInfoForm() {
                   />
                 </div>
                 <div className="space-y-2">
-                  <label className="text-sm font-medium">ローン金利（%）</label>
+                  <label className="text-sm font-medium">ローン金利（当初・%）</label>
                   <input
                     type="number"
                     step="0.1"
@@ -423,6 +987,35 @@ export function BasicInfoForm() {
                     className="w-full rounded-md border border-gray-200 px-3 py-2"
                   />
                 </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">金利タイプ</label>
+                  <Select
+                    defaultValue={ownHousing?.rateType}
+                    onValueChange={(value) => setValue('housingInfo.own.rateType', value as 'fixed' | 'variable' | 'fixed_period')}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="金利タイプを選択" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="fixed">全期間固定</SelectItem>
+                      <SelectItem value="variable">変動金利</SelectItem>
+                      <SelectItem value="fixed_period">固定期間選択型</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {ownHousing?.rateType === 'variable' && (
+                    <p className="text-xs text-gray-500">元利均等返済では返済額を5年ごとに見直し、上限は従前の125%です</p>
+                  )}
+                </div>
+                {ownHousing?.rateType === 'fixed_period' && (
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">固定期間（年）</label>
+                    <input
+                      type="number"
+                      {...register('housingInfo.own.fixedPeriodYears', { valueAsNumber: true })}
+                      className="w-full rounded-md border border-gray-200 px-3 py-2"
+                    />
+                  </div>
+                )}
                 <div className="space-y-2">
                   <label className="text-sm font-medium">返済期間（年）</label>
                   <input
@@ -439,10 +1032,422 @@ export function BasicInfoForm() {
                     {...register('housingInfo.own.maintenanceCostRate', { valueAsNumber: true })}
                     className="w-full rounded-md border border-gray-200 px-3 py-2"
                   />
-                  <p className="text-xs text-gray-500">購入金額に対する年間の維持費の割合</p>
+                  <p className="text-xs text-gray-500">購入金額に対する、税金・修繕以外の年間の維持費の割合</p>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">返済方法</label>
+                  <Select
+                    defaultValue={ownHousing?.repaymentMethod}
+                    onValueChange={(value) => setValue('housingInfo.own.repaymentMethod', value as 'equal_payment' | 'equal_principal')}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="返済方法を選択" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="equal_payment">元利均等返済</SelectItem>
+                      <SelectItem value="equal_principal">元金均等返済</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">住宅の種類</label>
+                  <Select
+                    defaultValue={ownHousing?.homeType}
+                    onValueChange={(value) => setValue('housingInfo.own.homeType', value as HomeType)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="住宅の種類を選択" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(HOME_TYPE_LABELS) as HomeType[]).map((type) => (
+                        <SelectItem key={type} value={type}>{HOME_TYPE_LABELS[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">新築・中古</label>
+                  <Select
+                    defaultValue={ownHousing?.newlyBuilt === false ? 'existing' : 'new'}
+                    onValueChange={(value) => setValue('housingInfo.own.newlyBuilt', value === 'new')}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="新築・中古を選択" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="new">新築・買取再販</SelectItem>
+                      <SelectItem value="existing">中古</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {mortgageTaxCreditRule && (
+                    <p className="text-xs text-gray-500">
+                      {mortgageTaxCreditRule.balanceLimit > 0
+                        ? `住宅ローン控除：年末残高${mortgageTaxCreditRule.balanceLimit.toLocaleString()}万円まで${mortgageTaxCreditRule.rate}%を${mortgageTaxCreditRule.years}年間（合計所得${mortgageTaxCreditRule.incomeLimit.toLocaleString()}万円以下）`
+                        : '住宅ローン控除の対象外です'}
+                    </p>
+                  )}
                 </div>
               </div>
             )}
+            {housingType === 'own' && ownHousing && renderOwnershipCostFields('housingInfo.own', ownHousing)}
+            {housingType === 'own' && ownHousing && (
+              <MortgageAffordability
+                own={ownHousing}
+                onApply={({ purchasePrice, loanAmount, loanTermYears }) => {
+                  setValue('housingInfo.own.purchasePrice', purchasePrice);
+                  setValue('housingInfo.own.loanAmount', loanAmount);
+                  setValue('housingInfo.own.loanTermYears', loanTermYears);
+                }}
+              />
+            )}
+
+            {housingType === 'own' && ownHousing?.rateType !== 'fixed' && (
+              <div className="space-y-4">
+                <div className="flex justify-between items-center">
+                  <h4 className="text-md font-medium">金利の見通し</h4>
+                  <button
+                    type="button"
+                    onClick={addRateChange}
+                    className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600"
+                  >
+                    金利の変更を追加
+                  </button>
+                </div>
+                {rateChanges.map((_, index) => (
+                  <div key={index} className="grid grid-cols-3 gap-4 items-end border-l-2 border-gray-200 pl-4">
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">適用開始年</label>
+                      <input
+                        type="number"
+                        {...register(`housingInfo.own.rateChanges.${index}.year`, { valueAsNumber: true })}
+                        className="w-full rounded-md border border-gray-200 px-3 py-2"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">適用金利（%）</label>
+                      <input
+                        type="number"
+                        step="0.01"
+                        {...register(`housingInfo.own.rateChanges.${index}.rate`, { valueAsNumber: true })}
+                        className="w-full rounded-md border border-gray-200 px-3 py-2"
+                      />
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => removeRateChange(index)}
+                      className="px-2 py-1 bg-red-500 text-white rounded-md hover:bg-red-600"
+                    >
+                      削除
+                    </button>
+                  </div>
+                ))}
+                <p className="text-xs text-gray-500">
+                  {ownHousing?.rateType === 'fixed_period'
+                    ? '固定期間の終了後に適用する金利。未入力の場合は当初の金利が続きます'
+                    : '未入力の場合は当初の金利が続きます'}
+                </p>
+
+                {stressResults.length > 0 && (
+                  <div className="space-y-2">
+                    <h4 className="text-md font-medium">金利上昇ストレステスト（{STRESS_YEARS}年かけて上昇）</h4>
+                    <table className="w-full text-sm border-collapse">
+                      <thead>
+                        <tr className="bg-gray-50">
+                          <th className="border px-3 py-2 text-left">金利上昇幅</th>
+                          <th className="border px-3 py-2 text-right">総返済額</th>
+                          <th className="border px-3 py-2 text-right">利息総額</th>
+                          <th className="border px-3 py-2 text-right">最大の年間返済額</th>
+                          <th className="border px-3 py-2 text-right">未払利息の最大</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {stressResults.map((row) => (
+                          <tr key={row.increase}>
+                            <td className="border px-3 py-2">{row.increase === 0 ? '見通しどおり' : `+${row.increase}%`}</td>
+                            <td className="border px-3 py-2 text-right">{row.totalPayment}</td>
+                            <td className="border px-3 py-2 text-right">{row.totalInterest}</td>
+                            <td className="border px-3 py-2 text-right">{row.maxAnnualPayment}</td>
+                            <td className="border px-3 py-2 text-right">{row.maxUnpaidInterest}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    <p className="text-xs text-gray-500">金額は万円。シミュレーションに反映する上昇幅は前提条件で設定します</p>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {housingType === 'own' && (
+              <div className="space-y-4">
+                <div className="flex justify-between items-center">
+                  <h4 className="text-md font-medium">繰上返済</h4>
+                  <button
+                    type="button"
+                    onClick={addPrepayment}
+                    className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600"
+                  >
+                    繰上返済を追加
+                  </button>
+                </div>
+                {prepayments.map((prepayment, index) => (
+                  <div key={index} className="grid grid-cols-4 gap-4 items-end border-l-2 border-gray-200 pl-4">
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">返済年</label>
+                      <input
+                        type="number"
+                        {...register(`housingInfo.own.prepayments.${index}.year`, { valueAsNumber: true })}
+                        className="w-full rounded-md border border-gray-200 px-3 py-2"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">金額（万円）</label>
+                      <input
+                        type="number"
+                        {...register(`housingInfo.own.prepayments.${index}.amount`, { valueAsNumber: true })}
+                        className="w-full rounded-md border border-gray-200 px-3 py-2"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">種類</label>
+                      <Select
+                        defaultValue={prepayment.type}
+                        onValueChange={(value) =>
+                          setValue(`housingInfo.own.prepayments.${index}.type`, value as 'shorten_term' | 'reduce_payment')
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="種類を選択" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="shorten_term">期間短縮型</SelectItem>
+                          <SelectItem value="reduce_payment">返済額軽減型</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => removePrepayment(index)}
+                      className="px-2 py-1 bg-red-500 text-white rounded-md hover:bg-red-600"
+                    >
+                      削除
+                    </button>
+                  </div>
+                ))}
+
+                {mortgageSummary && mortgageSchedule.length > 0 && (
+                  <div className="space-y-2">
+                    <h4 className="text-md font-medium">返済予定表</h4>
+                    <p className="text-sm">
+                      総返済額 {mortgageSummary.totalPayment}万円（うち利息 {mortgageSummary.totalInterest}万円）、
+                      完済 {mortgageSummary.payoffYear}年
+                      {mortgageSummary.interestSaved > 0 && `、繰上返済による利息の軽減 ${mortgageSummary.interestSaved}万円`}
+                    </p>
+                    <div className="max-h-[300px] overflow-y-auto">
+                      <table className="w-full text-sm border-collapse">
+                        <thead>
+                          <tr className="bg-gray-50">
+                            <th className="border px-3 py-2 text-left">年</th>
+                            <th className="border px-3 py-2 text-right">金利（%）</th>
+                            <th className="border px-3 py-2 text-right">返済額</th>
+                            <th className="border px-3 py-2 text-right">元金</th>
+                            <th className="border px-3 py-2 text-right">利息</th>
+                            <th className="border px-3 py-2 text-right">繰上返済</th>
+                            <th className="border px-3 py-2 text-right">年末残高</th>
+                            <th className="border px-3 py-2 text-right">未払利息</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {mortgageSchedule.map((row) => (
+                            <tr key={row.year}>
+                              <td className="border px-3 py-2">{row.year}</td>
+                              <td className="border px-3 py-2 text-right">{row.interestRate}</td>
+                              <td className="border px-3 py-2 text-right">{row.payment}</td>
+                              <td className="border px-3 py-2 text-right">{row.principal}</td>
+                              <td className="border px-3 py-2 text-right">{row.interest}</td>
+                              <td className="border px-3 py-2 text-right">{row.prepayment || '-'}</td>
+                              <td className="border px-3 py-2 text-right">{row.balance}</td>
+                              <td className="border px-3 py-2 text-right">{row.unpaidInterest || '-'}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                    <p className="text-xs text-gray-500">金額は万円。繰上返済は指定した年の年末に行うものとして計算します</p>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="space-y-4">
+              <div className="flex justify-between items-center">
+                <h4 className="text-md font-medium">住み替えの予定</h4>
+                <button
+                  type="button"
+                  onClick={addHousingPhase}
+                  className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600"
+                >
+                  住み替えを追加
+                </button>
+              </div>
+              {housingPhases.map((phase, index) => (
+                <div key={index} className="space-y-4 border-l-2 border-gray-200 pl-4">
+                  <div className="flex justify-between items-center">
+                    <h5 className="text-sm font-medium">住み替え {index + 1}</h5>
+                    <button
+                      type="button"
+                      onClick={() => removeHousingPhase(index)}
+                      className="px-2 py-1 bg-red-500 text-white rounded-md hover:bg-red-600"
+                    >
+                      削除
+                    </button>
+                  </div>
+                  <div className="grid grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">住み替える年</label>
+                      <input
+                        type="number"
+                        {...register(`housingInfo.phases.${index}.startYear`, { valueAsNumber: true })}
+                        className="w-full rounded-md border border-gray-200 px-3 py-2"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">住み替え先</label>
+                      <Select
+                        value={phase.type}
+                        onValueChange={(value) => handleHousingPhaseTypeChange(index, value as 'rent' | 'own')}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="住居タイプを選択" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="rent">賃貸</SelectItem>
+                          <SelectItem value="own">住宅購入／ローン</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">引越し費用（万円）</label>
+                      <input
+                        type="number"
+                        {...register(`housingInfo.phases.${index}.movingCost`, { valueAsNumber: true })}
+                        className="w-full rounded-md border border-gray-200 px-3 py-2"
+                      />
+                    </div>
+                  </div>
+
+                  {phase.type === 'rent' && (
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium">賃料（万円/月）</label>
+                        <input
+                          type="number"
+                          {...register(`housingInfo.phases.${index}.rent.monthlyRent`, { valueAsNumber: true })}
+                          className="w-full rounded-md border border-gray-200 px-3 py-2"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium">年間上昇率（%）</label>
+                        <input
+                          type="number"
+                          step="0.1"
+                          {...register(`housingInfo.phases.${index}.rent.annualIncreaseRate`, { valueAsNumber: true })}
+                          className="w-full rounded-md border border-gray-200 px-3 py-2"
+                        />
+                      </div>
+                    </div>
+                  )}
+
+                  {phase.type === 'own' && (
+                    <div className="grid grid-cols-3 gap-4">
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium">購入金額（万円）</label>
+                        <input
+                          type="number"
+                          {...register(`housingInfo.phases.${index}.own.purchasePrice`, { valueAsNumber: true })}
+                          className="w-full rounded-md border border-gray-200 px-3 py-2"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium">借入金額（万円）</label>
+                        <input
+                          type="number"
+                          {...register(`housingInfo.phases.${index}.own.loanAmount`, { valueAsNumber: true })}
+                          className="w-full rounded-md border border-gray-200 px-3 py-2"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium">金利（%・全期間固定）</label>
+                        <input
+                          type="number"
+                          step="0.01"
+                          {...register(`housingInfo.phases.${index}.own.interestRate`, { valueAsNumber: true })}
+                          className="w-full rounded-md border border-gray-200 px-3 py-2"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium">返済期間（年）</label>
+                        <input
+                          type="number"
+                          {...register(`housingInfo.phases.${index}.own.loanTermYears`, { valueAsNumber: true })}
+                          className="w-full rounded-md border border-gray-200 px-3 py-2"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium">住宅維持費率（%）</label>
+                        <input
+                          type="number"
+                          step="0.1"
+                          {...register(`housingInfo.phases.${index}.own.maintenanceCostRate`, { valueAsNumber: true })}
+                          className="w-full rounded-md border border-gray-200 px-3 py-2"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium">住宅の種類</label>
+                        <Select
+                          defaultValue={phase.own?.homeType}
+                          onValueChange={(value) => setValue(`housingInfo.phases.${index}.own.homeType`, value as HomeType)}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="住宅の種類を選択" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(HOME_TYPE_LABELS) as HomeType[]).map((type) => (
+                              <SelectItem key={type} value={type}>{HOME_TYPE_LABELS[type]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                  )}
+                  {phase.type === 'own' && phase.own && renderOwnershipCostFields(`housingInfo.phases.${index}.own`, phase.own)}
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">持ち家の売却価格（万円、0なら評価額）</label>
+                      <input
+                        type="number"
+                        {...register(`housingInfo.phases.${index}.salePrice`, { valueAsNumber: true })}
+                        className="w-full rounded-md border border-gray-200 px-3 py-2"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">売却諸費用（%）</label>
+                      <input
+                        type="number"
+                        step="0.1"
+                        {...register(`housingInfo.phases.${index}.saleCostRate`, { valueAsNumber: true })}
+                        className="w-full rounded-md border border-gray-200 px-3 py-2"
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    住み替える前の住まいが持ち家の場合は住み替える年に売却し、売却代金でローンの残高を一括返済します。
+                    前の住まいの家賃は住み替える年から計上せず、購入する場合は頭金（購入金額 − 借入金額）をその年に支払います
+                  </p>
+                </div>
+              ))}
+            </div>
           </div>
         </div>
 
@@ -504,6 +1509,25 @@ export function BasicInfoForm() {
                   </SelectContent>
                 </Select>
               </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium">配偶者の死亡想定年齢</label>
+                <Select
+                  defaultValue={basicInfo.spouseInfo?.deathAge?.toString()}
+                  onValueChange={(value) => setValue('spouseInfo.deathAge', parseInt(value))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="未設定（本人と同じ年まで）" />
+                  </SelectTrigger>
+                  <SelectContent className="max-h-[300px]">
+                    {ages.map((age) => (
+                      <SelectItem key={age} value={age.toString()}>
+                        {age}歳
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
           )}
 
@@ -566,6 +1590,25 @@ export function BasicInfoForm() {
                 </Select>
               </div>
 
+              <div className="space-y-2">
+                <label className="text-sm font-medium">配偶者の死亡想定年齢</label>
+                <Select
+                  defaultValue={basicInfo.spouseInfo?.deathAge?.toString()}
+                  onValueChange={(value) => setValue('spouseInfo.deathAge', parseInt(value))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="未設定（本人と同じ年まで）" />
+                  </SelectTrigger>
+                  <SelectContent className="max-h-[300px]">
+                    {ages.map((age) => (
+                      <SelectItem key={age} value={age.toString()}>
+                        {age}歳
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
               <div className="space-y-2">
                 <label className="text-sm font-medium">結婚による生活費の増加（万円）</label>
                 <input
@@ -627,9 +1670,11 @@ export function BasicInfoForm() {
 
               <div className="space-y-4">
                 <h5 className="text-sm font-medium">教育プラン</h5>
-                {['nursery', 'preschool', 'elementary', 'juniorHigh', 'highSchool', 'university'].map(
+                {['nursery', 'preschool', 'elementary', 'juniorHigh', 'highSchool', 'university', 'graduateSchool'].map(
                   (level) => renderEducationSelect(level, index)
                 )}
+                {renderExtraEducationFields(`children.${index}`, child.educationPlan)}
+                {renderEducationFundingFields(`children.${index}`, child.educationPlan)}
               </div>
             </div>
           ))}
@@ -683,9 +1728,11 @@ export function BasicInfoForm() {
 
               <div className="space-y-4">
                 <h5 className="text-sm font-medium">教育プラン</h5>
-                {['nursery', 'preschool', 'elementary', 'juniorHigh', 'highSchool', 'university'].map(
+                {['nursery', 'preschool', 'elementary', 'juniorHigh', 'highSchool', 'university', 'graduateSchool'].map(
                   (level) => renderEducationSelect(level, index, true)
                 )}
+                {renderExtraEducationFields(`plannedChildren.${index}`, child.educationPlan)}
+                {renderEducationFundingFields(`plannedChildren.${index}`, child.educationPlan)}
               </div>
             </div>
           ))}
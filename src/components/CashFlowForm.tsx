@@ -1,17 +1,16 @@
 import React, { useEffect } from 'react';
-import { useSimulatorStore } from '@/store/simulator';
+import { useSimulatorStore, type HousingPhase } from '@/store/simulator';
+import type { IncomeLines, ExpenseLines } from '@/lib/simulation';
+import type { ChildRearingYear } from '@/lib/childRearing';
 import { Download } from 'lucide-react';
 
-function calculateAge(startYear: number, currentAge: number, targetYear: number) {
-  return currentAge + (targetYear - startYear);
-}
-
 function getLifeEventDescription(
   year: number,
   basicInfo: any,
   children: any[],
   plannedChildren: any[],
-  lifeEvents: any[]
+  lifeEvents: any[],
+  childRearing?: ChildRearingYear
 ): string {
   const events: string[] = [];
   
@@ -36,7 +35,18 @@ function getLifeEventDescription(
   plannedChildren.forEach((child, index) => {
     const birthYear = basicInfo.startYear + child.yearsFromNow;
     if (year === birthYear) {
-      events.push(`第${children.length + index + 1}子誕生`);
+      events.push(
+        childRearing
+          ? `第${children.length + index + 1}子誕生（出産費用-${childRearing.birthCostPerChild}万円、出産育児一時金+${childRearing.birthLumpSumPerChild}万円）`
+          : `第${children.length + index + 1}子誕生`
+      );
+    }
+  });
+
+  // Housing moves
+  (basicInfo.housingInfo.phases || []).forEach((phase: HousingPhase) => {
+    if (year === phase.startYear) {
+      events.push(phase.type === 'own' ? '住宅購入' : '住み替え');
     }
   });
 
@@ -53,77 +63,34 @@ export function CashFlowForm() {
   const {
     basicInfo,
     incomeInfo,
-    cashFlow,
+    simulation,
     assetsLiabilities,
-    parameters,
     lifeEvents,
     setCurrentStep,
     updateCashFlowValue,
     initializeCashFlow,
   } = useSimulatorStore();
-  
-  const yearsUntilDeath = basicInfo.deathAge - basicInfo.currentAge;
-  const years = Array.from(
-    { length: yearsUntilDeath + 1 },
-    (_, i) => basicInfo.startYear + i
+
+  const { nisa, ideco } = assetsLiabilities.taxAdvantaged;
+  const hasMortgage = simulation.years.some(sy => sy.mortgage);
+  const hasRealEstate = simulation.years.some(sy => sy.realEstateValue > 0);
+  const hasOwnershipCosts = simulation.years.some(sy => sy.ownershipCosts);
+  const hasHousingMoves = basicInfo.housingInfo.phases.length > 0;
+  const hasChildren = basicInfo.children.length + basicInfo.plannedChildren.length > 0;
+  const hasParentalLeave = incomeInfo.parentalLeaves.length > 0;
+  const hasEducationInsurance = simulation.years.some(
+    sy => sy.education.insurancePremium > 0 || sy.education.insuranceMaturity > 0
+  );
+  const hasEducationFunding = simulation.years.some(
+    sy => sy.education.publicSupport + sy.education.grants + sy.education.studentLoans + sy.education.gifts > 0
   );
 
   useEffect(() => {
-    if (Object.keys(cashFlow).length === 0) {
+    if (simulation.years.length === 0) {
       initializeCashFlow();
     }
   }, []);
 
-  // Calculate initial total assets
-  const initialAssets = Object.values(assetsLiabilities.assets).reduce((sum, value) => sum + value, 0);
-  const initialLiabilities = Object.values(assetsLiabilities.liabilities).reduce((sum, value) => sum + value, 0);
-  const netInitialAssets = initialAssets - initialLiabilities;
-
-  // Calculate yearly balances first
-  const yearlyBalances = years.reduce((acc: { [year: number]: number }, year) => {
-    const cf = cashFlow[year];
-    if (!cf) {
-      acc[year] = 0;
-      return acc;
-    }
-
-    const income = cf.mainIncome + cf.sideIncome + cf.spouseIncome;
-    const expenses = cf.livingExpense + cf.housingExpense + cf.educationExpense + cf.otherExpense;
-    
-    const yearLifeEvents = lifeEvents.filter(event => event.year === year);
-    const lifeEventImpact = yearLifeEvents.reduce((sum, event) => {
-      return sum + (event.type === 'income' ? event.amount : -event.amount);
-    }, 0);
-
-    acc[year] = income - expenses + lifeEventImpact;
-    return acc;
-  }, {});
-
-  // Calculate investment assets and returns for each year
-  const investmentData = years.reduce((acc: { 
-    assets: { [year: number]: number },
-    returns: { [year: number]: number }
-  }, year, index) => {
-    if (index === 0) {
-      // 初年度は純資産＋その年の収支
-      const firstYearTotal = netInitialAssets + yearlyBalances[year];
-      acc.assets[year] = firstYearTotal;
-      acc.returns[year] = Number((firstYearTotal * (parameters.investmentReturn / 100)).toFixed(1));
-      return acc;
-    }
-
-    const prevYear = years[index - 1];
-    const prevAssets = acc.assets[prevYear];
-    const prevReturns = acc.returns[prevYear];
-    
-    // 前年の資産に運用収益を加え、さらに当年の収支を加算
-    const currentYearAssets = prevAssets + prevReturns + yearlyBalances[year];
-    acc.assets[year] = Number(currentYearAssets.toFixed(1));
-    acc.returns[year] = Number((currentYearAssets * (parameters.investmentReturn / 100)).toFixed(1));
-
-    return acc;
-  }, { assets: {}, returns: {} });
-
   const handleExportCSV = () => {
     // ヘッダー行の作成
     const headers = [
@@ -133,45 +100,87 @@ export function CashFlowForm() {
       '主たる収入（万円）',
       '副業収入（万円）',
       '配偶者の収入（万円）',
+      'NISA取崩し（万円）',
+      'iDeCo受取（万円）',
+      '住宅売却（万円）',
+      '学資保険満期金（万円）',
+      '児童手当・出産育児一時金（万円）',
+      '育児休業給付金（万円）',
+      'その他収入（万円）',
       '運用資産（万円）',
       '運用収益（万円）',
       '生活費（万円）',
       '住居費（万円）',
       '教育費（万円）',
-      'その他収支（万円）',
+      '学資保険料（万円）',
+      '養育費・出産費用（万円）',
+      '住民税（万円）',
+      'NISA積立（万円）',
+      'iDeCo掛金（万円）',
+      'その他支出（万円）',
       '収支（万円）',
-      '総資産（万円）'
+      'NISA残高（万円）',
+      'iDeCo残高（万円）',
+      'ローン金利（%）',
+      'ローン返済額（万円）',
+      'ローン残高（万円）',
+      '未払利息（万円）',
+      '住宅ローン控除（万円）',
+      '固定資産税（万円）',
+      '管理費・修繕積立金（万円）',
+      '大規模修繕（万円）',
+      '教育費総額（万円）',
+      '無償化・就学支援金（万円）',
+      '奨学金・贈与（万円）',
+      '金融資産（万円）',
+      '不動産評価額（万円）',
+      '純資産（万円）'
     ];
 
     // データ行の作成
-    const rows = years.map(year => {
-      const cf = cashFlow[year] || {
-        mainIncome: 0,
-        sideIncome: 0,
-        spouseIncome: 0,
-        livingExpense: 0,
-        housingExpense: 0,
-        educationExpense: 0,
-        otherExpense: 0
-      };
-
-      return [
-        year,
-        calculateAge(basicInfo.startYear, basicInfo.currentAge, year),
-        getLifeEventDescription(year, basicInfo, basicInfo.children, basicInfo.plannedChildren, lifeEvents),
-        cf.mainIncome,
-        cf.sideIncome,
-        cf.spouseIncome,
-        investmentData.assets[year],
-        investmentData.returns[year],
-        cf.livingExpense,
-        cf.housingExpense,
-        cf.educationExpense,
-        cf.otherExpense,
-        yearlyBalances[year],
-        investmentData.assets[year]
-      ];
-    });
+    const rows = simulation.years.map(sy => [
+      sy.year,
+      sy.age,
+      getLifeEventDescription(sy.year, basicInfo, basicInfo.children, basicInfo.plannedChildren, lifeEvents, sy.childRearing),
+      sy.income.main,
+      sy.income.side,
+      sy.income.spouse,
+      sy.income.nisaWithdrawal,
+      sy.income.idecoPayout,
+      sy.income.homeSale,
+      sy.income.educationInsuranceMaturity,
+      sy.income.childBenefits,
+      sy.income.parentalLeaveBenefit,
+      sy.income.other,
+      sy.assets,
+      sy.investmentReturn,
+      sy.expense.living,
+      sy.expense.housing,
+      sy.expense.education,
+      sy.expense.educationInsurancePremium,
+      sy.expense.childRearing,
+      sy.expense.residentTax,
+      sy.expense.nisaContribution,
+      sy.expense.idecoContribution,
+      sy.expense.other,
+      sy.balance,
+      sy.taxAdvantagedBalances.nisa,
+      sy.taxAdvantagedBalances.ideco,
+      sy.mortgage?.interestRate ?? '',
+      sy.mortgage ? sy.mortgage.payment + sy.mortgage.prepayment : '',
+      sy.mortgage?.balance ?? '',
+      sy.mortgage?.unpaidInterest ?? '',
+      sy.mortgageTaxCredit,
+      sy.ownershipCosts?.propertyTax ?? '',
+      sy.ownershipCosts ? sy.ownershipCosts.managementFee + sy.ownershipCosts.repairReserve : '',
+      sy.ownershipCosts?.renovation ?? '',
+      sy.education.cost,
+      sy.education.publicSupport,
+      Number((sy.education.grants + sy.education.studentLoans + sy.education.gifts).toFixed(1)),
+      sy.assets,
+      sy.realEstateValue,
+      sy.netWorth
+    ]);
 
     // CSVデータの作成
     const csvContent = [
@@ -191,6 +200,41 @@ export function CashFlowForm() {
     document.body.removeChild(link);
   };
 
+  // readOnly: 口座残高と連動する行は手動で変更できない
+  const renderIncomeRow = (label: string, line: keyof IncomeLines, readOnly: boolean = false) => (
+    <tr>
+      <td className="px-4 py-2 text-sm text-gray-900 sticky left-0 bg-white">{label}</td>
+      {simulation.years.map(sy => (
+        <td key={sy.year} className="px-4 py-2 text-right text-sm">
+          <input
+            type="number"
+            value={sy.income[line]}
+            onChange={(e) => updateCashFlowValue(sy.year, 'income', line, Number(e.target.value))}
+            readOnly={readOnly}
+            className={`w-24 text-right border-gray-200 rounded-md ${readOnly ? 'bg-gray-50' : ''}`}
+          />
+        </td>
+      ))}
+    </tr>
+  );
+
+  const renderExpenseRow = (label: string, line: keyof ExpenseLines, readOnly: boolean = false) => (
+    <tr>
+      <td className="px-4 py-2 text-sm text-gray-900 sticky left-0 bg-white">{label}</td>
+      {simulation.years.map(sy => (
+        <td key={sy.year} className="px-4 py-2 text-right text-sm">
+          <input
+            type="number"
+            value={sy.expense[line]}
+            onChange={(e) => updateCashFlowValue(sy.year, 'expense', line, Number(e.target.value))}
+            readOnly={readOnly}
+            className={`w-24 text-right border-gray-200 rounded-md ${readOnly ? 'bg-gray-50' : ''}`}
+          />
+        </td>
+      ))}
+    </tr>
+  );
+
   const handleNext = () => {
     setCurrentStep(7);
   };
@@ -217,9 +261,9 @@ export function CashFlowForm() {
           <thead className="bg-gray-50">
             <tr>
               <th className="px-4 py-2 text-left text-sm font-medium text-gray-500 sticky left-0 bg-gray-50">項目</th>
-              {years.map(year => (
-                <th key={year} className="px-4 py-2 text-right text-sm font-medium text-gray-500">
-                  {year}年
+              {simulation.years.map(sy => (
+                <th key={sy.year} className="px-4 py-2 text-right text-sm font-medium text-gray-500">
+                  {sy.year}年
                 </th>
               ))}
             </tr>
@@ -227,155 +271,214 @@ export function CashFlowForm() {
           <tbody className="divide-y divide-gray-200">
             <tr>
               <td className="px-4 py-2 text-sm text-gray-900 sticky left-0 bg-white">年齢</td>
-              {years.map(year => (
-                <td key={year} className="px-4 py-2 text-right text-sm text-gray-900">
-                  {calculateAge(basicInfo.startYear, basicInfo.currentAge, year)}歳
+              {simulation.years.map(sy => (
+                <td key={sy.year} className="px-4 py-2 text-right text-sm text-gray-900">
+                  {sy.age}歳
                 </td>
               ))}
             </tr>
             <tr>
               <td className="px-4 py-2 text-sm text-gray-900 sticky left-0 bg-white">イベント</td>
-              {years.map(year => (
-                <td key={year} className="px-4 py-2 text-right text-xs text-gray-600">
-                  {getLifeEventDescription(year, basicInfo, basicInfo.children, basicInfo.plannedChildren, lifeEvents)}
+              {simulation.years.map(sy => (
+                <td key={sy.year} className="px-4 py-2 text-right text-xs text-gray-600">
+                  {getLifeEventDescription(sy.year, basicInfo, basicInfo.children, basicInfo.plannedChildren, lifeEvents, sy.childRearing)}
                 </td>
               ))}
             </tr>
+            {renderIncomeRow('主たる収入（万円）', 'main')}
+            {renderIncomeRow('副業収入（万円）', 'side')}
+            {basicInfo.maritalStatus !== 'single' && renderIncomeRow('配偶者の収入（万円）', 'spouse')}
+            {nisa.enabled && renderIncomeRow('NISA取崩し（万円）', 'nisaWithdrawal', true)}
+            {ideco.enabled && renderIncomeRow('iDeCo受取（税引後・万円）', 'idecoPayout', true)}
+            {hasHousingMoves && renderIncomeRow('住宅売却（万円）', 'homeSale')}
+            {hasEducationInsurance && renderIncomeRow('学資保険満期金（万円）', 'educationInsuranceMaturity')}
+            {hasChildren && renderIncomeRow('児童手当・出産育児一時金（万円）', 'childBenefits')}
+            {hasParentalLeave && renderIncomeRow('育児休業給付金（万円）', 'parentalLeaveBenefit')}
+            {renderIncomeRow('その他収入（万円）', 'other')}
             <tr>
-              <td className="px-4 py-2 text-sm text-gray-900 sticky left-0 bg-white">主たる収入（万円）</td>
-              {years.map(year => (
-                <td key={year} className="px-4 py-2 text-right text-sm">
+              <td className="px-4 py-2 text-sm text-gray-900 sticky left-0 bg-white">運用資産（万円）</td>
+              {simulation.years.map(sy => (
+                <td key={sy.year} className="px-4 py-2 text-right text-sm">
                   <input
                     type="number"
-                    value={cashFlow[year]?.mainIncome || 0}
-                    onChange={(e) => updateCashFlowValue(year, 'mainIncome', Number(e.target.value))}
-                    className="w-24 text-right border-gray-200 rounded-md"
+                    value={sy.assets}
+                    readOnly
+                    className="w-24 text-right border-gray-200 rounded-md bg-gray-50"
                   />
+                  （+{sy.investmentReturn}）
                 </td>
               ))}
             </tr>
-            <tr>
-              <td className="px-4 py-2 text-sm text-gray-900 sticky left-0 bg-white">副業収入（万円）</td>
-              {years.map(year => (
-                <td key={year} className="px-4 py-2 text-right text-sm">
-                  <input
-                    type="number"
-                    value={cashFlow[year]?.sideIncome || 0}
-                    onChange={(e) => updateCashFlowValue(year, 'sideIncome', Number(e.target.value))}
-                    className="w-24 text-right border-gray-200 rounded-md"
-                  />
+            {renderExpenseRow('生活費（万円）', 'living')}
+            {renderExpenseRow('住居費（万円）', 'housing')}
+            {renderExpenseRow(hasEducationFunding ? '教育費（親の負担・万円）' : '教育費（万円）', 'education')}
+            {hasEducationInsurance && renderExpenseRow('学資保険料（万円）', 'educationInsurancePremium')}
+            {hasChildren && renderExpenseRow('養育費・出産費用（万円）', 'childRearing')}
+            {renderExpenseRow('住民税（前年所得分・万円）', 'residentTax')}
+            {nisa.enabled && renderExpenseRow('NISA積立（万円）', 'nisaContribution', true)}
+            {ideco.enabled && renderExpenseRow('iDeCo掛金（万円）', 'idecoContribution', true)}
+            {renderExpenseRow('その他支出（万円）', 'other')}
+            <tr className="bg-gray-50 font-medium">
+              <td className="px-4 py-2 text-sm text-gray-900 sticky left-0 bg-gray-50">収支</td>
+              {simulation.years.map(sy => (
+                <td key={sy.year} className={`px-4 py-2 text-right text-sm ${sy.balance >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {sy.balance}万円
                 </td>
               ))}
             </tr>
-            {basicInfo.maritalStatus !== 'single' && (
+            {nisa.enabled && (
               <tr>
-                <td className="px-4 py-2 text-sm text-gray-900 sticky left-0 bg-white">配偶者の収入（万円）</td>
-                {years.map(year => (
-                  <td key={year} className="px-4 py-2 text-right text-sm">
-                    <input
-                      type="number"
-                      value={cashFlow[year]?.spouseIncome || 0}
-                      onChange={(e) => updateCashFlowValue(year, 'spouseIncome', Number(e.target.value))}
-                      className="w-24 text-right border-gray-200 rounded-md"
-                    />
+                <td className="px-4 py-2 text-sm text-gray-900 sticky left-0 bg-white">NISA残高（万円）</td>
+                {simulation.years.map(sy => (
+                  <td key={sy.year} className="px-4 py-2 text-right text-sm text-gray-900">
+                    {sy.taxAdvantagedBalances.nisa}
                   </td>
                 ))}
               </tr>
             )}
-            <tr>
-              <td className="px-4 py-2 text-sm text-gray-900 sticky left-0 bg-white">運用資産（万円）</td>
-              {years.map(year => (
-                <td key={year} className="px-4 py-2 text-right text-sm">
-                  <input
-                    type="number"
-                    value={investmentData.assets[year]}
-                    readOnly
-                    className="w-24 text-right border-gray-200 rounded-md bg-gray-50"
-                  />
-                  （+{investmentData.returns[year]}）
-                </td>
-              ))}
-            </tr>
-            <tr>
-              <td className="px-4 py-2 text-sm text-gray-900 sticky left-0 bg-white">生活費（万円）</td>
-              {years.map(year => (
-                <td key={year} className="px-4 py-2 text-right text-sm">
-                  <input
-                    type="number"
-                    value={cashFlow[year]?.livingExpense || 0}
-                    onChange={(e) => updateCashFlowValue(year, 'livingExpense', Number(e.target.value))}
-                    className="w-24 text-right border-gray-200 rounded-md"
-                  />
-                </td>
-              ))}
-            </tr>
-            <tr>
-              <td className="px-4 py-2 text-sm text-gray-900 sticky left-0 bg-white">住居費（万円）</td>
-              {years.map(year => (
-                <td key={year} className="px-4 py-2 text-right text-sm">
-                  <input
-                    type="number"
-                    value={cashFlow[year]?.housingExpense || 0}
-                    onChange={(e) => updateCashFlowValue(year, 'housingExpense', Number(e.target.value))}
-                    className="w-24 text-right border-gray-200 rounded-md"
-                  />
-                </td>
-              ))}
-            </tr>
-            <tr>
-              <td className="px-4 py-2 text-sm text-gray-900 sticky left-0 bg-white">教育費（万円）</td>
-              {years.map(year => (
-                <td key={year} className="px-4 py-2 text-right text-sm">
-                  <input
-                    type="number"
-                    value={cashFlow[year]?.educationExpense || 0}
-                    onChange={(e) => updateCashFlowValue(year, 'educationExpense', Number(e.target.value))}
-                    className="w-24 text-right border-gray-200 rounded-md"
-                  />
-                </td>
-              ))}
-            </tr>
-            <tr>
-              <td className="px-4 py-2 text-sm text-gray-900 sticky left-0 bg-white">その他収支（万円）</td>
-              {years.map(year => {
-                const yearLifeEvents = lifeEvents.filter(event => event.year === year);
-                const lifeEventImpact = yearLifeEvents.reduce((sum, event) => {
-                  return sum + (event.type === 'income' ? event.amount : -event.amount);
-                }, 0);
-                return (
-                  <td key={year} className="px-4 py-2 text-right text-sm">
-                    <input
-                      type="number"
-                      value={cashFlow[year]?.otherExpense || lifeEventImpact}
-                      onChange={(e) => updateCashFlowValue(year, 'otherExpense', Number(e.target.value))}
-                      className="w-24 text-right border-gray-200 rounded-md"
-                    />
-                  </td>
-                );
-              })}
-            </tr>
-            <tr className="bg-gray-50 font-medium">
-              <td className="px-4 py-2 text-sm text-gray-900 sticky left-0 bg-gray-50">収支</td>
-              {years.map(year => {
-                const balance = yearlyBalances[year];
-                return (
-                  <td key={year} className={`px-4 py-2 text-right text-sm ${balance >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                    {balance}万円
+            {ideco.enabled && (
+              <tr>
+                <td className="px-4 py-2 text-sm text-gray-900 sticky left-0 bg-white">iDeCo残高（万円）</td>
+                {simulation.years.map(sy => (
+                  <td key={sy.year} className="px-4 py-2 text-right text-sm text-gray-900">
+                    {sy.taxAdvantagedBalances.ideco}
                   </td>
-                );
-              })}
-            </tr>
+                ))}
+              </tr>
+            )}
+            {hasMortgage && (
+              <>
+                <tr>
+                  <td className="px-4 py-2 text-sm text-gray-900 sticky left-0 bg-white">ローン金利（%）</td>
+                  {simulation.years.map(sy => (
+                    <td key={sy.year} className="px-4 py-2 text-right text-sm text-gray-900">
+                      {sy.mortgage?.interestRate ?? '-'}
+                    </td>
+                  ))}
+                </tr>
+                <tr>
+                  <td className="px-4 py-2 text-sm text-gray-900 sticky left-0 bg-white">ローン返済額（万円）</td>
+                  {simulation.years.map(sy => (
+                    <td key={sy.year} className="px-4 py-2 text-right text-sm text-gray-900">
+                      {sy.mortgage ? Number((sy.mortgage.payment + sy.mortgage.prepayment).toFixed(1)) : '-'}
+                    </td>
+                  ))}
+                </tr>
+                <tr>
+                  <td className="px-4 py-2 text-sm text-gray-900 sticky left-0 bg-white">ローン残高（万円）</td>
+                  {simulation.years.map(sy => (
+                    <td key={sy.year} className="px-4 py-2 text-right text-sm text-gray-900">
+                      {sy.mortgage?.balance ?? '-'}
+                    </td>
+                  ))}
+                </tr>
+                <tr>
+                  <td className="px-4 py-2 text-sm text-gray-900 sticky left-0 bg-white">未払利息（万円）</td>
+                  {simulation.years.map(sy => (
+                    <td
+                      key={sy.year}
+                      className={`px-4 py-2 text-right text-sm ${sy.mortgage?.unpaidInterest ? 'text-red-600' : 'text-gray-900'}`}
+                    >
+                      {sy.mortgage?.unpaidInterest ?? '-'}
+                    </td>
+                  ))}
+                </tr>
+                <tr>
+                  <td className="px-4 py-2 text-sm text-gray-900 sticky left-0 bg-white">住宅ローン控除（万円）</td>
+                  {simulation.years.map(sy => (
+                    <td key={sy.year} className="px-4 py-2 text-right text-sm text-gray-900">
+                      {sy.mortgageTaxCredit || '-'}
+                    </td>
+                  ))}
+                </tr>
+              </>
+            )}
+            {hasOwnershipCosts && (
+              <>
+                <tr>
+                  <td className="px-4 py-2 text-sm text-gray-900 sticky left-0 bg-white">固定資産税（万円）</td>
+                  {simulation.years.map(sy => (
+                    <td key={sy.year} className="px-4 py-2 text-right text-sm text-gray-900">
+                      {sy.ownershipCosts?.propertyTax || '-'}
+                    </td>
+                  ))}
+                </tr>
+                <tr>
+                  <td className="px-4 py-2 text-sm text-gray-900 sticky left-0 bg-white">管理費・修繕積立金（万円）</td>
+                  {simulation.years.map(sy => (
+                    <td key={sy.year} className="px-4 py-2 text-right text-sm text-gray-900">
+                      {sy.ownershipCosts
+                        ? Number((sy.ownershipCosts.managementFee + sy.ownershipCosts.repairReserve).toFixed(1)) || '-'
+                        : '-'}
+                    </td>
+                  ))}
+                </tr>
+                <tr>
+                  <td className="px-4 py-2 text-sm text-gray-900 sticky left-0 bg-white">大規模修繕（万円）</td>
+                  {simulation.years.map(sy => (
+                    <td key={sy.year} className="px-4 py-2 text-right text-sm text-gray-900">
+                      {sy.ownershipCosts?.renovation || '-'}
+                    </td>
+                  ))}
+                </tr>
+              </>
+            )}
+            {hasEducationFunding && (
+              <>
+                <tr>
+                  <td className="px-4 py-2 text-sm text-gray-900 sticky left-0 bg-white">教育費総額（万円）</td>
+                  {simulation.years.map(sy => (
+                    <td key={sy.year} className="px-4 py-2 text-right text-sm text-gray-900">
+                      {sy.education.cost || '-'}
+                    </td>
+                  ))}
+                </tr>
+                <tr>
+                  <td className="px-4 py-2 text-sm text-gray-900 sticky left-0 bg-white">無償化・就学支援金（万円）</td>
+                  {simulation.years.map(sy => (
+                    <td key={sy.year} className="px-4 py-2 text-right text-sm text-gray-900">
+                      {sy.education.publicSupport || '-'}
+                    </td>
+                  ))}
+                </tr>
+                <tr>
+                  <td className="px-4 py-2 text-sm text-gray-900 sticky left-0 bg-white">奨学金・贈与（万円）</td>
+                  {simulation.years.map(sy => (
+                    <td key={sy.year} className="px-4 py-2 text-right text-sm text-gray-900">
+                      {Number((sy.education.grants + sy.education.studentLoans + sy.education.gifts).toFixed(1)) || '-'}
+                    </td>
+                  ))}
+                </tr>
+              </>
+            )}
             <tr className="bg-gray-50 font-medium">
-              <td className="px-4 py-2 text-sm text-gray-900 sticky left-0 bg-gray-50">総資産</td>
-              {years.map(year => {
-                const assets = investmentData.assets[year];
-                return (
-                  <td key={year} className={`px-4 py-2 text-right text-sm ${assets >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                    {assets}万円
-                  </td>
-                );
-              })}
+              <td className="px-4 py-2 text-sm text-gray-900 sticky left-0 bg-gray-50">金融資産</td>
+              {simulation.years.map(sy => (
+                <td key={sy.year} className={`px-4 py-2 text-right text-sm ${sy.assets >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {sy.assets}万円
+                </td>
+              ))}
             </tr>
+            {hasRealEstate && (
+              <>
+                <tr>
+                  <td className="px-4 py-2 text-sm text-gray-900 sticky left-0 bg-white">不動産評価額</td>
+                  {simulation.years.map(sy => (
+                    <td key={sy.year} className="px-4 py-2 text-right text-sm text-gray-900">
+                      {sy.realEstateValue}万円
+                    </td>
+                  ))}
+                </tr>
+                <tr className="bg-gray-50 font-medium">
+                  <td className="px-4 py-2 text-sm text-gray-900 sticky left-0 bg-gray-50">純資産</td>
+                  {simulation.years.map(sy => (
+                    <td key={sy.year} className={`px-4 py-2 text-right text-sm ${sy.netWorth >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {sy.netWorth}万円
+                    </td>
+                  ))}
+                </tr>
+              </>
+            )}
           </tbody>
         </table>
       </div>
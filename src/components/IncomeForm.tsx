@@ -3,7 +3,19 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { useSimulatorStore } from '@/store/simulator';
-import { calculatePension } from '@/lib/calculations';
+import {
+  calculatePension,
+  calculateNetIncome,
+  comparePensionClaimingAges,
+  PENSION_MIN_START_AGE,
+  PENSION_MAX_START_AGE,
+  PENSION_STANDARD_START_AGE,
+} from '@/lib/calculations';
+import { getIncomeDeductionInputs } from '@/lib/simulation';
+import { calculateCareerPension, getCareerSegment, getCareerSegments } from '@/lib/career';
+import type { DeductionBreakdown } from '@/lib/deductions';
+import { BLUE_RETURN_DEDUCTION_OPTIONS, BUSINESS_TAX_RATE_OPTIONS } from '@/lib/businessIncome';
+import { comparePayoutMethods, getYearsOfService, PAYOUT_ANNUITY_YEARS } from '@/lib/retirementIncome';
 import {
   Select,
   SelectContent,
@@ -13,6 +25,21 @@ import {
 } from '@/components/ui/select';
 
 const ages = Array.from({ length: 121 }, (_, i) => i);
+const months = Array.from({ length: 12 }, (_, i) => i + 1);
+const occupations = [
+  { value: 'company_employee', label: '会社員・公務員' },
+  { value: 'part_time_with_pension', label: 'パート・アルバイト（厚生年金あり）' },
+  { value: 'part_time_without_pension', label: 'パート・アルバイト（厚生年金なし）' },
+  { value: 'self_employed', label: '自営業・フリーランス' },
+  { value: 'homemaker', label: '専業主婦・主夫' },
+] as const;
+const pensionStartAges = Array.from(
+  { length: PENSION_MAX_START_AGE - PENSION_MIN_START_AGE + 1 },
+  (_, i) => PENSION_MIN_START_AGE + i
+);
+// 受給開始年齢の比較表に並べる年齢と累計額を見る年齢
+const comparisonStartAges = [60, 62, 65, 68, 70, 72, 75];
+const comparisonHorizonAges = [75, 80, 85, 90, 95];
 
 const sideIncomeSchema = z.object({
   type: z.enum(['one-time', 'recurring']),
@@ -29,77 +56,196 @@ const sideIncomeSchema = z.object({
   }).optional(),
 });
 
+const careerSegmentSchema = z.object({
+  occupation: z.enum(['company_employee', 'part_time_with_pension', 'part_time_without_pension', 'self_employed', 'homemaker']),
+  startAge: z.number().min(0).max(120),
+  endAge: z.number().min(0).max(120),
+  annualIncome: z.number().min(0),
+  raiseRate: z.number(),
+  severancePay: z.number().min(0),
+  description: z.string(),
+});
+
+// 育児休業は最長で子が2歳になるまで
+const parentalLeaveSchema = z.object({
+  person: z.enum(['self', 'spouse']),
+  startYear: z.number().min(1900).max(2200),
+  startMonth: z.number().min(1).max(12),
+  months: z.number().min(0).max(24),
+  shortHoursYears: z.number().min(0).max(10),
+  shortHoursPayRate: z.number().min(0).max(100),
+});
+
 const incomeInfoSchema = z.object({
   annualIncome: z.number().min(0),
   raiseRate: z.number().min(0),
   severancePay: z.number().min(0),
   workStartAge: z.number().min(0).max(120),
   workEndAge: z.number().min(0).max(120),
-  pensionStartAge: z.number().min(0).max(120),
+  pensionStartAge: z.number().min(PENSION_MIN_START_AGE).max(PENSION_MAX_START_AGE),
   pensionAmount: z.number().min(0),
   sideIncomes: z.array(sideIncomeSchema),
+  // 区間は年齢の両端を含むので、次の区間は前の区間の終了年齢の翌年から始める
+  careerSegments: z.array(careerSegmentSchema).superRefine((segments, ctx) => {
+    segments.forEach((segment, index) => {
+      if (segment.endAge < segment.startAge) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: '終了年齢は開始年齢以上にしてください',
+          path: [index],
+        });
+      } else if (segments.some((other, otherIndex) =>
+        otherIndex < index && other.startAge <= segment.endAge && segment.startAge <= other.endAge
+      )) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: 'ほかの区間と年齢が重なっています',
+          path: [index],
+        });
+      }
+    });
+  }),
+  parentalLeaves: z.array(parentalLeaveSchema),
   spouse: z.object({
     annualIncome: z.number().min(0),
     severancePay: z.number().min(0),
     workStartAge: z.number().min(0).max(120),
     workEndAge: z.number().min(0).max(120),
+    pensionStartAge: z.number().min(PENSION_MIN_START_AGE).max(PENSION_MAX_START_AGE),
     pensionAmount: z.number().min(0),
   }).optional(),
+  business: z.object({
+    expenseRate: z.number().min(0).max(100),
+    blueReturnDeduction: z.number().min(0),
+    businessTaxRate: z.number().min(0).max(100),
+  }),
+  incomeDeductions: z.object({
+    lifeInsurancePremiums: z.object({
+      general: z.number().min(0),
+      medical: z.number().min(0),
+      pension: z.number().min(0),
+    }),
+    medicalExpenses: z.number().min(0),
+  }),
 });
 
+const deductionLabels: { key: keyof DeductionBreakdown; label: string }[] = [
+  { key: 'socialInsurance', label: '社会保険料控除' },
+  { key: 'basic', label: '基礎控除' },
+  { key: 'spouse', label: '配偶者（特別）控除' },
+  { key: 'dependents', label: '扶養控除' },
+  { key: 'lifeInsurance', label: '生命保険料控除' },
+  { key: 'medical', label: '医療費控除' },
+  { key: 'total', label: '合計' },
+];
+
 type IncomeFormData = z.infer<typeof incomeInfoSchema>;
 
 export function IncomeForm() {
-  const { incomeInfo, setIncomeInfo, basicInfo, setCurrentStep } = useSimulatorStore();
+  const { incomeInfo, setIncomeInfo, basicInfo, parameters, setCurrentStep } = useSimulatorStore();
   const { register, handleSubmit, watch, setValue, formState: { errors } } = useForm<IncomeFormData>({
     resolver: zodResolver(incomeInfoSchema),
     defaultValues: {
       ...incomeInfo,
-      pensionAmount: Number((calculatePension(
-        incomeInfo.annualIncome,
-        incomeInfo.workStartAge,
-        incomeInfo.workEndAge,
-        incomeInfo.pensionStartAge,
-        basicInfo.occupation
+      pensionAmount: Number((calculateCareerPension(
+        basicInfo,
+        incomeInfo,
+        incomeInfo.pensionStartAge
       ) / 12).toFixed(1)), // Convert annual to monthly and format to 1 decimal place
     },
   });
 
   const sideIncomes = watch('sideIncomes') || [];
+  const careerSegments = watch('careerSegments') || [];
+  const parentalLeaves = watch('parentalLeaves') || [];
   const showSpouseInfo = basicInfo.maritalStatus !== 'single';
+  const isSelfEmployed = basicInfo.occupation === 'self_employed';
+  const hasCareerSegments = careerSegments.length > 0;
+  const hasBusinessIncome = hasCareerSegments
+    ? careerSegments.some(segment => segment.occupation === 'self_employed')
+    : isSelfEmployed;
   const annualIncome = watch('annualIncome');
+  const raiseRate = watch('raiseRate');
   const workStartAge = watch('workStartAge');
   const workEndAge = watch('workEndAge');
   const pensionStartAge = watch('pensionStartAge');
+  const severancePay = watch('severancePay');
+
+  // 経歴の区間（未入力の場合は上の年収・就業期間を1つの区間とする）と、引退時の区間
+  const careerIncomeInfo = {
+    annualIncome: annualIncome || 0,
+    raiseRate: raiseRate || 0,
+    severancePay: severancePay || 0,
+    workStartAge,
+    workEndAge,
+    careerSegments,
+  };
+  const segments = getCareerSegments(basicInfo, careerIncomeInfo);
+  const retirementSegment = segments[segments.length - 1];
+  const currentSegment = hasCareerSegments ? getCareerSegment(segments, basicInfo.currentAge) : undefined;
 
   // Spouse-related watched values
   const spouseAnnualIncome = watch('spouse.annualIncome');
   const spouseWorkStartAge = watch('spouse.workStartAge');
   const spouseWorkEndAge = watch('spouse.workEndAge');
+  const spousePensionStartAge = watch('spouse.pensionStartAge');
 
-  // Update pension amount when relevant fields change
+  // 初年度の所得控除の内訳（配偶者・扶養親族は基本情報から算出）
+  const watchedIncomeInfo = watch();
+  const firstYearTax = calculateNetIncome(
+    hasCareerSegments ? currentSegment?.annualIncome ?? 0 : annualIncome || 0,
+    currentSegment?.occupation ?? basicInfo.occupation,
+    getIncomeDeductionInputs(basicInfo, { ...incomeInfo, ...watchedIncomeInfo }, basicInfo.startYear),
+    {
+      age: basicInfo.currentAge,
+      rates: parameters.socialInsuranceRates,
+      nationalHealthInsuranceRates: parameters.nationalHealthInsuranceRates,
+      business: watchedIncomeInfo.business,
+    }
+  );
+  const socialInsuranceBreakdown = firstYearTax.deductions.socialInsuranceBreakdown;
+  const showDeductionBreakdown = (currentSegment?.occupation ?? basicInfo.occupation) !== 'homemaker';
+
+  // 受給開始年齢ごとの比較（65歳開始の年額を基準にする）
+  const pensionComparison = comparePensionClaimingAges(
+    calculateCareerPension(basicInfo, careerIncomeInfo, PENSION_STANDARD_START_AGE),
+    [...new Set([...comparisonStartAges, pensionStartAge])].sort((a, b) => a - b),
+    comparisonHorizonAges
+  );
+
+  // 引退時の退職金を一時金で受け取る場合と年金で受け取る場合の比較（年金は退職の翌年から）
+  const annualPension = calculateCareerPension(basicInfo, careerIncomeInfo, pensionStartAge);
+  const severanceComparison = comparePayoutMethods({
+    amount: retirementSegment.severancePay,
+    yearsOfService: getYearsOfService(retirementSegment.startAge, retirementSegment.endAge),
+    payoutStartAge: retirementSegment.endAge + 1,
+    publicPension: annualPension,
+    publicPensionStartAge: pensionStartAge,
+    annuityYearsOptions: PAYOUT_ANNUITY_YEARS,
+  });
+
+  // Update pension amount when relevant fields (including career segments) change
   useEffect(() => {
-    if (annualIncome !== undefined && workStartAge !== undefined && workEndAge !== undefined && pensionStartAge !== undefined) {
-      const annualPension = calculatePension(annualIncome, workStartAge, workEndAge, pensionStartAge, basicInfo.occupation);
+    if (!Number.isNaN(annualPension)) {
       const monthlyPension = Number((annualPension / 12).toFixed(1)); // Format to 1 decimal place
       setValue('pensionAmount', monthlyPension);
     }
-  }, [annualIncome, workStartAge, workEndAge, pensionStartAge, basicInfo.occupation, setValue]);
+  }, [annualPension, setValue]);
 
   // Update spouse's pension amount when relevant fields change
   useEffect(() => {
-    if (showSpouseInfo && spouseAnnualIncome !== undefined && spouseWorkStartAge !== undefined && spouseWorkEndAge !== undefined) {
+    if (showSpouseInfo && spouseAnnualIncome !== undefined && spouseWorkStartAge !== undefined && spouseWorkEndAge !== undefined && spousePensionStartAge !== undefined) {
       const spouseAnnualPension = calculatePension(
         spouseAnnualIncome,
         spouseWorkStartAge,
         spouseWorkEndAge,
-        pensionStartAge,
+        spousePensionStartAge,
         basicInfo.spouseInfo?.occupation || 'company_employee'
       );
       const spouseMonthlyPension = Number((spouseAnnualPension / 12).toFixed(1)); // Format to 1 decimal place
       setValue('spouse.pensionAmount', spouseMonthlyPension);
     }
-  }, [showSpouseInfo, spouseAnnualIncome, spouseWorkStartAge, spouseWorkEndAge, pensionStartAge, basicInfo.spouseInfo?.occupation, setValue]);
+  }, [showSpouseInfo, spouseAnnualIncome, spouseWorkStartAge, spouseWorkEndAge, spousePensionStartAge, basicInfo.spouseInfo?.occupation, setValue]);
 
   const onSubmit = (data: IncomeFormData) => {
     setIncomeInfo(data);
@@ -127,77 +273,137 @@ export function IncomeForm() {
     );
   };
 
+  // 最初の区間は現在の仕事、以降は直前の区間の翌年から始める
+  const addCareerSegment = () => {
+    const previous = careerSegments[careerSegments.length - 1];
+    setValue('careerSegments', [
+      ...careerSegments,
+      previous
+        ? {
+            occupation: previous.occupation,
+            startAge: previous.endAge + 1,
+            endAge: Math.max(previous.endAge + 1, workEndAge),
+            annualIncome: previous.annualIncome,
+            raiseRate: 0,
+            severancePay: 0,
+            description: '',
+          }
+        : {
+            occupation: basicInfo.occupation,
+            startAge: workStartAge,
+            endAge: workEndAge,
+            annualIncome: annualIncome || 0,
+            raiseRate: raiseRate || 0,
+            severancePay: severancePay || 0,
+            description: '現在の仕事',
+          },
+    ]);
+  };
+
+  const removeCareerSegment = (index: number) => {
+    setValue(
+      'careerSegments',
+      careerSegments.filter((_, i) => i !== index)
+    );
+  };
+
+  // 出生予定の子がいればその年から休業する（短時間勤務は子が3歳になるまで）
+  const addParentalLeave = () => {
+    setValue('parentalLeaves', [
+      ...parentalLeaves,
+      {
+        person: 'self',
+        startYear: basicInfo.startYear + (basicInfo.plannedChildren[0]?.yearsFromNow ?? 0),
+        startMonth: 4,
+        months: 12,
+        shortHoursYears: 2,
+        shortHoursPayRate: 75,
+      },
+    ]);
+  };
+
+  const removeParentalLeave = (index: number) => {
+    setValue(
+      'parentalLeaves',
+      parentalLeaves.filter((_, i) => i !== index)
+    );
+  };
+
   return (
     <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
       <div className="space-y-4">
         <h2 className="text-xl font-bold">収入情報</h2>
 
         <div className="grid grid-cols-2 gap-4">
-          <div className="space-y-2">
-            <label className="text-sm font-medium">年収（万円）</label>
-            <input
-              type="number"
-              {...register('annualIncome', { valueAsNumber: true })}
-              className="w-full rounded-md border border-gray-200 px-3 py-2"
-            />
-          </div>
+          {!hasCareerSegments && (
+            <>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">{isSelfEmployed ? '売上高（万円）' : '年収（万円）'}</label>
+                <input
+                  type="number"
+                  {...register('annualIncome', { valueAsNumber: true })}
+                  className="w-full rounded-md border border-gray-200 px-3 py-2"
+                />
+              </div>
 
-          <div className="space-y-2">
-            <label className="text-sm font-medium">昇給率（%）</label>
-            <input
-              type="number"
-              step="0.1"
-              {...register('raiseRate', { valueAsNumber: true })}
-              className="w-full rounded-md border border-gray-200 px-3 py-2"
-            />
-          </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">昇給率（%）</label>
+                <input
+                  type="number"
+                  step="0.1"
+                  {...register('raiseRate', { valueAsNumber: true })}
+                  className="w-full rounded-md border border-gray-200 px-3 py-2"
+                />
+              </div>
 
-          <div className="space-y-2">
-            <label className="text-sm font-medium">退職金（万円）</label>
-            <input
-              type="number"
-              {...register('severancePay', { valueAsNumber: true })}
-              className="w-full rounded-md border border-gray-200 px-3 py-2"
-            />
-          </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">退職金（万円）</label>
+                <input
+                  type="number"
+                  {...register('severancePay', { valueAsNumber: true })}
+                  className="w-full rounded-md border border-gray-200 px-3 py-2"
+                />
+              </div>
 
-          <div className="space-y-2">
-            <label className="text-sm font-medium">就業開始年齢</label>
-            <Select
-              defaultValue={incomeInfo.workStartAge?.toString()}
-              onValueChange={(value) => setValue('workStartAge', parseInt(value))}
-            >
-              <SelectTrigger>
-                <SelectValue placeholder="年齢を選択" />
-              </SelectTrigger>
-              <SelectContent className="max-h-[300px]">
-                {ages.map((age) => (
-                  <SelectItem key={age} value={age.toString()}>
-                    {age}歳
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">就業開始年齢</label>
+                <Select
+                  defaultValue={incomeInfo.workStartAge?.toString()}
+                  onValueChange={(value) => setValue('workStartAge', parseInt(value))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="年齢を選択" />
+                  </SelectTrigger>
+                  <SelectContent className="max-h-[300px]">
+                    {ages.map((age) => (
+                      <SelectItem key={age} value={age.toString()}>
+                        {age}歳
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
 
-          <div className="space-y-2">
-            <label className="text-sm font-medium">就業終了年齢</label>
-            <Select
-              defaultValue={incomeInfo.workEndAge?.toString()}
-              onValueChange={(value) => setValue('workEndAge', parseInt(value))}
-            >
-              <SelectTrigger>
-                <SelectValue placeholder="年齢を選択" />
-              </SelectTrigger>
-              <SelectContent className="max-h-[300px]">
-                {ages.map((age) => (
-                  <SelectItem key={age} value={age.toString()}>
-                    {age}歳
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">就業終了年齢</label>
+                <Select
+                  defaultValue={incomeInfo.workEndAge?.toString()}
+                  onValueChange={(value) => setValue('workEndAge', parseInt(value))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="年齢を選択" />
+                  </SelectTrigger>
+                  <SelectContent className="max-h-[300px]">
+                    {ages.map((age) => (
+                      <SelectItem key={age} value={age.toString()}>
+                        {age}歳
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
 
           <div className="space-y-2">
             <label className="text-sm font-medium">年金受給開始年齢</label>
@@ -209,7 +415,7 @@ export function IncomeForm() {
                 <SelectValue placeholder="年齢を選択" />
               </SelectTrigger>
               <SelectContent className="max-h-[300px]">
-                {ages.map((age) => (
+                {pensionStartAges.map((age) => (
                   <SelectItem key={age} value={age.toString()}>
                     {age}歳
                   </SelectItem>
@@ -230,6 +436,271 @@ export function IncomeForm() {
           </div>
         </div>
 
+        <div className="space-y-4">
+          <div className="flex justify-between items-center">
+            <h3 className="text-lg font-semibold">経歴（転職・独立・休職）</h3>
+            <button
+              type="button"
+              onClick={addCareerSegment}
+              className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600"
+            >
+              区間を追加
+            </button>
+          </div>
+          <p className="text-sm text-gray-500">
+            区間を追加すると、年収・昇給率・退職金・就業期間と基本情報の職業の代わりに、区間ごとの職業で税・社会保険料を計算します。
+            区間の間の年は収入がなく、老齢基礎年金は国民年金を納付したものとして満額で計算します。
+            厚生年金は会社員・パート（厚生年金あり）の区間の年収と加入年数から計算します。
+          </p>
+
+          {careerSegments.map((segment, index) => (
+            <div key={index} className="space-y-4 border-l-2 border-gray-200 pl-4">
+              <div className="flex justify-between items-center">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">職業</label>
+                  <Select
+                    defaultValue={segment.occupation}
+                    onValueChange={(value) =>
+                      setValue(`careerSegments.${index}.occupation`, value as typeof occupations[number]['value'])
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="職業を選択" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {occupations.map((occupation) => (
+                        <SelectItem key={occupation.value} value={occupation.value}>
+                          {occupation.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => removeCareerSegment(index)}
+                  className="px-2 py-1 bg-red-500 text-white rounded-md hover:bg-red-600"
+                >
+                  削除
+                </button>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">開始年齢</label>
+                  <Select
+                    defaultValue={segment.startAge.toString()}
+                    onValueChange={(value) => setValue(`careerSegments.${index}.startAge`, parseInt(value))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="年齢を選択" />
+                    </SelectTrigger>
+                    <SelectContent className="max-h-[300px]">
+                      {ages.map((age) => (
+                        <SelectItem key={age} value={age.toString()}>
+                          {age}歳
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">終了年齢</label>
+                  <Select
+                    defaultValue={segment.endAge.toString()}
+                    onValueChange={(value) => setValue(`careerSegments.${index}.endAge`, parseInt(value))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="年齢を選択" />
+                    </SelectTrigger>
+                    <SelectContent className="max-h-[300px]">
+                      {ages.map((age) => (
+                        <SelectItem key={age} value={age.toString()}>
+                          {age}歳
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">
+                    {segment.occupation === 'self_employed' ? '開始時の売上高（万円）' : '開始時の年収（万円）'}
+                  </label>
+                  <input
+                    type="number"
+                    {...register(`careerSegments.${index}.annualIncome` as const, { valueAsNumber: true })}
+                    className="w-full rounded-md border border-gray-200 px-3 py-2"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">昇給率（%）</label>
+                  <input
+                    type="number"
+                    step="0.1"
+                    {...register(`careerSegments.${index}.raiseRate` as const, { valueAsNumber: true })}
+                    className="w-full rounded-md border border-gray-200 px-3 py-2"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">区間の終了時の退職金（万円）</label>
+                  <input
+                    type="number"
+                    {...register(`careerSegments.${index}.severancePay` as const, { valueAsNumber: true })}
+                    className="w-full rounded-md border border-gray-200 px-3 py-2"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">説明</label>
+                  <input
+                    type="text"
+                    {...register(`careerSegments.${index}.description` as const)}
+                    className="w-full rounded-md border border-gray-200 px-3 py-2"
+                  />
+                </div>
+              </div>
+              {errors.careerSegments?.[index] && (
+                <p className="text-red-500 text-sm">
+                  {errors.careerSegments[index]?.message ?? '年齢・金額を正しく入力してください'}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="text-lg font-semibold">年金の受給開始年齢の比較</h3>
+          <table className="w-full text-sm border-collapse">
+            <thead>
+              <tr className="bg-gray-50">
+                <th className="border px-3 py-2 text-left">開始年齢</th>
+                <th className="border px-3 py-2 text-right">年額（万円）</th>
+                <th className="border px-3 py-2 text-right">65歳開始との損益分岐</th>
+                {comparisonHorizonAges.map((age) => (
+                  <th key={age} className="border px-3 py-2 text-right">{age}歳までの累計</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {pensionComparison.map((row) => (
+                <tr key={row.startAge} className={row.startAge === pensionStartAge ? 'bg-blue-50 font-semibold' : ''}>
+                  <td className="border px-3 py-2">{row.startAge}歳</td>
+                  <td className="border px-3 py-2 text-right">{row.annualPension}</td>
+                  <td className="border px-3 py-2 text-right">
+                    {row.breakEvenAge !== undefined ? `${row.breakEvenAge}歳` : '-'}
+                  </td>
+                  {comparisonHorizonAges.map((age) => (
+                    <td key={age} className="border px-3 py-2 text-right">{row.cumulative[age]}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-sm text-gray-500">
+            繰上げは1か月につき0.4%減額、繰下げは0.7%増額（75歳開始で最大84%）。金額は現在価値・税引前で、マクロ経済スライドは含みません。
+          </p>
+        </div>
+
+        {retirementSegment.severancePay > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-lg font-semibold">退職金の受取方法の比較</h3>
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr className="bg-gray-50">
+                  <th className="border px-3 py-2 text-left">受取方法</th>
+                  <th className="border px-3 py-2 text-right">年額（万円）</th>
+                  <th className="border px-3 py-2 text-right">税額（万円）</th>
+                  <th className="border px-3 py-2 text-right">手取り合計（万円）</th>
+                </tr>
+              </thead>
+              <tbody>
+                <tr>
+                  <td className="border px-3 py-2">一時金（退職所得控除 {severanceComparison.lumpSum.deduction}万円）</td>
+                  <td className="border px-3 py-2 text-right">-</td>
+                  <td className="border px-3 py-2 text-right">{severanceComparison.lumpSum.total}</td>
+                  <td className="border px-3 py-2 text-right">{severanceComparison.lumpSum.netAmount}</td>
+                </tr>
+                {severanceComparison.annuities.map((row) => (
+                  <tr key={row.years}>
+                    <td className="border px-3 py-2">年金（{row.years}年）</td>
+                    <td className="border px-3 py-2 text-right">{row.annualPayment}</td>
+                    <td className="border px-3 py-2 text-right">{row.tax}</td>
+                    <td className="border px-3 py-2 text-right">{row.netAmount}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-sm text-gray-500">
+              一時金は退職所得として分離課税（控除後の1/2に課税）、年金は公的年金等の雑所得として公的年金と合算して課税します。年金受取中の運用益と社会保険料の増加は含みません。シミュレーションでは一時金で受け取るものとして計算します。
+            </p>
+          </div>
+        )}
+
+        {hasBusinessIncome && (
+          <div className="space-y-4">
+            <h3 className="text-lg font-semibold">事業所得</h3>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">経費率（%）</label>
+                <input
+                  type="number"
+                  step="0.1"
+                  {...register('business.expenseRate', { valueAsNumber: true })}
+                  className="w-full rounded-md border border-gray-200 px-3 py-2"
+                />
+                {errors.business?.expenseRate && (
+                  <p className="text-red-500 text-sm">0〜100の値を入力してください</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium">申告方法</label>
+                <Select
+                  defaultValue={incomeInfo.business.blueReturnDeduction.toString()}
+                  onValueChange={(value) => setValue('business.blueReturnDeduction', parseInt(value))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="申告方法を選択" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BLUE_RETURN_DEDUCTION_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value.toString()}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="col-span-2 space-y-2">
+                <label className="text-sm font-medium">個人事業税の税率</label>
+                <Select
+                  defaultValue={incomeInfo.business.businessTaxRate.toString()}
+                  onValueChange={(value) => setValue('business.businessTaxRate', parseInt(value))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="業種を選択" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BUSINESS_TAX_RATE_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value.toString()}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-sm text-gray-500">
+              国民健康保険料・国民年金保険料は事業所得から計算します。国民健康保険の料率はパラメータ設定で変更できます。
+            </p>
+          </div>
+        )}
+
         <div className="space-y-4">
           <div className="flex justify-between items-center">
             <h3 className="text-lg font-semibold">副業収入</h3>
@@ -461,6 +932,25 @@ export function IncomeForm() {
                 </Select>
               </div>
 
+              <div className="space-y-2">
+                <label className="text-sm font-medium">年金受給開始年齢</label>
+                <Select
+                  defaultValue={incomeInfo.spouse?.pensionStartAge?.toString()}
+                  onValueChange={(value) => setValue('spouse.pensionStartAge', parseInt(value))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="年齢を選択" />
+                  </SelectTrigger>
+                  <SelectContent className="max-h-[300px]">
+                    {pensionStartAges.map((age) => (
+                      <SelectItem key={age} value={age.toString()}>
+                        {age}歳
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
               <div className="space-y-2">
                 <label className="text-sm font-medium">年金受給額（万円/月）</label>
                 <input
@@ -474,6 +964,202 @@ export function IncomeForm() {
             </div>
           </div>
         )}
+
+        <div className="space-y-4">
+          <div className="flex justify-between items-center">
+            <h3 className="text-lg font-semibold">育児休業・短時間勤務</h3>
+            <button
+              type="button"
+              onClick={addParentalLeave}
+              className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600"
+            >
+              休業を追加
+            </button>
+          </div>
+          <p className="text-sm text-gray-500">
+            休業中は給与がなくなり、育児休業給付金（休業開始から6か月は賃金の67%、以降は50%、非課税）を受け取ります。
+            休業中の健康保険・厚生年金の保険料は免除されます。自営業・専業主婦（夫）は給付金の対象外です。
+          </p>
+
+          {parentalLeaves.map((leave, index) => (
+            <div key={index} className="space-y-4 border-l-2 border-gray-200 pl-4">
+              <div className="flex justify-between items-center">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">休業する人</label>
+                  <Select
+                    defaultValue={leave.person}
+                    onValueChange={(value) => setValue(`parentalLeaves.${index}.person`, value as 'self' | 'spouse')}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="選択" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="self">本人</SelectItem>
+                      {showSpouseInfo && <SelectItem value="spouse">配偶者</SelectItem>}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => removeParentalLeave(index)}
+                  className="px-2 py-1 bg-red-500 text-white rounded-md hover:bg-red-600"
+                >
+                  削除
+                </button>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">休業開始年</label>
+                  <input
+                    type="number"
+                    {...register(`parentalLeaves.${index}.startYear` as const, { valueAsNumber: true })}
+                    className="w-full rounded-md border border-gray-200 px-3 py-2"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">休業開始月</label>
+                  <Select
+                    defaultValue={leave.startMonth.toString()}
+                    onValueChange={(value) => setValue(`parentalLeaves.${index}.startMonth`, parseInt(value))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="月を選択" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {months.map((month) => (
+                        <SelectItem key={month} value={month.toString()}>
+                          {month}月
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">休業期間（か月）</label>
+                  <input
+                    type="number"
+                    {...register(`parentalLeaves.${index}.months` as const, { valueAsNumber: true })}
+                    className="w-full rounded-md border border-gray-200 px-3 py-2"
+                  />
+                  {errors.parentalLeaves?.[index]?.months && (
+                    <p className="text-red-500 text-sm">休業期間は24か月までです</p>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">復職後の短時間勤務（年）</label>
+                  <input
+                    type="number"
+                    {...register(`parentalLeaves.${index}.shortHoursYears` as const, { valueAsNumber: true })}
+                    className="w-full rounded-md border border-gray-200 px-3 py-2"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">短時間勤務中の給与（通常の%）</label>
+                  <input
+                    type="number"
+                    {...register(`parentalLeaves.${index}.shortHoursPayRate` as const, { valueAsNumber: true })}
+                    className="w-full rounded-md border border-gray-200 px-3 py-2"
+                  />
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-4">
+          <h3 className="text-lg font-semibold">所得控除</h3>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">一般生命保険料（万円/年）</label>
+              <input
+                type="number"
+                step="0.1"
+                {...register('incomeDeductions.lifeInsurancePremiums.general', { valueAsNumber: true })}
+                className="w-full rounded-md border border-gray-200 px-3 py-2"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">介護医療保険料（万円/年）</label>
+              <input
+                type="number"
+                step="0.1"
+                {...register('incomeDeductions.lifeInsurancePremiums.medical', { valueAsNumber: true })}
+                className="w-full rounded-md border border-gray-200 px-3 py-2"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">個人年金保険料（万円/年）</label>
+              <input
+                type="number"
+                step="0.1"
+                {...register('incomeDeductions.lifeInsurancePremiums.pension', { valueAsNumber: true })}
+                className="w-full rounded-md border border-gray-200 px-3 py-2"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">医療費（保険金等で補填される額を除く、万円/年）</label>
+              <input
+                type="number"
+                step="0.1"
+                {...register('incomeDeductions.medicalExpenses', { valueAsNumber: true })}
+                className="w-full rounded-md border border-gray-200 px-3 py-2"
+              />
+              {errors.incomeDeductions?.medicalExpenses && (
+                <p className="text-red-500 text-sm">0以上の値を入力してください</p>
+              )}
+            </div>
+          </div>
+
+          {showDeductionBreakdown && (
+            <div className="space-y-2">
+              <p className="text-sm text-gray-500">
+                配偶者控除・扶養控除は基本情報の配偶者・子どもの情報から毎年自動で計算されます。以下は{basicInfo.startYear}年の内訳です。
+              </p>
+              <table className="w-full text-sm border-collapse">
+                <thead>
+                  <tr className="bg-gray-50">
+                    <th className="border px-3 py-2 text-left">項目（万円）</th>
+                    <th className="border px-3 py-2 text-right">所得税</th>
+                    <th className="border px-3 py-2 text-right">住民税</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {deductionLabels.map(({ key, label }) => (
+                    <tr key={key} className={key === 'total' ? 'font-semibold' : ''}>
+                      <td className="border px-3 py-2">{label}</td>
+                      <td className="border px-3 py-2 text-right">{firstYearTax.deductions.incomeTaxDeductions[key]}</td>
+                      <td className="border px-3 py-2 text-right">{firstYearTax.deductions.residentTaxDeductions[key]}</td>
+                    </tr>
+                  ))}
+                  <tr>
+                    <td className="border px-3 py-2">税額</td>
+                    <td className="border px-3 py-2 text-right">{firstYearTax.deductions.incomeTax}</td>
+                    <td className="border px-3 py-2 text-right">{firstYearTax.deductions.residentTax}</td>
+                  </tr>
+                </tbody>
+              </table>
+              {isSelfEmployed ? (
+                <p className="text-sm text-gray-500">
+                  経費 {firstYearTax.deductions.businessExpenses}万円 / 青色申告特別控除 {firstYearTax.deductions.blueReturnDeduction}万円 / 個人事業税 {firstYearTax.deductions.businessTax}万円<br />
+                  社会保険料の内訳：国民健康保険 {socialInsuranceBreakdown.healthInsurance}万円 / 介護保険 {socialInsuranceBreakdown.longTermCare}万円 / 国民年金 {socialInsuranceBreakdown.nationalPension}万円
+                </p>
+              ) : (
+                <p className="text-sm text-gray-500">
+                  社会保険料の内訳：健康保険 {socialInsuranceBreakdown.healthInsurance}万円 / 介護保険 {socialInsuranceBreakdown.longTermCare}万円 / 厚生年金 {socialInsuranceBreakdown.welfarePension}万円 / 雇用保険 {socialInsuranceBreakdown.employmentInsurance}万円
+                </p>
+              )}
+              <p className="text-sm">手取り年収：{firstYearTax.netIncome}万円</p>
+            </div>
+          )}
+        </div>
       </div>
 
       <div className="flex justify-between space-x-4">
@@ -0,0 +1,222 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { useSimulatorStore, type OwnHousing } from '@/store/simulator';
+import {
+  calculateAffordability,
+  checkAffordability,
+  getSpouseScreeningIncome,
+  type AffordabilityResult,
+  type AffordabilityCheck,
+} from '@/lib/affordability';
+import { getCareerIncome, getCareerSegment, getCareerSegments } from '@/lib/career';
+import { Checkbox } from '@/components/ui/checkbox';
+
+const affordabilitySchema = z.object({
+  debtServiceRatio: z.number().min(1).max(50),
+  screeningRate: z.number().min(0).max(20),
+  payoffAge: z.number().min(20).max(100),
+  otherAnnualDebtPayments: z.number().min(0),
+  downPayment: z.number().min(0),
+  closingCosts: z.number().min(0),
+  includeSpouseIncome: z.boolean(),
+});
+
+type AffordabilityFormData = z.infer<typeof affordabilitySchema>;
+
+interface MortgageAffordabilityProps {
+  // 入力中の持ち家（金利・維持費などはそのまま使い、借入額・購入金額・返済期間を置き換える）
+  own: OwnHousing;
+  onApply: (values: Pick<OwnHousing, 'purchasePrice' | 'loanAmount' | 'loanTermYears'>) => void;
+}
+
+// 年収と返済負担率から借入可能額を求め、その金額で購入した場合のプランを検証する
+export function MortgageAffordability({ own, onApply }: MortgageAffordabilityProps) {
+  const {
+    basicInfo,
+    incomeInfo,
+    lifeEvents,
+    assetsLiabilities,
+    parameters,
+    cashFlowOverrides,
+  } = useSimulatorStore();
+  const [result, setResult] = useState<{
+    affordability: AffordabilityResult;
+    check: AffordabilityCheck;
+    downPayment: number;
+  } | null>(null);
+
+  const { register, handleSubmit, watch, setValue, formState: { errors } } = useForm<AffordabilityFormData>({
+    resolver: zodResolver(affordabilitySchema),
+    defaultValues: {
+      debtServiceRatio: 25,
+      screeningRate: 3,
+      payoffAge: 80,
+      otherAnnualDebtPayments: 0,
+      downPayment: Math.max(0, own.purchasePrice - own.loanAmount),
+      closingCosts: 300,
+      includeSpouseIncome: false,
+    },
+  });
+  const includeSpouseIncome = watch('includeSpouseIncome');
+  const plan = { basicInfo, incomeInfo, lifeEvents, assetsLiabilities };
+  const ageAtPurchase = basicInfo.currentAge + (own.purchaseYear - basicInfo.startYear);
+  // シミュレーションと同じく、購入時に働いている経歴の区間の昇給後の年収で審査する（働いていない年は0）
+  const careerSegment = getCareerSegment(getCareerSegments(basicInfo, incomeInfo), ageAtPurchase);
+  const annualIncome = careerSegment ? getCareerIncome(careerSegment, ageAtPurchase, basicInfo.currentAge) : 0;
+  // 購入年に結婚していない・働いていない配偶者の収入は合算しない
+  const spouseAnnualIncome = getSpouseScreeningIncome(plan, own.purchaseYear);
+
+  const onCalculate = (data: AffordabilityFormData) => {
+    const affordability = calculateAffordability({
+      annualIncome,
+      spouseAnnualIncome,
+      includeSpouseIncome: data.includeSpouseIncome,
+      debtServiceRatio: data.debtServiceRatio,
+      screeningRate: data.screeningRate,
+      payoffAge: data.payoffAge,
+      ageAtPurchase,
+      otherAnnualDebtPayments: data.otherAnnualDebtPayments,
+    });
+    const check = checkAffordability(
+      plan,
+      parameters,
+      {
+        own: {
+          ...own,
+          loanAmount: affordability.maxLoanAmount,
+          purchasePrice: affordability.maxLoanAmount + data.downPayment,
+          loanTermYears: affordability.termYears,
+        },
+        closingCosts: data.closingCosts,
+      },
+      cashFlowOverrides
+    );
+    setResult({ affordability, check, downPayment: data.downPayment });
+  };
+
+  const handleApply = () => {
+    if (!result) return;
+    onApply({
+      loanAmount: result.affordability.maxLoanAmount,
+      purchasePrice: result.affordability.maxLoanAmount + result.downPayment,
+      loanTermYears: result.affordability.termYears,
+    });
+  };
+
+  return (
+    <div className="space-y-4 bg-gray-50 p-4 rounded-lg">
+      <h4 className="text-md font-medium">借入可能額の目安</h4>
+      <div className="grid grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">返済負担率（%）</label>
+          <input
+            type="number"
+            step="0.1"
+            {...register('debtServiceRatio', { valueAsNumber: true })}
+            className="w-full rounded-md border border-gray-200 px-3 py-2"
+          />
+          {errors.debtServiceRatio && (
+            <p className="text-sm text-red-500">{errors.debtServiceRatio.message}</p>
+          )}
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">審査金利（%）</label>
+          <input
+            type="number"
+            step="0.01"
+            {...register('screeningRate', { valueAsNumber: true })}
+            className="w-full rounded-md border border-gray-200 px-3 py-2"
+          />
+          {errors.screeningRate && (
+            <p className="text-sm text-red-500">{errors.screeningRate.message}</p>
+          )}
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">完済時の年齢</label>
+          <input
+            type="number"
+            {...register('payoffAge', { valueAsNumber: true })}
+            className="w-full rounded-md border border-gray-200 px-3 py-2"
+          />
+          {errors.payoffAge && (
+            <p className="text-sm text-red-500">{errors.payoffAge.message}</p>
+          )}
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">他の借入の年間返済額（万円）</label>
+          <input
+            type="number"
+            {...register('otherAnnualDebtPayments', { valueAsNumber: true })}
+            className="w-full rounded-md border border-gray-200 px-3 py-2"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">頭金（万円）</label>
+          <input
+            type="number"
+            {...register('downPayment', { valueAsNumber: true })}
+            className="w-full rounded-md border border-gray-200 px-3 py-2"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">購入諸費用・引越し費用（万円）</label>
+          <input
+            type="number"
+            {...register('closingCosts', { valueAsNumber: true })}
+            className="w-full rounded-md border border-gray-200 px-3 py-2"
+          />
+        </div>
+        <div className="flex items-center space-x-2 pt-8">
+          <Checkbox
+            id="includeSpouseIncome"
+            checked={includeSpouseIncome}
+            onCheckedChange={(checked) => setValue('includeSpouseIncome', checked === true)}
+          />
+          <label htmlFor="includeSpouseIncome" className="text-sm font-medium">
+            配偶者の収入を合算する
+          </label>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">
+        年収は購入年（{ageAtPurchase}歳）の昇給を反映した税込年収（本人{annualIncome}万円・配偶者{spouseAnnualIncome}万円）を使います。
+        配偶者の収入は購入年に結婚していて就労期間中の場合だけ合算します。
+        返済期間は完済時の年齢までで最長35年。検証には入力中の購入年・金利・維持費と、保存済みのプランを使い、
+        購入年の前年までは現在の家賃を支払い、購入年に頭金と購入諸費用を支払うものとします
+      </p>
+      <button
+        type="button"
+        onClick={handleSubmit(onCalculate)}
+        className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600"
+      >
+        借入可能額を計算
+      </button>
+
+      {result && (
+        <div className="space-y-2">
+          <p className="text-sm">
+            世帯年収 {result.affordability.householdIncome}万円 × 返済負担率 → 年間返済額の上限 {result.affordability.maxAnnualPayment}万円、
+            返済期間 {result.affordability.termYears}年
+          </p>
+          <p className="text-lg font-bold text-blue-700">
+            借入可能額 {result.affordability.maxLoanAmount.toLocaleString()}万円
+            （購入金額 {(result.affordability.maxLoanAmount + result.downPayment).toLocaleString()}万円）
+          </p>
+          <p className={`text-sm ${result.check.successful ? 'text-green-600' : 'text-red-600'}`}>
+            {result.check.successful
+              ? `この金額で購入しても金融資産はマイナスになりません（最少 ${result.check.minimumAssets}万円・${result.check.minimumAssetsYear}年）`
+              : `この金額で購入すると${result.check.depletionYear}年に金融資産がマイナスになります（最少 ${result.check.minimumAssets}万円・${result.check.minimumAssetsYear}年）`}
+          </p>
+          <button
+            type="button"
+            onClick={handleApply}
+            className="px-4 py-2 bg-green-500 text-white rounded-md hover:bg-green-600"
+          >
+            この金額を住宅購入の設定に反映
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
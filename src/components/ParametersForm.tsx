@@ -3,22 +3,152 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { useSimulatorStore } from '@/store/simulator';
+import { HISTORICAL_DATA, HISTORICAL_INDEX_LABELS } from '@/data/historicalReturns';
+import { KYOKAI_KENPO_HEALTH_INSURANCE_RATES } from '@/data/socialInsuranceRates';
+import {
+  EDUCATION_COST_PRESETS,
+  SCHOOL_STAGES,
+  SCHOOL_STAGE_LABELS,
+  UNIVERSITY_TYPES,
+} from '@/data/educationCosts';
+import { CHILD_REARING_COST_LABELS } from '@/data/childRearingCosts';
+import { ASSET_CLASS_LABELS, FINANCIAL_ASSET_CLASSES } from '@/lib/assetClasses';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+const nationalHealthInsuranceComponentSchema = z.object({
+  incomeRate: z.number().min(0).max(100),
+  perCapita: z.number().min(0),
+  cap: z.number().min(0),
+});
+
+const nationalHealthInsuranceLabels = {
+  medical: '医療分',
+  support: '後期高齢者支援金分',
+  care: '介護分（40〜64歳）',
+} as const;
+
+const schoolCostSchema = z.object({
+  public: z.number().min(0),
+  private: z.number().min(0),
+});
+
+const higherEducationCostSchema = z.object({
+  annual: z.number().min(0),
+  entrance: z.number().min(0),
+});
 
 const parametersSchema = z.object({
   inflationRate: z.number().min(0).max(100),
   educationCostIncreaseRate: z.number().min(0).max(100),
+  educationCostPreset: z.string(),
+  educationCosts: z.object({
+    afterPublicSupport: z.boolean(),
+    schools: z.object({
+      nursery: schoolCostSchema,
+      preschool: schoolCostSchema,
+      elementary: schoolCostSchema,
+      juniorHigh: schoolCostSchema,
+      highSchool: schoolCostSchema,
+    }),
+    university: z.object({
+      '公立大学（文系）': higherEducationCostSchema,
+      '公立大学（理系）': higherEducationCostSchema,
+      '私立大学（文系）': higherEducationCostSchema,
+      '私立大学（理系）': higherEducationCostSchema,
+    }),
+    vocationalSchool: higherEducationCostSchema,
+    graduateSchool: z.object({
+      public: higherEducationCostSchema,
+      private: higherEducationCostSchema,
+    }),
+    livingAway: z.object({
+      monthlyRent: z.number().min(0),
+      monthlyAllowance: z.number().min(0),
+      setupCost: z.number().min(0),
+    }),
+  }),
+  childRearingCosts: z.object({
+    birthCost: z.number().min(0),
+    preschool: z.number().min(0),
+    elementary: z.number().min(0),
+    juniorHigh: z.number().min(0),
+    highSchool: z.number().min(0),
+    university: z.number().min(0),
+  }),
+  pensionMacroSlideRate: z.number().min(0).max(100),
+  mortgageRateStress: z.object({
+    increase: z.number().min(0).max(20),
+    years: z.number().int().min(1).max(50),
+  }),
+  propertyValueRates: z.object({
+    land: z.number().min(-100).max(100),
+    building: z.number().min(-100).max(100),
+  }),
   investmentReturn: z.number().min(0).max(100),
-});
+  simulationMode: z.enum(['fixed', 'monteCarlo', 'historical']),
+  volatility: z.number().min(0).max(100),
+  trials: z.number().int().min(100).max(5000),
+  historicalIndex: z.enum(['japanEquity', 'globalEquity']),
+  trackAssetClasses: z.boolean(),
+  assetReturns: z.object({
+    cash: z.number().min(-100).max(100),
+    savings: z.number().min(-100).max(100),
+    stocks: z.number().min(-100).max(100),
+    investmentTrust: z.number().min(-100).max(100),
+    realEstate: z.number().min(-100).max(100),
+  }),
+  rebalance: z.boolean(),
+  targetAllocation: z.object({
+    cash: z.number().min(0).max(100),
+    savings: z.number().min(0).max(100),
+    stocks: z.number().min(0).max(100),
+    investmentTrust: z.number().min(0).max(100),
+  }),
+  capitalGainsTaxRate: z.number().min(0).max(100),
+  healthInsurer: z.string(),
+  socialInsuranceRates: z.object({
+    healthInsurance: z.number().min(0).max(100),
+    longTermCare: z.number().min(0).max(100),
+    welfarePension: z.number().min(0).max(100),
+    employmentInsurance: z.number().min(0).max(100),
+  }),
+  nationalHealthInsuranceRates: z.object({
+    medical: nationalHealthInsuranceComponentSchema,
+    support: nationalHealthInsuranceComponentSchema,
+    care: nationalHealthInsuranceComponentSchema,
+  }),
+}).refine(
+  (data) => !data.rebalance ||
+    Object.values(data.targetAllocation).reduce((sum, value) => sum + value, 0) === 100,
+  { message: '目標配分の合計を100%にしてください', path: ['targetAllocation'] }
+);
 
 type ParametersFormData = z.infer<typeof parametersSchema>;
 
 export function ParametersForm() {
   const { parameters, setParameters, setCurrentStep } = useSimulatorStore();
-  const { register, handleSubmit, formState: { errors } } = useForm<ParametersFormData>({
+  const { register, handleSubmit, watch, setValue, formState: { errors } } = useForm<ParametersFormData>({
     resolver: zodResolver(parametersSchema),
     defaultValues: parameters,
   });
 
+  const simulationMode = watch('simulationMode');
+  const trackAssetClasses = watch('trackAssetClasses');
+  const rebalance = watch('rebalance');
+  const healthInsurer = watch('healthInsurer');
+  const educationCostPreset = watch('educationCostPreset');
+  const educationCostsReadOnly = educationCostPreset !== 'custom';
+  const afterPublicSupport = watch('educationCosts.afterPublicSupport');
+  const educationCostInputClassName =
+    `w-full rounded-md border border-gray-200 px-3 py-2 ${educationCostsReadOnly ? 'bg-gray-50' : ''}`;
+
   const onSubmit = (data: ParametersFormData) => {
     setParameters(data);
     setCurrentStep(6);
@@ -62,6 +192,73 @@ export function ParametersForm() {
             <p className="text-xs text-gray-500">教育費専用の上昇率</p>
           </div>
 
+          <div className="space-y-2">
+            <label className="text-sm font-medium">マクロ経済スライド調整率（%）</label>
+            <input
+              type="number"
+              step="0.1"
+              {...register('pensionMacroSlideRate', { valueAsNumber: true })}
+              className="w-full rounded-md border border-gray-200 px-3 py-2"
+            />
+            {errors.pensionMacroSlideRate && (
+              <p className="text-sm text-red-500">{errors.pensionMacroSlideRate.message}</p>
+            )}
+            <p className="text-xs text-gray-500">年金額はインフレ率からこの率を差し引いて改定（名目では減額しない）</p>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">住宅ローン金利の上昇幅（%）</label>
+            <input
+              type="number"
+              step="0.1"
+              {...register('mortgageRateStress.increase', { valueAsNumber: true })}
+              className="w-full rounded-md border border-gray-200 px-3 py-2"
+            />
+            {errors.mortgageRateStress?.increase && (
+              <p className="text-sm text-red-500">{errors.mortgageRateStress.increase.message}</p>
+            )}
+            <p className="text-xs text-gray-500">変動金利・固定期間終了後の金利に上乗せするストレス（0で見通しどおり）</p>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">金利が上昇しきるまでの年数</label>
+            <input
+              type="number"
+              {...register('mortgageRateStress.years', { valueAsNumber: true })}
+              className="w-full rounded-md border border-gray-200 px-3 py-2"
+            />
+            {errors.mortgageRateStress?.years && (
+              <p className="text-sm text-red-500">{errors.mortgageRateStress.years.message}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">持ち家の土地価格の変動率（%）</label>
+            <input
+              type="number"
+              step="0.1"
+              {...register('propertyValueRates.land', { valueAsNumber: true })}
+              className="w-full rounded-md border border-gray-200 px-3 py-2"
+            />
+            {errors.propertyValueRates?.land && (
+              <p className="text-sm text-red-500">{errors.propertyValueRates.land.message}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">持ち家の建物価格の変動率（%）</label>
+            <input
+              type="number"
+              step="0.1"
+              {...register('propertyValueRates.building', { valueAsNumber: true })}
+              className="w-full rounded-md border border-gray-200 px-3 py-2"
+            />
+            {errors.propertyValueRates?.building && (
+              <p className="text-sm text-red-500">{errors.propertyValueRates.building.message}</p>
+            )}
+            <p className="text-xs text-gray-500">純資産に含める持ち家の評価額の計算に使用（取り崩せる資産には含めない）</p>
+          </div>
+
           <div className="space-y-2">
             <label className="text-sm font-medium">資産運用利回り（%）</label>
             <input
@@ -75,6 +272,486 @@ export function ParametersForm() {
             )}
             <p className="text-xs text-gray-500">毎年の資産運用収入・運用効果</p>
           </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">運用益への税率（%）</label>
+            <input
+              type="number"
+              step="0.001"
+              {...register('capitalGainsTaxRate', { valueAsNumber: true })}
+              className="w-full rounded-md border border-gray-200 px-3 py-2"
+            />
+            {errors.capitalGainsTaxRate && (
+              <p className="text-sm text-red-500">{errors.capitalGainsTaxRate.message}</p>
+            )}
+            <p className="text-xs text-gray-500">課税口座の運用益に毎年課税（NISA・iDeCoは非課税）</p>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">運用シミュレーション方式</label>
+            <Select
+              defaultValue={parameters.simulationMode}
+              onValueChange={(value) => setValue('simulationMode', value as ParametersFormData['simulationMode'])}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="方式を選択" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="fixed">固定利回り</SelectItem>
+                <SelectItem value="monteCarlo">モンテカルロ（確率的）</SelectItem>
+                <SelectItem value="historical">過去データで検証（バックテスト）</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500">モンテカルロでは資産運用利回りを期待リターンとして使用</p>
+          </div>
+
+          {simulationMode === 'historical' && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">検証に使う指数</label>
+              <Select
+                defaultValue={parameters.historicalIndex}
+                onValueChange={(value) => setValue('historicalIndex', value as ParametersFormData['historicalIndex'])}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="指数を選択" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(HISTORICAL_INDEX_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500">
+                {HISTORICAL_DATA[0].year}〜{HISTORICAL_DATA[HISTORICAL_DATA.length - 1].year}年の各年を起点に、リターンと物価上昇率（CPI）を再現（データの最終年より後は運用利回り・物価上昇率の設定値を使用）
+              </p>
+            </div>
+          )}
+
+          {simulationMode === 'monteCarlo' && (
+            <>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">リスク（標準偏差・%）</label>
+                <input
+                  type="number"
+                  step="0.1"
+                  {...register('volatility', { valueAsNumber: true })}
+                  className="w-full rounded-md border border-gray-200 px-3 py-2"
+                />
+                {errors.volatility && (
+                  <p className="text-sm text-red-500">{errors.volatility.message}</p>
+                )}
+                <p className="text-xs text-gray-500">年率リターンのばらつき</p>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium">試行回数</label>
+                <input
+                  type="number"
+                  step="100"
+                  {...register('trials', { valueAsNumber: true })}
+                  className="w-full rounded-md border border-gray-200 px-3 py-2"
+                />
+                {errors.trials && (
+                  <p className="text-sm text-red-500">{errors.trials.message}</p>
+                )}
+                <p className="text-xs text-gray-500">100〜5,000回（多いほど結果画面での計算に時間がかかります）</p>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="space-y-4">
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="trackAssetClasses"
+              checked={trackAssetClasses}
+              onCheckedChange={(checked) => setValue('trackAssetClasses', checked === true)}
+            />
+            <label htmlFor="trackAssetClasses" className="text-sm font-medium">
+              資産クラスごとに運用する
+            </label>
+          </div>
+          <p className="text-xs text-gray-500">
+            黒字は預金に積み立て、赤字は現金→預金→投資信託→株式の順に取り崩します。
+            モンテカルロ・過去データでは株式と投資信託にシナリオのリターンを適用します。
+          </p>
+
+          {trackAssetClasses && (
+            <div className="space-y-6 pl-6">
+              <div className="grid grid-cols-3 gap-4">
+                {Object.entries(ASSET_CLASS_LABELS).map(([assetClass, label]) => (
+                  <div key={assetClass} className="space-y-2">
+                    <label className="text-sm font-medium">{label}の利回り（%）</label>
+                    <input
+                      type="number"
+                      step="0.1"
+                      {...register(`assetReturns.${assetClass as keyof ParametersFormData['assetReturns']}`, { valueAsNumber: true })}
+                      className="w-full rounded-md border border-gray-200 px-3 py-2"
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="rebalance"
+                  checked={rebalance}
+                  onCheckedChange={(checked) => setValue('rebalance', checked === true)}
+                />
+                <label htmlFor="rebalance" className="text-sm font-medium">
+                  毎年、目標配分にリバランスする
+                </label>
+              </div>
+
+              {rebalance && (
+                <div className="space-y-2">
+                  <div className="grid grid-cols-4 gap-4">
+                    {FINANCIAL_ASSET_CLASSES.map((assetClass) => (
+                      <div key={assetClass} className="space-y-2">
+                        <label className="text-sm font-medium">{ASSET_CLASS_LABELS[assetClass]}（%）</label>
+                        <input
+                          type="number"
+                          {...register(`targetAllocation.${assetClass}`, { valueAsNumber: true })}
+                          className="w-full rounded-md border border-gray-200 px-3 py-2"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  {errors.targetAllocation && (
+                    <p className="text-sm text-red-500">{errors.targetAllocation.message}</p>
+                  )}
+                  <p className="text-xs text-gray-500">不動産はリバランスの対象外です</p>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-4">
+          <h3 className="text-lg font-semibold">教育費の単価</h3>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">単価表</label>
+            <Select
+              defaultValue={parameters.educationCostPreset}
+              onValueChange={(value) => {
+                setValue('educationCostPreset', value);
+                if (value !== 'custom') {
+                  setValue('educationCosts', EDUCATION_COST_PRESETS[value].table);
+                }
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="単価表を選択" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(EDUCATION_COST_PRESETS).map(([id, preset]) => (
+                  <SelectItem key={id} value={id}>{preset.label}</SelectItem>
+                ))}
+                <SelectItem value="custom">カスタム（単価を入力）</SelectItem>
+              </SelectContent>
+            </Select>
+            {educationCostPreset !== 'custom' && EDUCATION_COST_PRESETS[educationCostPreset] && (
+              <p className="text-xs text-gray-500">出典：{EDUCATION_COST_PRESETS[educationCostPreset].source}</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-x-12 gap-y-6">
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold">保育所〜高校（万円/年）</h4>
+              <div className="grid grid-cols-3 gap-4 items-end">
+                <span />
+                <span className="text-sm font-medium">公立</span>
+                <span className="text-sm font-medium">私立</span>
+                {SCHOOL_STAGES.map((stage) => (
+                  <React.Fragment key={stage}>
+                    <span className="text-sm">{SCHOOL_STAGE_LABELS[stage]}</span>
+                    <input
+                      type="number"
+                      step="0.1"
+                      {...register(`educationCosts.schools.${stage}.public`, { valueAsNumber: true })}
+                      readOnly={educationCostsReadOnly}
+                      className={educationCostInputClassName}
+                    />
+                    <input
+                      type="number"
+                      step="0.1"
+                      {...register(`educationCosts.schools.${stage}.private`, { valueAsNumber: true })}
+                      readOnly={educationCostsReadOnly}
+                      className={educationCostInputClassName}
+                    />
+                  </React.Fragment>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-semibold">大学・専門学校・大学院（万円）</h4>
+              <div className="grid grid-cols-3 gap-4 items-end">
+                <span />
+                <span className="text-sm font-medium">年額</span>
+                <span className="text-sm font-medium">入学費用</span>
+                {UNIVERSITY_TYPES.map((type) => (
+                  <React.Fragment key={type}>
+                    <span className="text-sm">{type}</span>
+                    <input
+                      type="number"
+                      step="0.1"
+                      {...register(`educationCosts.university.${type}.annual`, { valueAsNumber: true })}
+                      readOnly={educationCostsReadOnly}
+                      className={educationCostInputClassName}
+                    />
+                    <input
+                      type="number"
+                      step="0.1"
+                      {...register(`educationCosts.university.${type}.entrance`, { valueAsNumber: true })}
+                      readOnly={educationCostsReadOnly}
+                      className={educationCostInputClassName}
+                    />
+                  </React.Fragment>
+                ))}
+                <span className="text-sm">専門学校（2年）</span>
+                <input
+                  type="number"
+                  step="0.1"
+                  {...register('educationCosts.vocationalSchool.annual', { valueAsNumber: true })}
+                  readOnly={educationCostsReadOnly}
+                  className={educationCostInputClassName}
+                />
+                <input
+                  type="number"
+                  step="0.1"
+                  {...register('educationCosts.vocationalSchool.entrance', { valueAsNumber: true })}
+                  readOnly={educationCostsReadOnly}
+                  className={educationCostInputClassName}
+                />
+                {(['public', 'private'] as const).map((type) => (
+                  <React.Fragment key={type}>
+                    <span className="text-sm">大学院（{type === 'public' ? '国公立' : '私立'}・2年）</span>
+                    <input
+                      type="number"
+                      step="0.1"
+                      {...register(`educationCosts.graduateSchool.${type}.annual`, { valueAsNumber: true })}
+                      readOnly={educationCostsReadOnly}
+                      className={educationCostInputClassName}
+                    />
+                    <input
+                      type="number"
+                      step="0.1"
+                      {...register(`educationCosts.graduateSchool.${type}.entrance`, { valueAsNumber: true })}
+                      readOnly={educationCostsReadOnly}
+                      className={educationCostInputClassName}
+                    />
+                  </React.Fragment>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">自宅外通学の家賃（万円/月）</label>
+              <input
+                type="number"
+                step="0.1"
+                {...register('educationCosts.livingAway.monthlyRent', { valueAsNumber: true })}
+                readOnly={educationCostsReadOnly}
+                className={educationCostInputClassName}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">仕送り（家賃以外、万円/月）</label>
+              <input
+                type="number"
+                step="0.1"
+                {...register('educationCosts.livingAway.monthlyAllowance', { valueAsNumber: true })}
+                readOnly={educationCostsReadOnly}
+                className={educationCostInputClassName}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">自宅外通学の初期費用（万円）</label>
+              <input
+                type="number"
+                step="0.1"
+                {...register('educationCosts.livingAway.setupCost', { valueAsNumber: true })}
+                readOnly={educationCostsReadOnly}
+                className={educationCostInputClassName}
+              />
+              <p className="text-xs text-gray-500">敷金・礼金、家具・家電など（進学した年のみ）</p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="afterPublicSupport"
+              checked={afterPublicSupport}
+              disabled={educationCostsReadOnly}
+              onCheckedChange={(checked) => setValue('educationCosts.afterPublicSupport', checked === true)}
+            />
+            <label htmlFor="afterPublicSupport" className="text-sm font-medium">
+              単価は幼児教育・保育の無償化と高校の就学支援金の適用後の負担額
+            </label>
+          </div>
+          {errors.educationCosts && (
+            <p className="text-sm text-red-500">0以上の値を入力してください</p>
+          )}
+          <p className="text-xs text-gray-500">
+            塾・習い事の費用は基本情報の子どもごとに入力します。単価は開始年の金額で、毎年教育費上昇率で上がります。
+            適用前の単価の場合は、3〜5歳の幼稚園・保育所の利用料（月2.57万円まで）、住民税非課税世帯の0〜2歳の保育料、
+            高校の授業料（世帯の住民税から判定）を差し引きます。
+          </p>
+        </div>
+
+        <div className="space-y-4">
+          <h3 className="text-lg font-semibold">子育て費用（教育費以外）</h3>
+          <div className="grid grid-cols-3 gap-x-12 gap-y-6">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">出産費用（万円）</label>
+              <input
+                type="number"
+                step="0.1"
+                {...register('childRearingCosts.birthCost', { valueAsNumber: true })}
+                className="w-full rounded-md border border-gray-200 px-3 py-2"
+              />
+              <p className="text-xs text-gray-500">出生予定の子が生まれる年に計上（出産育児一時金50万円を収入に計上）</p>
+            </div>
+            {(Object.keys(CHILD_REARING_COST_LABELS) as (keyof typeof CHILD_REARING_COST_LABELS)[]).map((band) => (
+              <div key={band} className="space-y-2">
+                <label className="text-sm font-medium">{CHILD_REARING_COST_LABELS[band]}（万円/年）</label>
+                <input
+                  type="number"
+                  step="0.1"
+                  {...register(`childRearingCosts.${band}`, { valueAsNumber: true })}
+                  className="w-full rounded-md border border-gray-200 px-3 py-2"
+                />
+              </div>
+            ))}
+          </div>
+          {errors.childRearingCosts && (
+            <p className="text-sm text-red-500">0以上の値を入力してください</p>
+          )}
+          <p className="text-xs text-gray-500">
+            食費・衣類・日用品・医療費・おこづかいなど、子ども1人あたりの養育費です。毎年インフレ率で上がります。
+            基本情報の生活費に子どもの分を含めている場合は0にしてください。自宅外通学の間は仕送りに含まれるため計上しません。
+            児童手当（3歳未満月1.5万円、高校生年代まで月1万円、第3子以降月3万円）は自動で収入に計上します。
+          </p>
+        </div>
+
+        <div className="space-y-4">
+          <h3 className="text-lg font-semibold">社会保険料率</h3>
+          <div className="grid grid-cols-2 gap-x-12 gap-y-6">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">加入している健康保険</label>
+              <Select
+                defaultValue={parameters.healthInsurer}
+                onValueChange={(value) => {
+                  setValue('healthInsurer', value);
+                  if (value !== 'custom') {
+                    setValue('socialInsuranceRates.healthInsurance', KYOKAI_KENPO_HEALTH_INSURANCE_RATES[value]);
+                  }
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="健康保険を選択" />
+                </SelectTrigger>
+                <SelectContent className="max-h-[300px]">
+                  {Object.keys(KYOKAI_KENPO_HEALTH_INSURANCE_RATES).map((prefecture) => (
+                    <SelectItem key={prefecture} value={prefecture}>協会けんぽ（{prefecture}）</SelectItem>
+                  ))}
+                  <SelectItem value="custom">健康保険組合など（料率を入力）</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">健康保険料率（%）</label>
+              <input
+                type="number"
+                step="0.01"
+                {...register('socialInsuranceRates.healthInsurance', { valueAsNumber: true })}
+                readOnly={healthInsurer !== 'custom'}
+                className={`w-full rounded-md border border-gray-200 px-3 py-2 ${healthInsurer !== 'custom' ? 'bg-gray-50' : ''}`}
+              />
+              <p className="text-xs text-gray-500">労使合計の料率（本人負担はその半分）</p>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">介護保険料率（%）</label>
+              <input
+                type="number"
+                step="0.01"
+                {...register('socialInsuranceRates.longTermCare', { valueAsNumber: true })}
+                className="w-full rounded-md border border-gray-200 px-3 py-2"
+              />
+              <p className="text-xs text-gray-500">40歳〜64歳のみ（労使合計）</p>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">厚生年金保険料率（%）</label>
+              <input
+                type="number"
+                step="0.01"
+                {...register('socialInsuranceRates.welfarePension', { valueAsNumber: true })}
+                className="w-full rounded-md border border-gray-200 px-3 py-2"
+              />
+              <p className="text-xs text-gray-500">労使合計の料率</p>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">雇用保険料率（%）</label>
+              <input
+                type="number"
+                step="0.01"
+                {...register('socialInsuranceRates.employmentInsurance', { valueAsNumber: true })}
+                className="w-full rounded-md border border-gray-200 px-3 py-2"
+              />
+              <p className="text-xs text-gray-500">本人負担分（給与総額にかかる）</p>
+            </div>
+          </div>
+          {errors.socialInsuranceRates && (
+            <p className="text-sm text-red-500">0〜100の値を入力してください</p>
+          )}
+          <p className="text-xs text-gray-500">
+            健康保険・介護保険・厚生年金は年収の1/12を報酬月額として標準報酬月額の等級表に当てはめて計算します（厚生年金は65万円、健康保険は139万円が上限）。
+          </p>
+
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold">国民健康保険（自営業）</h4>
+            <div className="grid grid-cols-4 gap-4 items-end">
+              <span />
+              <span className="text-sm font-medium">所得割（%）</span>
+              <span className="text-sm font-medium">均等割（万円）</span>
+              <span className="text-sm font-medium">賦課限度額（万円）</span>
+              {(Object.keys(nationalHealthInsuranceLabels) as (keyof typeof nationalHealthInsuranceLabels)[]).map((component) => (
+                <React.Fragment key={component}>
+                  <span className="text-sm">{nationalHealthInsuranceLabels[component]}</span>
+                  <input
+                    type="number"
+                    step="0.01"
+                    {...register(`nationalHealthInsuranceRates.${component}.incomeRate`, { valueAsNumber: true })}
+                    className="w-full rounded-md border border-gray-200 px-3 py-2"
+                  />
+                  <input
+                    type="number"
+                    step="0.01"
+                    {...register(`nationalHealthInsuranceRates.${component}.perCapita`, { valueAsNumber: true })}
+                    className="w-full rounded-md border border-gray-200 px-3 py-2"
+                  />
+                  <input
+                    type="number"
+                    step="1"
+                    {...register(`nationalHealthInsuranceRates.${component}.cap`, { valueAsNumber: true })}
+                    className="w-full rounded-md border border-gray-200 px-3 py-2"
+                  />
+                </React.Fragment>
+              ))}
+            </div>
+            {errors.nationalHealthInsuranceRates && (
+              <p className="text-sm text-red-500">0以上の値を入力してください</p>
+            )}
+            <p className="text-xs text-gray-500">
+              お住まいの市区町村の料率を入力してください（初期値は東京都特別区）。国民年金保険料は月額16,980円で計算します。
+            </p>
+          </div>
         </div>
 
         <div className="flex justify-between space-x-4">
@@ -0,0 +1,369 @@
+import { useMemo, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { useSimulatorStore, type OwnHousing, type PropertyType } from '@/store/simulator';
+import { compareRentVsBuy, type RentVsBuyInput } from '@/lib/rentVsBuy';
+import { PROPERTY_TYPE_LABELS } from '@/lib/ownershipCosts';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Title, Tooltip, Legend);
+
+const rentVsBuySchema = z.object({
+  monthlyRent: z.number().min(0),
+  rentIncreaseRate: z.number().min(0),
+  purchaseYear: z.number().min(1900).max(2150),
+  purchasePrice: z.number().min(0),
+  downPayment: z.number().min(0),
+  closingCosts: z.number().min(0),
+  interestRate: z.number().min(0).max(20),
+  loanTermYears: z.number().min(1).max(50),
+  propertyType: z.enum(['house', 'condo']),
+  landShare: z.number().min(0).max(100),
+  landAssessedValue: z.number().min(0),
+  buildingAssessedValue: z.number().min(0),
+  maintenanceCostRate: z.number().min(0).max(100),
+  managementFee: z.number().min(0),
+  repairReserve: z.number().min(0),
+  renovationCost: z.number().min(0),
+  renovationIntervalYears: z.number().min(0).max(50),
+}).refine(data => data.downPayment <= data.purchasePrice, {
+  message: '頭金は購入金額以下にしてください',
+  path: ['downPayment'],
+});
+
+type RentVsBuyFormData = z.infer<typeof rentVsBuySchema>;
+
+// 入力から比較用の持ち家を組み立てる（全期間固定・元利均等、修繕積立金は5年ごとに20%引き上げ）
+function toRentVsBuyInput(data: RentVsBuyFormData): RentVsBuyInput {
+  const own: OwnHousing = {
+    purchaseYear: data.purchaseYear,
+    purchasePrice: data.purchasePrice,
+    loanAmount: Math.max(0, data.purchasePrice - data.downPayment),
+    interestRate: data.interestRate,
+    rateType: 'fixed',
+    fixedPeriodYears: 10,
+    rateChanges: [],
+    loanTermYears: data.loanTermYears,
+    maintenanceCostRate: data.maintenanceCostRate,
+    repaymentMethod: 'equal_payment',
+    prepayments: [],
+    homeType: 'energy_efficient',
+    newlyBuilt: true,
+    propertyType: data.propertyType,
+    landShare: data.landShare,
+    landAssessedValue: data.landAssessedValue,
+    buildingAssessedValue: data.buildingAssessedValue,
+    managementFee: data.managementFee,
+    repairReserve: data.repairReserve,
+    repairReserveStepYears: 5,
+    repairReserveStepRate: 20,
+    renovationCost: data.renovationCost,
+    renovationIntervalYears: data.renovationIntervalYears,
+  };
+  return {
+    rent: { monthlyRent: data.monthlyRent, annualIncreaseRate: data.rentIncreaseRate },
+    own,
+    closingCosts: data.closingCosts,
+  };
+}
+
+export function RentVsBuyAnalysis() {
+  const {
+    basicInfo,
+    incomeInfo,
+    lifeEvents,
+    assetsLiabilities,
+    parameters,
+    cashFlowOverrides,
+    setCurrentStep,
+  } = useSimulatorStore();
+  const [input, setInput] = useState<RentVsBuyInput | null>(null);
+
+  const { register, handleSubmit, watch, setValue, formState: { errors } } = useForm<RentVsBuyFormData>({
+    resolver: zodResolver(rentVsBuySchema),
+    defaultValues: {
+      monthlyRent: basicInfo.housingInfo.rent?.monthlyRent ?? 10,
+      rentIncreaseRate: basicInfo.housingInfo.rent?.annualIncreaseRate ?? 0,
+      purchaseYear: basicInfo.startYear,
+      purchasePrice: 5000,
+      downPayment: 500,
+      closingCosts: 300,
+      interestRate: 1.5,
+      loanTermYears: 35,
+      propertyType: 'condo',
+      landShare: 30,
+      landAssessedValue: 700,
+      buildingAssessedValue: 1200,
+      maintenanceCostRate: 0.3,
+      managementFee: 1.5,
+      repairReserve: 1,
+      renovationCost: 200,
+      renovationIntervalYears: 15,
+    },
+  });
+  const propertyType = watch('propertyType');
+
+  const result = useMemo(() => {
+    if (!input) return null;
+    return compareRentVsBuy(
+      { basicInfo, incomeInfo, lifeEvents, assetsLiabilities },
+      parameters,
+      input,
+      cashFlowOverrides
+    );
+  }, [input, basicInfo, incomeInfo, lifeEvents, assetsLiabilities, parameters, cashFlowOverrides]);
+
+  const onSubmit = (data: RentVsBuyFormData) => {
+    setInput(toRentVsBuyInput(data));
+  };
+
+  const lastYear = result?.years[result.years.length - 1];
+
+  const chartData = result ? {
+    labels: result.years.map(y => y.year),
+    datasets: [
+      {
+        label: '純資産（賃貸）',
+        data: result.years.map(y => y.rentNetWorth),
+        borderColor: 'rgb(53, 162, 235)',
+        backgroundColor: 'rgba(53, 162, 235, 0.5)',
+      },
+      {
+        label: '純資産（購入）',
+        data: result.years.map(y => y.buyNetWorth),
+        borderColor: 'rgb(255, 99, 132)',
+        backgroundColor: 'rgba(255, 99, 132, 0.5)',
+      },
+      {
+        label: '金融資産（賃貸）',
+        data: result.years.map(y => y.rentAssets),
+        borderColor: 'rgb(53, 162, 235)',
+        backgroundColor: 'rgba(53, 162, 235, 0.2)',
+        borderDash: [6, 4],
+      },
+      {
+        label: '金融資産（購入）',
+        data: result.years.map(y => y.buyAssets),
+        borderColor: 'rgb(255, 99, 132)',
+        backgroundColor: 'rgba(255, 99, 132, 0.2)',
+        borderDash: [6, 4],
+      },
+    ],
+  } : null;
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    interaction: {
+      mode: 'index' as const,
+      intersect: false,
+    },
+    plugins: {
+      legend: {
+        position: 'top' as const,
+      },
+      title: {
+        display: true,
+        text: '賃貸と購入の資産の推移',
+      },
+    },
+  };
+
+  const renderNumberInput = (label: string, name: keyof RentVsBuyFormData, step?: string) => (
+    <div className="space-y-2">
+      <label className="text-sm font-medium">{label}</label>
+      <input
+        type="number"
+        step={step}
+        {...register(name, { valueAsNumber: true })}
+        className="w-full rounded-md border border-gray-200 px-3 py-2"
+      />
+      {errors[name] && (
+        <p className="text-sm text-red-500">{errors[name]?.message}</p>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-xl font-bold">賃貸と購入の比較</h2>
+      <p className="text-sm text-gray-600">
+        現在のプランの住まいだけを入れ替えて、賃貸を続ける場合と購入する場合をシミュレーションします。
+        住居費の手入力と住み替えの予定は比較に含めません
+      </p>
+
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+        <div className="space-y-4">
+          <h3 className="text-lg font-semibold">賃貸を続ける場合</h3>
+          <div className="grid grid-cols-2 gap-4">
+            {renderNumberInput('家賃（万円/月）', 'monthlyRent', '0.1')}
+            {renderNumberInput('家賃の年間上昇率（%）', 'rentIncreaseRate', '0.1')}
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <h3 className="text-lg font-semibold">購入する場合</h3>
+          <div className="grid grid-cols-3 gap-4">
+            {renderNumberInput('購入年', 'purchaseYear')}
+            {renderNumberInput('購入金額（万円）', 'purchasePrice')}
+            {renderNumberInput('頭金（万円）', 'downPayment')}
+            {renderNumberInput('購入諸費用・引越し費用（万円）', 'closingCosts')}
+            {renderNumberInput('金利（%・全期間固定）', 'interestRate', '0.01')}
+            {renderNumberInput('返済期間（年）', 'loanTermYears')}
+            <div className="space-y-2">
+              <label className="text-sm font-medium">物件の種類</label>
+              <Select
+                defaultValue={propertyType}
+                onValueChange={(value) => setValue('propertyType', value as PropertyType)}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="物件の種類を選択" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(PROPERTY_TYPE_LABELS) as PropertyType[]).map((type) => (
+                    <SelectItem key={type} value={type}>{PROPERTY_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {renderNumberInput('購入金額のうち土地の割合（%）', 'landShare')}
+            {renderNumberInput('固定資産税評価額・土地（万円）', 'landAssessedValue')}
+            {renderNumberInput('固定資産税評価額・建物（万円）', 'buildingAssessedValue')}
+            {renderNumberInput('住宅維持費率（%）', 'maintenanceCostRate', '0.1')}
+            {propertyType === 'condo' ? (
+              <>
+                {renderNumberInput('管理費（万円/月）', 'managementFee', '0.1')}
+                {renderNumberInput('修繕積立金（万円/月）', 'repairReserve', '0.1')}
+              </>
+            ) : (
+              <>
+                {renderNumberInput('大規模修繕の費用（万円）', 'renovationCost')}
+                {renderNumberInput('大規模修繕の間隔（年）', 'renovationIntervalYears')}
+              </>
+            )}
+          </div>
+        </div>
+
+        <button
+          type="submit"
+          className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600"
+        >
+          比較する
+        </button>
+      </form>
+
+      {result && lastYear && chartData && (
+        <div className="space-y-6">
+          <div className="grid grid-cols-4 gap-4">
+            <div className="bg-blue-50 p-4 rounded-lg">
+              <p className="text-xs text-gray-600">毎月のローン返済額</p>
+              <p className="text-xl font-bold text-blue-700">{result.monthlyMortgagePayment}万円</p>
+            </div>
+            <div className="bg-blue-50 p-4 rounded-lg">
+              <p className="text-xs text-gray-600">損益分岐年（購入の純資産が賃貸を上回る年）</p>
+              <p className="text-xl font-bold text-blue-700">
+                {result.breakEvenYear
+                  ? `${result.breakEvenYear}年（${result.years.find(y => y.year === result.breakEvenYear)?.age}歳）`
+                  : 'なし'}
+              </p>
+            </div>
+            <div className="bg-blue-50 p-4 rounded-lg">
+              <p className="text-xs text-gray-600">最終年の純資産の差（購入 − 賃貸）</p>
+              <p className={`text-xl font-bold ${lastYear.buyNetWorth >= lastYear.rentNetWorth ? 'text-green-600' : 'text-red-600'}`}>
+                {Number((lastYear.buyNetWorth - lastYear.rentNetWorth).toFixed(1))}万円
+              </p>
+            </div>
+            <div className="bg-blue-50 p-4 rounded-lg">
+              <p className="text-xs text-gray-600">住居費の総額（賃貸／購入）</p>
+              <p className="text-xl font-bold text-blue-700">
+                {lastYear.rentCumulativeCost}／{lastYear.buyCumulativeCost}万円
+              </p>
+            </div>
+          </div>
+          {(!result.rentSuccessful || !result.buySuccessful) && (
+            <p className="text-sm text-red-600">
+              {!result.rentSuccessful && '賃貸を続ける場合'}
+              {!result.rentSuccessful && !result.buySuccessful && '・'}
+              {!result.buySuccessful && '購入する場合'}
+              は途中で金融資産がマイナスになります（持ち家の評価額は取り崩せる資産に含めません）
+            </p>
+          )}
+
+          <div className="bg-white p-4 md:p-6 rounded-lg shadow">
+            <div className="h-[50vh]">
+              <Line options={chartOptions} data={chartData} />
+            </div>
+          </div>
+
+          <div className="max-h-[400px] overflow-y-auto">
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr className="bg-gray-50">
+                  <th className="border px-3 py-2 text-left">年</th>
+                  <th className="border px-3 py-2 text-right">年齢</th>
+                  <th className="border px-3 py-2 text-right">住居費（賃貸）</th>
+                  <th className="border px-3 py-2 text-right">住居費（購入）</th>
+                  <th className="border px-3 py-2 text-right">累計（賃貸）</th>
+                  <th className="border px-3 py-2 text-right">累計（購入）</th>
+                  <th className="border px-3 py-2 text-right">金融資産の差</th>
+                  <th className="border px-3 py-2 text-right">純資産の差</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.years.map((row) => {
+                  const assetDifference = Number((row.buyAssets - row.rentAssets).toFixed(1));
+                  const netWorthDifference = Number((row.buyNetWorth - row.rentNetWorth).toFixed(1));
+                  return (
+                    <tr key={row.year} className={row.year === result.breakEvenYear ? 'bg-blue-50' : ''}>
+                      <td className="border px-3 py-2">{row.year}</td>
+                      <td className="border px-3 py-2 text-right">{row.age}</td>
+                      <td className="border px-3 py-2 text-right">{row.rentHousingCost}</td>
+                      <td className="border px-3 py-2 text-right">{row.buyHousingCost}</td>
+                      <td className="border px-3 py-2 text-right">{row.rentCumulativeCost}</td>
+                      <td className="border px-3 py-2 text-right">{row.buyCumulativeCost}</td>
+                      <td className={`border px-3 py-2 text-right ${assetDifference >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {assetDifference}
+                      </td>
+                      <td className={`border px-3 py-2 text-right ${netWorthDifference >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {netWorthDifference}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            <p className="text-xs text-gray-500">金額は万円。差は購入する場合 − 賃貸を続ける場合</p>
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-between space-x-4">
+        <button
+          type="button"
+          onClick={() => setCurrentStep(7)}
+          className="px-4 py-2 bg-gray-500 text-white rounded-md hover:bg-gray-600"
+        >
+          戻る
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,138 +1,183 @@
-import React from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useSimulatorStore } from '@/store/simulator';
+import { runMonteCarlo, type MonteCarloResult } from '@/lib/monteCarlo';
+import { runHistoricalBacktest } from '@/lib/backtest';
+import { HISTORICAL_DATA, HISTORICAL_INDEX_LABELS } from '@/data/historicalReturns';
+import { ASSET_CLASS_LABELS } from '@/lib/assetClasses';
+import type { AssetClass } from '@/store/simulator';
 import {
   Chart as ChartJS,
   CategoryScale,
   LinearScale,
   PointElement,
   LineElement,
+  BarElement,
   Title,
   Tooltip,
   Legend,
+  Filler,
 } from 'chart.js';
-import { Line } from 'react-chartjs-2';
+import { Line, Bar } from 'react-chartjs-2';
 
 ChartJS.register(
   CategoryScale,
   LinearScale,
   PointElement,
   LineElement,
+  BarElement,
   Title,
   Tooltip,
-  Legend
+  Legend,
+  Filler
 );
 
 export function SimulationResults() {
   const { 
     basicInfo, 
-    cashFlow, 
+    incomeInfo,
+    lifeEvents,
     assetsLiabilities,
+    simulation,
+    cashFlowOverrides,
     parameters,
-    lifeEvents,
     setCurrentStep 
   } = useSimulatorStore();
   
-  const years = Array.from(
-    { length: basicInfo.deathAge - basicInfo.currentAge + 1 },
-    (_, i) => basicInfo.startYear + i
-  );
-
-  // Calculate initial total assets
-  const initialAssets = Object.values(assetsLiabilities.assets).reduce((sum, value) => sum + value, 0);
-  const initialLiabilities = Object.values(assetsLiabilities.liabilities).reduce((sum, value) => sum + value, 0);
-  const netInitialAssets = initialAssets - initialLiabilities;
+  const years = simulation.years.map(sy => sy.year);
+  const hasRealEstate = simulation.years.some(sy => sy.realEstateValue > 0 || sy.mortgageBalance > 0);
 
-  // Calculate yearly balances first
-  const yearlyBalances = years.reduce((acc: { [year: number]: number }, year) => {
-    const cf = cashFlow[year];
-    if (!cf) {
-      acc[year] = 0;
-      return acc;
-    }
+  // 試行回数が多いと数秒かかるため、モンテカルロ法はボタンを押したときだけ計算する
+  const [monteCarlo, setMonteCarlo] = useState<MonteCarloResult | null>(null);
+  const [isRunningMonteCarlo, setIsRunningMonteCarlo] = useState(false);
+  useEffect(() => {
+    setMonteCarlo(null);
+  }, [basicInfo, incomeInfo, lifeEvents, assetsLiabilities, parameters, cashFlowOverrides]);
 
-    const income = cf.mainIncome + cf.sideIncome + cf.spouseIncome;
-    const expenses = cf.livingExpense + cf.housingExpense + cf.educationExpense + cf.otherExpense;
-    
-    const yearLifeEvents = lifeEvents.filter(event => event.year === year);
-    const lifeEventImpact = yearLifeEvents.reduce((sum, event) => {
-      return sum + (event.type === 'income' ? event.amount : -event.amount);
+  const handleRunMonteCarlo = () => {
+    setIsRunningMonteCarlo(true);
+    // 「計算中」を表示してから計算する
+    setTimeout(() => {
+      setMonteCarlo(runMonteCarlo(
+        { basicInfo, incomeInfo, lifeEvents, assetsLiabilities },
+        parameters,
+        cashFlowOverrides
+      ));
+      setIsRunningMonteCarlo(false);
     }, 0);
+  };
 
-    acc[year] = income - expenses + lifeEventImpact;
-    return acc;
-  }, {});
+  // シミュレーションの最終年（配偶者が長生きする場合は配偶者の想定寿命まで）
+  const lastYear = simulation.years[simulation.years.length - 1];
+  const horizonLabel = lastYear ? `${lastYear.year}年（本人${lastYear.age}歳）まで` : '最後まで';
 
-  // Calculate investment assets and returns for each year
-  const investmentData = years.reduce((acc: { 
-    assets: { [year: number]: number },
-    returns: { [year: number]: number }
-  }, year, index) => {
-    if (index === 0) {
-      // 初年度は純資産＋その年の収支
-      const firstYearTotal = netInitialAssets + yearlyBalances[year];
-      acc.assets[year] = firstYearTotal;
-      acc.returns[year] = Number((firstYearTotal * (parameters.investmentReturn / 100)).toFixed(1));
-      return acc;
-    }
+  const monteCarloDatasets = monteCarlo ? [
+    {
+      label: '資産（下位10%）',
+      data: monteCarlo.bands.p10,
+      borderColor: 'rgb(153, 102, 255)',
+      backgroundColor: 'rgba(153, 102, 255, 0.15)',
+      borderDash: [4, 4],
+      pointRadius: 0,
+    },
+    {
+      label: '資産（中央値）',
+      data: monteCarlo.bands.p50,
+      borderColor: 'rgb(153, 102, 255)',
+      backgroundColor: 'rgba(153, 102, 255, 0.5)',
+      pointRadius: 0,
+    },
+    {
+      label: '資産（上位10%）',
+      data: monteCarlo.bands.p90,
+      borderColor: 'rgb(153, 102, 255)',
+      backgroundColor: 'rgba(153, 102, 255, 0.15)',
+      borderDash: [4, 4],
+      pointRadius: 0,
+      // 下位10%の線との間を塗りつぶす
+      fill: '-2',
+    },
+  ] : [];
 
-    const prevYear = years[index - 1];
-    const prevAssets = acc.assets[prevYear];
-    const prevReturns = acc.returns[prevYear];
-    
-    // 前年の資産に運用収益を加え、さらに当年の収支を加算
-    const currentYearAssets = prevAssets + prevReturns + yearlyBalances[year];
-    acc.assets[year] = Number(currentYearAssets.toFixed(1));
-    acc.returns[year] = Number((currentYearAssets * (parameters.investmentReturn / 100)).toFixed(1));
+  const backtest = useMemo(() => {
+    if (parameters.simulationMode !== 'historical') return null;
+    return runHistoricalBacktest(
+      { basicInfo, incomeInfo, lifeEvents, assetsLiabilities },
+      parameters,
+      cashFlowOverrides
+    );
+  }, [basicInfo, incomeInfo, lifeEvents, assetsLiabilities, parameters, cashFlowOverrides]);
+  // 期間の途中で過去データが尽きた開始年の数
+  const backtestTruncatedRuns = backtest
+    ? backtest.runs.filter(run => run.historicalYears < run.years.length).length
+    : 0;
 
-    return acc;
-  }, { assets: {}, returns: {} });
+  const backtestDatasets = backtest ? [
+    {
+      label: `資産（最悪：${backtest.worst.historicalStartYear}年〜）`,
+      data: backtest.worst.years.map(sy => sy.assets),
+      borderColor: 'rgb(220, 38, 38)',
+      backgroundColor: 'rgba(220, 38, 38, 0.5)',
+      pointRadius: 0,
+    },
+    {
+      label: `資産（中央：${backtest.median.historicalStartYear}年〜）`,
+      data: backtest.median.years.map(sy => sy.assets),
+      borderColor: 'rgb(153, 102, 255)',
+      backgroundColor: 'rgba(153, 102, 255, 0.5)',
+      pointRadius: 0,
+    },
+    {
+      label: `資産（最良：${backtest.best.historicalStartYear}年〜）`,
+      data: backtest.best.years.map(sy => sy.assets),
+      borderColor: 'rgb(22, 163, 74)',
+      backgroundColor: 'rgba(22, 163, 74, 0.5)',
+      pointRadius: 0,
+    },
+  ] : [];
 
   const data = {
     labels: years,
     datasets: [
       {
         label: '世帯収入',
-        data: years.map(year => {
-          const cf = cashFlow[year];
-          if (!cf) return 0;
-          return cf.mainIncome + cf.sideIncome + cf.spouseIncome;
-        }),
+        data: simulation.years.map(sy => sy.totalIncome),
         borderColor: 'rgb(255, 99, 132)',
         backgroundColor: 'rgba(255, 99, 132, 0.5)',
       },
       {
         label: '生活費',
-        data: years.map(year => {
-          const cf = cashFlow[year];
-          return cf ? cf.livingExpense : 0;
-        }),
+        data: simulation.years.map(sy => sy.expense.living),
         borderColor: 'rgb(53, 162, 235)',
         backgroundColor: 'rgba(53, 162, 235, 0.5)',
       },
       {
         label: '住居費',
-        data: years.map(year => {
-          const cf = cashFlow[year];
-          return cf ? cf.housingExpense : 0;
-        }),
+        data: simulation.years.map(sy => sy.expense.housing),
         borderColor: 'rgb(75, 192, 192)',
         backgroundColor: 'rgba(75, 192, 192, 0.5)',
       },
       {
         label: '教育費',
-        data: years.map(year => {
-          const cf = cashFlow[year];
-          return cf ? cf.educationExpense : 0;
-        }),
+        data: simulation.years.map(sy => sy.expense.education),
         borderColor: 'rgb(255, 159, 64)',
         backgroundColor: 'rgba(255, 159, 64, 0.5)',
       },
       {
-        label: '総資産',
-        data: years.map(year => investmentData.assets[year]),
+        label: '金融資産',
+        data: simulation.years.map(sy => sy.assets),
         borderColor: 'rgb(255, 205, 86)',
         backgroundColor: 'rgba(255, 205, 86, 0.5)',
       },
+      // 純資産は持ち家の評価額を含むが、取り崩せる資産（金融資産）とは分けて表示する
+      ...(hasRealEstate ? [{
+        label: '純資産（不動産 − 住宅ローンを含む）',
+        data: simulation.years.map(sy => sy.netWorth),
+        borderColor: 'rgb(153, 102, 255)',
+        backgroundColor: 'rgba(153, 102, 255, 0.5)',
+        borderDash: [6, 4],
+      }] : []),
+      ...monteCarloDatasets,
+      ...backtestDatasets,
     ],
   };
 
@@ -190,9 +235,7 @@ export function SimulationResults() {
         },
         ticks: {
           callback: function(value: any) {
-            const year = years[value];
-            const age = basicInfo.currentAge + (year - basicInfo.startYear);
-            return `${age}歳`;
+            return `${simulation.years[value]?.age}歳`;
           },
           font: {
             size: window.innerWidth < 768 ? 10 : 12,
@@ -204,6 +247,52 @@ export function SimulationResults() {
     },
   };
 
+  const assetClassColors: Record<AssetClass, string> = {
+    cash: 'rgba(156, 163, 175, 0.8)',
+    savings: 'rgba(53, 162, 235, 0.8)',
+    stocks: 'rgba(255, 99, 132, 0.8)',
+    investmentTrust: 'rgba(255, 159, 64, 0.8)',
+    realEstate: 'rgba(75, 192, 192, 0.8)',
+  };
+
+  const { nisa, ideco } = assetsLiabilities.taxAdvantaged;
+  const compositionData = {
+    labels: years,
+    datasets: [
+      ...(Object.keys(ASSET_CLASS_LABELS) as AssetClass[]).map(assetClass => ({
+        label: ASSET_CLASS_LABELS[assetClass],
+        data: simulation.years.map(sy => sy.assetBalances?.[assetClass] ?? 0),
+        backgroundColor: assetClassColors[assetClass],
+      })),
+      ...(nisa.enabled ? [{
+        label: 'NISA',
+        data: simulation.years.map(sy => sy.taxAdvantagedBalances.nisa),
+        backgroundColor: 'rgba(153, 102, 255, 0.8)',
+      }] : []),
+      ...(ideco.enabled ? [{
+        label: 'iDeCo',
+        data: simulation.years.map(sy => sy.taxAdvantagedBalances.ideco),
+        backgroundColor: 'rgba(255, 205, 86, 0.8)',
+      }] : []),
+    ],
+  };
+
+  const compositionOptions = {
+    ...options,
+    plugins: {
+      ...options.plugins,
+      title: {
+        ...options.plugins.title,
+        text: '資産構成の推移',
+      },
+    },
+    scales: {
+      ...options.scales,
+      x: { ...options.scales.x, stacked: true },
+      y: { ...options.scales.y, stacked: true },
+    },
+  };
+
   const getConditionSummary = () => {
     const conditions = [
       `${basicInfo.currentAge}歳`,
@@ -212,9 +301,15 @@ export function SimulationResults() {
         basicInfo.occupation === 'part_time_with_pension' ? 'パート（厚生年金あり）' :
         basicInfo.occupation === 'part_time_without_pension' ? 'パート（厚生年金なし）' :
         '専業主婦・夫'}`,
-      `年収${cashFlow[basicInfo.startYear]?.mainIncome}万円`,
-      `現在の総資産：${netInitialAssets}万円`,
+      `年収${simulation.years[0]?.income.main}万円`,
+      `現在の金融資産：${simulation.initialAssets}万円`,
       `資産運用利回り：${parameters.investmentReturn}%`,
+      ...(parameters.simulationMode === 'monteCarlo'
+        ? [`リスク：${parameters.volatility}%`, `試行回数：${parameters.trials}回`]
+        : []),
+      ...(parameters.simulationMode === 'historical'
+        ? [`検証指数：${HISTORICAL_INDEX_LABELS[parameters.historicalIndex]}`]
+        : []),
       `配偶者の有無：${basicInfo.maritalStatus !== 'single' ? 'あり' : 'なし'}`,
       `結婚の予定：${basicInfo.maritalStatus === 'planning' ? 'あり' : 'なし'}`,
       `子どもの有無：${basicInfo.children.length > 0 ? 'あり' : 'なし'}`,
@@ -237,12 +332,81 @@ export function SimulationResults() {
         </p>
       </div>
 
+      {parameters.simulationMode === 'monteCarlo' && !monteCarlo && (
+        <div className="bg-blue-50 p-4 rounded-lg space-y-2">
+          <h3 className="text-sm font-medium">プラン成功確率</h3>
+          <p className="text-xs text-gray-600">
+            {parameters.trials}回の試行で、運用成績のばらつきによるプランの成功確率を計算します。
+          </p>
+          <button
+            type="button"
+            onClick={handleRunMonteCarlo}
+            disabled={isRunningMonteCarlo}
+            className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 disabled:opacity-50"
+          >
+            {isRunningMonteCarlo ? '計算中…' : '成功確率を計算'}
+          </button>
+        </div>
+      )}
+
+      {monteCarlo && (
+        <div className="bg-blue-50 p-4 rounded-lg">
+          <h3 className="text-sm font-medium mb-1">プラン成功確率</h3>
+          <p className="text-2xl font-bold text-blue-700">
+            {(monteCarlo.successProbability * 100).toFixed(1)}%
+          </p>
+          <p className="text-xs text-gray-600">
+            {parameters.trials}回の試行のうち、{horizonLabel}資産がマイナスにならなかった割合
+          </p>
+        </div>
+      )}
+
+      {backtest && (
+        <div className="bg-blue-50 p-4 rounded-lg space-y-2">
+          <h3 className="text-sm font-medium">過去データによる検証結果</h3>
+          <p className="text-2xl font-bold text-blue-700">
+            {(backtest.successRate * 100).toFixed(1)}%
+          </p>
+          <p className="text-xs text-gray-600">
+            {backtest.runs.length}通りの開始年のうち、{horizonLabel}資産がマイナスにならなかった割合
+          </p>
+          {backtestTruncatedRuns > 0 && (
+            <p className="text-xs text-gray-600">
+              過去データは{HISTORICAL_DATA[HISTORICAL_DATA.length - 1].year}年までのため、
+              {backtestTruncatedRuns}通りは期間の途中から前提条件の運用利回り・物価上昇率で計算しています
+            </p>
+          )}
+          <div className="grid grid-cols-3 gap-4 text-sm">
+            {[
+              { label: '最悪', run: backtest.worst },
+              { label: '中央', run: backtest.median },
+              { label: '最良', run: backtest.best },
+            ].map(({ label, run }) => (
+              <div key={label}>
+                <p className="text-xs text-gray-500">{label}（{run.historicalStartYear}年開始）</p>
+                <p className={`font-medium ${run.finalAssets >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {run.finalAssets}万円
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div className="bg-white p-4 md:p-6 rounded-lg shadow">
         <div className="h-[50vh] md:h-[60vh]">
           <Line options={options} data={data} />
         </div>
       </div>
 
+      {parameters.trackAssetClasses && (
+        <div className="bg-white p-4 md:p-6 rounded-lg shadow">
+          <div className="h-[50vh] md:h-[60vh]">
+            <Bar options={compositionOptions} data={compositionData} />
+          </div>
+        </div>
+      )}
+
       <div className="flex justify-between space-x-4">
         <button
           type="button"
@@ -251,6 +415,13 @@ export function SimulationResults() {
         >
           戻る
         </button>
+        <button
+          type="button"
+          onClick={() => setCurrentStep(8)}
+          className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600"
+        >
+          賃貸と購入を比較
+        </button>
       </div>
     </div>
   );
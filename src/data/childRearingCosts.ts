@@ -0,0 +1,40 @@
+// 教育費以外の子育て費用（養育費、万円/年）と出産費用（万円）。開始年の金額で、毎年インフレ率で上がる。
+// 内閣府「平成21年度インターネットによる子育て費用に関する調査」の第1子1人あたりの年間子育て費用から、
+// 保育費・学校教育費・学校外活動費と子どものための預貯金・保険を除いた概算（食費・衣類・生活用品・医療費・
+// おこづかい・行事・レジャーなど）。高校生・大学生は調査の対象外のため中学生の額をもとにした目安。
+// 出産費用は厚生労働省の公表資料による正常分娩の全国平均（令和5年度）の概算。
+
+export interface ChildRearingCosts {
+  birthCost: number;
+  // 年齢区分ごとの年額（未就学児 0〜5歳、小学生 6〜11歳、中学生 12〜14歳、高校生 15〜17歳、大学生 18〜21歳）
+  preschool: number;
+  elementary: number;
+  juniorHigh: number;
+  highSchool: number;
+  university: number;
+}
+
+export const CHILD_REARING_COST_AGES: Record<Exclude<keyof ChildRearingCosts, 'birthCost'>, [number, number]> = {
+  preschool: [0, 5],
+  elementary: [6, 11],
+  juniorHigh: [12, 14],
+  highSchool: [15, 17],
+  university: [18, 21],
+};
+
+export const CHILD_REARING_COST_LABELS: Record<Exclude<keyof ChildRearingCosts, 'birthCost'>, string> = {
+  preschool: '未就学児（0〜5歳）',
+  elementary: '小学生（6〜11歳）',
+  juniorHigh: '中学生（12〜14歳）',
+  highSchool: '高校生（15〜17歳）',
+  university: '大学生（18〜21歳）',
+};
+
+export const DEFAULT_CHILD_REARING_COSTS: ChildRearingCosts = {
+  birthCost: 50.7,
+  preschool: 54,
+  elementary: 63,
+  juniorHigh: 74,
+  highSchool: 80,
+  university: 70,
+};
@@ -0,0 +1,117 @@
+// 教育費の単価表（万円）。学校種別ごとの年額と、大学・専門学校・大学院の入学費用、自宅外通学の費用。
+// 調査の改定時は古いプリセットを残したまま新しい年度のプリセットを追加し、既定値を切り替えること。
+
+export const SCHOOL_STAGES = ['nursery', 'preschool', 'elementary', 'juniorHigh', 'highSchool'] as const;
+export type SchoolStage = typeof SCHOOL_STAGES[number];
+
+export const SCHOOL_STAGE_LABELS: Record<SchoolStage, string> = {
+  nursery: '保育所',
+  preschool: '幼稚園',
+  elementary: '小学校',
+  juniorHigh: '中学校',
+  highSchool: '高校',
+};
+
+export const UNIVERSITY_TYPES = ['公立大学（文系）', '公立大学（理系）', '私立大学（文系）', '私立大学（理系）'] as const;
+export type UniversityType = typeof UNIVERSITY_TYPES[number];
+
+// 大学の代わりに進学する専門学校（2年制）
+export const VOCATIONAL_SCHOOL = '専門学校';
+
+export interface HigherEducationCost {
+  // 授業料などの在学費用（年額）
+  annual: number;
+  // 入学金・受験費用などの入学費用（入学年のみ）
+  entrance: number;
+}
+
+export interface EducationCostTable {
+  // 単価が幼児教育・保育の無償化と高校の就学支援金を差し引いた後の実際の負担額か
+  // （調査の実額は支援後なので、二重に差し引かない）
+  afterPublicSupport: boolean;
+  // 学校教育費と給食費の年額（塾・習い事は子どもごとに入力する）
+  schools: Record<SchoolStage, { public: number; private: number }>;
+  university: Record<UniversityType, HigherEducationCost>;
+  vocationalSchool: HigherEducationCost;
+  // 修士課程（2年）
+  graduateSchool: { public: HigherEducationCost; private: HigherEducationCost };
+  // 自宅外通学（仕送り）の家賃と生活費（万円/月）、アパートの敷金・家財などの初期費用
+  livingAway: {
+    monthlyRent: number;
+    monthlyAllowance: number;
+    setupCost: number;
+  };
+}
+
+export interface EducationCostPreset {
+  label: string;
+  source: string;
+  table: EducationCostTable;
+}
+
+export const EDUCATION_COST_PRESETS: Record<string, EducationCostPreset> = {
+  r3: {
+    label: '令和3年度調査',
+    source:
+      '文部科学省「令和3年度子供の学習費調査」の学校教育費・学校給食費、日本政策金融公庫「令和3年度教育費負担の実態調査」の在学費用・入学費用・仕送り額。' +
+      '保育所の保育料は調査の対象外のため従来の目安',
+    table: {
+      afterPublicSupport: true,
+      schools: {
+        nursery: { public: 23.3, private: 50 },
+        preschool: { public: 7.5, private: 16.6 },
+        elementary: { public: 10.5, private: 100.6 },
+        juniorHigh: { public: 17, private: 106.9 },
+        highSchool: { public: 30.9, private: 75 },
+      },
+      university: {
+        '公立大学（文系）': { annual: 103.5, entrance: 67.2 },
+        '公立大学（理系）': { annual: 103.5, entrance: 67.2 },
+        '私立大学（文系）': { annual: 152, entrance: 81.8 },
+        '私立大学（理系）': { annual: 183.2, entrance: 88.7 },
+      },
+      vocationalSchool: { annual: 150.4, entrance: 74.8 },
+      graduateSchool: {
+        public: { annual: 53.6, entrance: 28.2 },
+        private: { annual: 110, entrance: 25 },
+      },
+      livingAway: {
+        monthlyRent: 5.5,
+        monthlyAllowance: 2.5,
+        setupCost: 38.1,
+      },
+    },
+  },
+  legacy: {
+    label: '従来の目安',
+    source: 'このシミュレーターの以前の版の単価（塾・習い事を含む概算、入学費用は含まない）',
+    table: {
+      afterPublicSupport: false,
+      schools: {
+        nursery: { public: 23.3, private: 50 },
+        preschool: { public: 58.3, private: 100 },
+        elementary: { public: 41.7, private: 83.3 },
+        juniorHigh: { public: 66.7, private: 133.3 },
+        highSchool: { public: 83.3, private: 250 },
+      },
+      university: {
+        '公立大学（文系）': { annual: 325, entrance: 0 },
+        '公立大学（理系）': { annual: 375, entrance: 0 },
+        '私立大学（文系）': { annual: 550, entrance: 0 },
+        '私立大学（理系）': { annual: 650, entrance: 0 },
+      },
+      vocationalSchool: { annual: 300, entrance: 0 },
+      graduateSchool: {
+        public: { annual: 325, entrance: 0 },
+        private: { annual: 550, entrance: 0 },
+      },
+      livingAway: {
+        monthlyRent: 5.5,
+        monthlyAllowance: 2.5,
+        setupCost: 38.1,
+      },
+    },
+  },
+};
+
+export const DEFAULT_EDUCATION_COST_PRESET = 'r3';
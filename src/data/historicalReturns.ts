@@ -0,0 +1,78 @@
+// 過去の年次リターン・物価上昇率（%、暦年ベース）
+// オフラインでも動作するようにアプリに同梱している。
+// 数値は公表値を小数第1位で丸めた概算値。更新時は年末に1年分を追加すること。
+//  - TOPIX: 年末値の前年比（配当を含まない価格指数）
+//  - 先進国株式: MSCI World（米ドル建て・配当込み）
+//  - 消費者物価指数: 総務省 全国CPI（総合）前年比
+
+export type HistoricalIndex = 'japanEquity' | 'globalEquity';
+
+export interface HistoricalYear {
+  year: number;
+  japanEquity: number;
+  globalEquity: number;
+  inflation: number;
+}
+
+export const HISTORICAL_INDEX_LABELS: Record<HistoricalIndex, string> = {
+  japanEquity: '日本株式（TOPIX）',
+  globalEquity: '先進国株式（MSCI World）',
+};
+
+export const HISTORICAL_DATA: HistoricalYear[] = [
+  { year: 1970, japanEquity: -17.3, globalEquity: -2.0, inflation: 7.7 },
+  { year: 1971, japanEquity: 34.4, globalEquity: 18.4, inflation: 6.3 },
+  { year: 1972, japanEquity: 101.4, globalEquity: 23.5, inflation: 4.9 },
+  { year: 1973, japanEquity: -23.7, globalEquity: -15.2, inflation: 11.7 },
+  { year: 1974, japanEquity: -9.2, globalEquity: -24.5, inflation: 23.2 },
+  { year: 1975, japanEquity: 16.2, globalEquity: 34.5, inflation: 11.7 },
+  { year: 1976, japanEquity: 18.7, globalEquity: 14.7, inflation: 9.4 },
+  { year: 1977, japanEquity: -5.2, globalEquity: 2.0, inflation: 8.1 },
+  { year: 1978, japanEquity: 23.5, globalEquity: 18.2, inflation: 4.2 },
+  { year: 1979, japanEquity: 2.2, globalEquity: 12.7, inflation: 3.7 },
+  { year: 1980, japanEquity: 7.5, globalEquity: 25.7, inflation: 7.7 },
+  { year: 1981, japanEquity: 15.4, globalEquity: -4.8, inflation: 4.9 },
+  { year: 1982, japanEquity: 4.1, globalEquity: 9.7, inflation: 2.8 },
+  { year: 1983, japanEquity: 23.3, globalEquity: 21.9, inflation: 1.9 },
+  { year: 1984, japanEquity: 24.8, globalEquity: 4.7, inflation: 2.3 },
+  { year: 1985, japanEquity: 14.9, globalEquity: 40.6, inflation: 2.0 },
+  { year: 1986, japanEquity: 48.3, globalEquity: 41.9, inflation: 0.6 },
+  { year: 1987, japanEquity: 10.9, globalEquity: 16.2, inflation: 0.1 },
+  { year: 1988, japanEquity: 36.6, globalEquity: 23.3, inflation: 0.7 },
+  { year: 1989, japanEquity: 22.2, globalEquity: 16.6, inflation: 2.3 },
+  { year: 1990, japanEquity: -39.8, globalEquity: -17.0, inflation: 3.1 },
+  { year: 1991, japanEquity: -1.1, globalEquity: 18.3, inflation: 3.3 },
+  { year: 1992, japanEquity: -23.7, globalEquity: -5.2, inflation: 1.6 },
+  { year: 1993, japanEquity: 10.1, globalEquity: 22.5, inflation: 1.3 },
+  { year: 1994, japanEquity: 8.3, globalEquity: 5.1, inflation: 0.7 },
+  { year: 1995, japanEquity: 1.2, globalEquity: 20.7, inflation: -0.1 },
+  { year: 1996, japanEquity: -6.8, globalEquity: 13.5, inflation: 0.1 },
+  { year: 1997, japanEquity: -20.1, globalEquity: 15.8, inflation: 1.8 },
+  { year: 1998, japanEquity: -7.5, globalEquity: 24.3, inflation: 0.6 },
+  { year: 1999, japanEquity: 58.4, globalEquity: 24.9, inflation: -0.3 },
+  { year: 2000, japanEquity: -25.5, globalEquity: -13.2, inflation: -0.7 },
+  { year: 2001, japanEquity: -19.6, globalEquity: -16.8, inflation: -0.7 },
+  { year: 2002, japanEquity: -18.3, globalEquity: -19.9, inflation: -0.9 },
+  { year: 2003, japanEquity: 23.8, globalEquity: 33.1, inflation: -0.3 },
+  { year: 2004, japanEquity: 10.2, globalEquity: 14.7, inflation: 0.0 },
+  { year: 2005, japanEquity: 43.5, globalEquity: 9.5, inflation: -0.3 },
+  { year: 2006, japanEquity: 1.9, globalEquity: 20.1, inflation: 0.3 },
+  { year: 2007, japanEquity: -12.2, globalEquity: 9.0, inflation: 0.0 },
+  { year: 2008, japanEquity: -41.8, globalEquity: -40.7, inflation: 1.4 },
+  { year: 2009, japanEquity: 5.6, globalEquity: 30.0, inflation: -1.4 },
+  { year: 2010, japanEquity: -1.0, globalEquity: 11.8, inflation: -0.7 },
+  { year: 2011, japanEquity: -18.9, globalEquity: -5.5, inflation: -0.3 },
+  { year: 2012, japanEquity: 18.0, globalEquity: 15.8, inflation: 0.0 },
+  { year: 2013, japanEquity: 51.5, globalEquity: 26.7, inflation: 0.4 },
+  { year: 2014, japanEquity: 8.1, globalEquity: 4.9, inflation: 2.7 },
+  { year: 2015, japanEquity: 9.9, globalEquity: -0.9, inflation: 0.8 },
+  { year: 2016, japanEquity: -1.9, globalEquity: 7.5, inflation: -0.1 },
+  { year: 2017, japanEquity: 19.7, globalEquity: 22.4, inflation: 0.5 },
+  { year: 2018, japanEquity: -17.8, globalEquity: -8.7, inflation: 1.0 },
+  { year: 2019, japanEquity: 15.2, globalEquity: 27.7, inflation: 0.5 },
+  { year: 2020, japanEquity: 4.8, globalEquity: 15.9, inflation: 0.0 },
+  { year: 2021, japanEquity: 10.4, globalEquity: 21.8, inflation: -0.2 },
+  { year: 2022, japanEquity: -5.1, globalEquity: -18.1, inflation: 2.5 },
+  { year: 2023, japanEquity: 25.1, globalEquity: 23.8, inflation: 3.2 },
+  { year: 2024, japanEquity: 17.7, globalEquity: 18.7, inflation: 2.7 },
+];
@@ -0,0 +1,130 @@
+// 社会保険料率（%、労使合計。雇用保険のみ本人負担分）
+// 健康保険は協会けんぽの令和6年度の都道府県別保険料率。健保組合などは任意の料率を入力する。
+// 改定時は年度ごとに差し替えること。
+
+export const KYOKAI_KENPO_HEALTH_INSURANCE_RATES: Record<string, number> = {
+  北海道: 10.21,
+  青森県: 9.49,
+  岩手県: 9.63,
+  宮城県: 10.01,
+  秋田県: 9.85,
+  山形県: 9.84,
+  福島県: 9.59,
+  茨城県: 9.66,
+  栃木県: 9.79,
+  群馬県: 9.81,
+  埼玉県: 9.78,
+  千葉県: 9.77,
+  東京都: 9.98,
+  神奈川県: 10.02,
+  新潟県: 9.55,
+  富山県: 9.62,
+  石川県: 9.94,
+  福井県: 10.07,
+  山梨県: 9.94,
+  長野県: 9.55,
+  岐阜県: 9.91,
+  静岡県: 9.85,
+  愛知県: 10.02,
+  三重県: 9.94,
+  滋賀県: 9.89,
+  京都府: 10.13,
+  大阪府: 10.34,
+  兵庫県: 10.18,
+  奈良県: 10.22,
+  和歌山県: 10.0,
+  鳥取県: 9.68,
+  島根県: 9.92,
+  岡山県: 10.02,
+  広島県: 9.95,
+  山口県: 10.2,
+  徳島県: 10.19,
+  香川県: 10.33,
+  愛媛県: 10.03,
+  高知県: 9.89,
+  福岡県: 10.35,
+  佐賀県: 10.42,
+  長崎県: 10.17,
+  熊本県: 10.3,
+  大分県: 10.25,
+  宮崎県: 9.85,
+  鹿児島県: 10.13,
+  沖縄県: 9.52,
+};
+
+// 介護保険料率（40歳〜64歳の第2号被保険者）
+export const LONG_TERM_CARE_INSURANCE_RATE = 1.6;
+// 厚生年金保険料率（平成29年9月以降固定）
+export const WELFARE_PENSION_INSURANCE_RATE = 18.3;
+// 雇用保険料率（一般の事業、本人負担分）
+export const EMPLOYMENT_INSURANCE_RATE = 0.6;
+
+// 健康保険の標準報酬月額等級（円）。upTo は報酬月額の上限（未満）
+export const HEALTH_INSURANCE_GRADES: { upTo: number; standard: number }[] = [
+  { upTo: 63_000, standard: 58_000 },
+  { upTo: 73_000, standard: 68_000 },
+  { upTo: 83_000, standard: 78_000 },
+  { upTo: 93_000, standard: 88_000 },
+  { upTo: 101_000, standard: 98_000 },
+  { upTo: 107_000, standard: 104_000 },
+  { upTo: 114_000, standard: 110_000 },
+  { upTo: 122_000, standard: 118_000 },
+  { upTo: 130_000, standard: 126_000 },
+  { upTo: 138_000, standard: 134_000 },
+  { upTo: 146_000, standard: 142_000 },
+  { upTo: 155_000, standard: 150_000 },
+  { upTo: 165_000, standard: 160_000 },
+  { upTo: 175_000, standard: 170_000 },
+  { upTo: 185_000, standard: 180_000 },
+  { upTo: 195_000, standard: 190_000 },
+  { upTo: 210_000, standard: 200_000 },
+  { upTo: 230_000, standard: 220_000 },
+  { upTo: 250_000, standard: 240_000 },
+  { upTo: 270_000, standard: 260_000 },
+  { upTo: 290_000, standard: 280_000 },
+  { upTo: 310_000, standard: 300_000 },
+  { upTo: 330_000, standard: 320_000 },
+  { upTo: 350_000, standard: 340_000 },
+  { upTo: 370_000, standard: 360_000 },
+  { upTo: 395_000, standard: 380_000 },
+  { upTo: 425_000, standard: 410_000 },
+  { upTo: 455_000, standard: 440_000 },
+  { upTo: 485_000, standard: 470_000 },
+  { upTo: 515_000, standard: 500_000 },
+  { upTo: 545_000, standard: 530_000 },
+  { upTo: 575_000, standard: 560_000 },
+  { upTo: 605_000, standard: 590_000 },
+  { upTo: 635_000, standard: 620_000 },
+  { upTo: 665_000, standard: 650_000 },
+  { upTo: 695_000, standard: 680_000 },
+  { upTo: 730_000, standard: 710_000 },
+  { upTo: 770_000, standard: 750_000 },
+  { upTo: 810_000, standard: 790_000 },
+  { upTo: 855_000, standard: 830_000 },
+  { upTo: 905_000, standard: 880_000 },
+  { upTo: 955_000, standard: 930_000 },
+  { upTo: 1_005_000, standard: 980_000 },
+  { upTo: 1_055_000, standard: 1_030_000 },
+  { upTo: 1_115_000, standard: 1_090_000 },
+  { upTo: 1_175_000, standard: 1_150_000 },
+  { upTo: 1_235_000, standard: 1_210_000 },
+  { upTo: 1_295_000, standard: 1_270_000 },
+  { upTo: 1_355_000, standard: 1_330_000 },
+  { upTo: Infinity, standard: 1_390_000 },
+];
+
+// 厚生年金の標準報酬月額の下限・上限（等級の区切りは健康保険と共通）
+export const WELFARE_PENSION_MIN_STANDARD = 88_000;
+export const WELFARE_PENSION_MAX_STANDARD = 650_000;
+
+// 国民年金保険料（円/月、令和6年度）。20歳〜59歳が納付する
+export const NATIONAL_PENSION_MONTHLY_PREMIUM = 16_980;
+
+// 国民健康保険料（東京都特別区の令和6年度、所得割は%・均等割と上限は万円）
+// 所得割は旧ただし書き所得（総所得金額等から43万円を差し引いた額）にかかる
+export const NATIONAL_HEALTH_INSURANCE_RATES = {
+  medical: { incomeRate: 7.71, perCapita: 4.73, cap: 65 },
+  support: { incomeRate: 2.69, perCapita: 1.68, cap: 24 },
+  care: { incomeRate: 2.25, perCapita: 1.66, cap: 17 },
+};
+export const NATIONAL_HEALTH_INSURANCE_BASIC_DEDUCTION = 43;
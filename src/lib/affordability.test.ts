@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateAffordability,
+  calculateMaxLoanAmount,
+  checkAffordability,
+  getSpouseScreeningIncome,
+} from '@/lib/affordability';
+import { createOwnHousing, createParameters, createPlan } from '@/test/fixtures';
+
+describe('calculateAffordability', () => {
+  it('金利0%なら年間返済額 × 返済期間が借入可能額になる', () => {
+    expect(calculateMaxLoanAmount(120, 0, 35)).toBe(4200);
+  });
+
+  it('返済期間は完済時の年齢までで最長35年', () => {
+    const input = {
+      annualIncome: 600,
+      spouseAnnualIncome: 400,
+      includeSpouseIncome: false,
+      debtServiceRatio: 25,
+      screeningRate: 0,
+      payoffAge: 80,
+      ageAtPurchase: 30,
+      otherAnnualDebtPayments: 30,
+    };
+    expect(calculateAffordability(input)).toEqual({
+      householdIncome: 600,
+      termYears: 35,
+      maxAnnualPayment: 120,
+      maxLoanAmount: 4200,
+    });
+    expect(calculateAffordability({ ...input, includeSpouseIncome: true, ageAtPurchase: 60 }).termYears).toBe(20);
+  });
+});
+
+describe('getSpouseScreeningIncome', () => {
+  const spouse = {
+    annualIncome: 400,
+    severancePay: 0,
+    workStartAge: 22,
+    workEndAge: 60,
+    pensionStartAge: 65,
+    pensionAmount: 0,
+  };
+
+  it('購入年に結婚していなければ配偶者の収入を合算しない', () => {
+    // 2030年（本人35歳）に結婚する予定
+    const plan = createPlan({
+      basicInfo: { maritalStatus: 'planning', spouseInfo: { age: 30, marriageAge: 35 } },
+      incomeInfo: { spouse },
+    });
+    expect(getSpouseScreeningIncome(plan, 2029)).toBe(0);
+    expect(getSpouseScreeningIncome(plan, 2030)).toBe(400);
+  });
+
+  it('購入年に配偶者が退職していれば合算しない', () => {
+    const plan = createPlan({
+      basicInfo: { maritalStatus: 'married', spouseInfo: { currentAge: 58 } },
+      incomeInfo: { spouse },
+    });
+    expect(getSpouseScreeningIncome(plan, 2027)).toBe(400);
+    expect(getSpouseScreeningIncome(plan, 2028)).toBe(0);
+  });
+});
+
+describe('checkAffordability', () => {
+  const parameters = createParameters({ investmentReturn: 0, inflationRate: 0 });
+  const plan = (monthlyRent: number) => createPlan({
+    basicInfo: {
+      housingInfo: { type: 'rent', rent: { monthlyRent, annualIncreaseRate: 0 }, phases: [] },
+    },
+  });
+  const own = (purchasePrice: number) => createOwnHousing({ purchaseYear: 2030, purchasePrice, loanAmount: 3000 });
+
+  it('購入の年に頭金と購入諸費用を支払う', () => {
+    const base = checkAffordability(plan(0), parameters, { own: own(3000), closingCosts: 0 });
+    const withCosts = checkAffordability(plan(0), parameters, { own: own(4000), closingCosts: 300 });
+    // 頭金1,000万円と諸費用300万円のほか、購入金額に応じた保有コストの差がある
+    expect(base.finalAssets - withCosts.finalAssets).toBeGreaterThan(1300);
+  });
+
+  it('購入年の前年までは現在の家賃を支払う', () => {
+    const withoutRent = checkAffordability(plan(0), parameters, { own: own(3000), closingCosts: 0 });
+    const withRent = checkAffordability(plan(10), parameters, { own: own(3000), closingCosts: 0 });
+    // 2025〜2029年の5年分
+    expect(withoutRent.finalAssets - withRent.finalAssets).toBeCloseTo(600, 0);
+  });
+
+  it('予定している住み替えはそのまま残す', () => {
+    const movingPlan = (movingCost: number) => createPlan({
+      basicInfo: {
+        housingInfo: {
+          type: 'rent',
+          rent: { monthlyRent: 0, annualIncreaseRate: 0 },
+          phases: [{
+            type: 'rent',
+            startYear: 2045,
+            rent: { monthlyRent: 0, annualIncreaseRate: 0 },
+            movingCost,
+            salePrice: 0,
+            saleCostRate: 0,
+          }],
+        },
+      },
+      incomeInfo: { annualIncome: 1000 },
+    });
+    const purchase = { own: own(3000), closingCosts: 0 };
+    expect(checkAffordability(movingPlan(0), parameters, purchase).depletionYear).toBeUndefined();
+    // 住み替えの年の引越し費用で資産がマイナスになる
+    expect(checkAffordability(movingPlan(100000), parameters, purchase).depletionYear).toBe(2045);
+  });
+});
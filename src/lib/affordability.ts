@@ -0,0 +1,146 @@
+import type { OwnHousing, Parameters } from '@/store/simulator';
+import {
+  simulate,
+  getSpendableAssets,
+  getSpouseTimeline,
+  type SimulationPlan,
+  type CashFlowOverrides,
+} from '@/lib/simulation';
+import { isPlanSuccessful } from '@/lib/monteCarlo';
+
+// 年収から借入可能額を求め、その借入額でプラン全体が破綻しないかを確認する（金額は万円）
+
+// 民間の住宅ローンの最長返済期間
+export const MAX_LOAN_TERM_YEARS = 35;
+
+export interface AffordabilityInput {
+  // 税込年収（本人と配偶者）
+  annualIncome: number;
+  spouseAnnualIncome: number;
+  // 配偶者の収入を合算して審査する（収入合算・ペアローン）
+  includeSpouseIncome: boolean;
+  // 返済負担率（年収に対する年間返済額の上限、%）
+  debtServiceRatio: number;
+  // 審査金利（%）
+  screeningRate: number;
+  // 完済時の年齢の上限
+  payoffAge: number;
+  ageAtPurchase: number;
+  // 自動車ローンなど他の借入の年間返済額
+  otherAnnualDebtPayments: number;
+}
+
+// 検証する住宅購入（購入年の前年までは現在の家賃を支払う）
+export interface AffordabilityPurchase {
+  own: OwnHousing;
+  // 登記費用・仲介手数料などの購入諸費用と引越し費用
+  closingCosts: number;
+}
+
+export interface AffordabilityResult {
+  householdIncome: number;
+  termYears: number;
+  maxAnnualPayment: number;
+  maxLoanAmount: number;
+}
+
+export interface AffordabilityCheck {
+  // 最後まで取り崩せる金融資産がマイナスにならない
+  successful: boolean;
+  minimumAssets: number;
+  minimumAssetsYear: number;
+  // 金融資産が初めてマイナスになる年
+  depletionYear?: number;
+  finalAssets: number;
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(1));
+}
+
+// 元利均等返済で、年間返済額から逆算した借入額
+export function calculateMaxLoanAmount(annualPayment: number, interestRate: number, termYears: number): number {
+  if (annualPayment <= 0 || termYears <= 0) {
+    return 0;
+  }
+  const monthlyPayment = annualPayment / 12;
+  const months = termYears * 12;
+  const monthlyRate = interestRate / 100 / 12;
+  if (monthlyRate === 0) {
+    return monthlyPayment * months;
+  }
+  return monthlyPayment * (1 - Math.pow(1 + monthlyRate, -months)) / monthlyRate;
+}
+
+export function calculateAffordability(input: AffordabilityInput): AffordabilityResult {
+  const householdIncome = input.annualIncome + (input.includeSpouseIncome ? input.spouseAnnualIncome : 0);
+  const termYears = Math.max(0, Math.min(MAX_LOAN_TERM_YEARS, input.payoffAge - input.ageAtPurchase));
+  const maxAnnualPayment = Math.max(
+    0,
+    householdIncome * (input.debtServiceRatio / 100) - input.otherAnnualDebtPayments
+  );
+  // 10万円単位で切り捨て
+  const maxLoanAmount = Math.floor(calculateMaxLoanAmount(maxAnnualPayment, input.screeningRate, termYears) / 10) * 10;
+  return {
+    householdIncome: round(householdIncome),
+    termYears,
+    maxAnnualPayment: round(maxAnnualPayment),
+    maxLoanAmount,
+  };
+}
+
+// 審査で合算する配偶者の税込年収。シミュレーションと同じく、その年に結婚していて就労期間中の場合だけ数える
+export function getSpouseScreeningIncome(plan: SimulationPlan, year: number): number {
+  const spouse = plan.incomeInfo.spouse;
+  const timeline = getSpouseTimeline(plan.basicInfo, year);
+  if (!spouse || !timeline || timeline.age < spouse.workStartAge || timeline.age > spouse.workEndAge) {
+    return 0;
+  }
+  return spouse.annualIncome;
+}
+
+// 現在の賃貸から持ち家に住み替えるプランとしてシミュレーションし、生涯の金融資産の推移を確認する。
+// 購入の年に頭金と購入諸費用を支払う（賃貸と購入の比較と同じ住まいの組み立て）。
+// 予定している住み替えはそのまま残し、検証する購入だけを差し替える
+export function checkAffordability(
+  plan: SimulationPlan,
+  parameters: Parameters,
+  purchase: AffordabilityPurchase,
+  overrides: CashFlowOverrides = {}
+): AffordabilityCheck {
+  const { startYear, housingInfo } = plan.basicInfo;
+  const { years, initialAssets } = simulate(
+    {
+      ...plan,
+      basicInfo: {
+        ...plan.basicInfo,
+        housingInfo: {
+          type: 'rent',
+          rent: housingInfo.rent ?? { monthlyRent: 0, annualIncreaseRate: 0 },
+          phases: [{
+            type: 'own',
+            startYear: Math.max(startYear, purchase.own.purchaseYear),
+            own: purchase.own,
+            movingCost: purchase.closingCosts,
+            salePrice: 0,
+            saleCostRate: 0,
+          }, ...(housingInfo.phases ?? [])],
+        },
+      },
+    },
+    parameters,
+    overrides
+  );
+  // 破綻の判定と同じく、受け取り前のiDeCoを除いた取り崩せる資産で見る
+  const minimum = years.reduce(
+    (min, year) => (getSpendableAssets(year) < getSpendableAssets(min) ? year : min),
+    years[0]
+  );
+  return {
+    successful: isPlanSuccessful(years),
+    minimumAssets: minimum ? getSpendableAssets(minimum) : initialAssets,
+    minimumAssetsYear: minimum?.year ?? plan.basicInfo.startYear,
+    depletionYear: years.find(year => getSpendableAssets(year) < 0)?.year,
+    finalAssets: years[years.length - 1]?.assets ?? initialAssets,
+  };
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyCashFlowToBalances,
+  getInitialAssetBalances,
+  growAssetBalances,
+  rebalanceAssetBalances,
+  type AssetBalances,
+} from '@/lib/assetClasses';
+import { createPlan } from '@/test/fixtures';
+
+const balances = (changes: Partial<AssetBalances> = {}): AssetBalances => ({
+  cash: 100,
+  savings: 200,
+  stocks: 300,
+  investmentTrust: 400,
+  realEstate: 0,
+  ...changes,
+});
+
+describe('getInitialAssetBalances', () => {
+  it('負債を現金から差し引く', () => {
+    expect(getInitialAssetBalances({
+      ...createPlan().assetsLiabilities,
+      assets: balances(),
+      liabilities: { loans: 150, creditCards: 30 },
+    }).cash).toBe(-80);
+  });
+});
+
+describe('growAssetBalances', () => {
+  it('クラスごとの利回りを適用し、マイナス残高には運用収益をつけない', () => {
+    const result = growAssetBalances(
+      balances({ cash: -50 }),
+      { cash: 10, savings: 1, stocks: 5, investmentTrust: 4, realEstate: 0 }
+    );
+    expect(result.balances).toEqual({ cash: -50, savings: 202, stocks: 315, investmentTrust: 416, realEstate: 0 });
+    expect(result.investmentReturn).toBe(33);
+  });
+});
+
+describe('applyCashFlowToBalances', () => {
+  it('黒字は預金に加える', () => {
+    expect(applyCashFlowToBalances(balances(), 50).savings).toBe(250);
+  });
+
+  it('赤字は現金→預金→投資信託→株式の順に取り崩す', () => {
+    expect(applyCashFlowToBalances(balances(), -500)).toEqual(balances({ cash: 0, savings: 0, investmentTrust: 200 }));
+  });
+
+  it('取り崩せる資産が尽きた分は現金のマイナスとして残す', () => {
+    expect(applyCashFlowToBalances(balances(), -1100)).toEqual(
+      balances({ cash: -100, savings: 0, stocks: 0, investmentTrust: 0 })
+    );
+  });
+});
+
+describe('rebalanceAssetBalances', () => {
+  it('金融資産の合計を目標配分に合わせる', () => {
+    expect(rebalanceAssetBalances(
+      balances({ realEstate: 500 }),
+      { cash: 10, savings: 20, stocks: 30, investmentTrust: 40 }
+    )).toEqual({ cash: 100, savings: 200, stocks: 300, investmentTrust: 400, realEstate: 500 });
+    expect(rebalanceAssetBalances(
+      balances(),
+      { cash: 0, savings: 0, stocks: 50, investmentTrust: 50 }
+    )).toEqual(balances({ cash: 0, savings: 0, stocks: 500, investmentTrust: 500 }));
+  });
+});
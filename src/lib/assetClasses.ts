@@ -0,0 +1,112 @@
+import type {
+  AssetsLiabilities,
+  AssetClass,
+  FinancialAssetClass,
+} from '@/store/simulator';
+
+export type AssetBalances = Record<AssetClass, number>;
+
+export const ASSET_CLASS_LABELS: Record<AssetClass, string> = {
+  cash: '現金',
+  savings: '預金',
+  stocks: '株式',
+  investmentTrust: '投資信託',
+  realEstate: '不動産',
+};
+
+export const FINANCIAL_ASSET_CLASSES: FinancialAssetClass[] = ['cash', 'savings', 'stocks', 'investmentTrust'];
+
+// シナリオ（モンテカルロ・過去データ）のリターンを適用する資産クラス
+export const EQUITY_ASSET_CLASSES: AssetClass[] = ['stocks', 'investmentTrust'];
+
+// 取り崩しの順序（不動産は取り崩さない）
+const WITHDRAWAL_ORDER: FinancialAssetClass[] = ['cash', 'savings', 'investmentTrust', 'stocks'];
+
+function round(value: number): number {
+  return Number(value.toFixed(1));
+}
+
+export function sumAssetBalances(balances: AssetBalances): number {
+  return round(Object.values(balances).reduce((sum, value) => sum + value, 0));
+}
+
+// 取り崩しに使える金融資産の合計（不動産を除く）
+export function sumFinancialAssetBalances(balances: AssetBalances): number {
+  return round(FINANCIAL_ASSET_CLASSES.reduce((sum, assetClass) => sum + balances[assetClass], 0));
+}
+
+// 負債は現金から差し引いた状態で開始する
+export function getInitialAssetBalances(assetsLiabilities: AssetsLiabilities): AssetBalances {
+  const totalLiabilities = Object.values(assetsLiabilities.liabilities).reduce((sum, value) => sum + value, 0);
+  return {
+    ...assetsLiabilities.assets,
+    cash: assetsLiabilities.assets.cash - totalLiabilities,
+  };
+}
+
+// 期首残高に各クラスの利回りを適用（マイナス残高には運用収益なし）。
+// 不動産の値上がりは現金化されないため運用収益に含めない
+export function growAssetBalances(
+  balances: AssetBalances,
+  rates: Record<AssetClass, number>
+): { balances: AssetBalances; investmentReturn: number; taxableReturn: number } {
+  const grown = { ...balances };
+  let investmentReturn = 0;
+  let taxableReturn = 0;
+  (Object.keys(balances) as AssetClass[]).forEach((assetClass) => {
+    if (balances[assetClass] <= 0) return;
+    const classReturn = round(balances[assetClass] * (rates[assetClass] / 100));
+    grown[assetClass] = round(balances[assetClass] + classReturn);
+    if (assetClass === 'realEstate') return;
+    investmentReturn += classReturn;
+    if (classReturn > 0) {
+      taxableReturn += classReturn;
+    }
+  });
+  return {
+    balances: grown,
+    investmentReturn: round(investmentReturn),
+    taxableReturn: round(taxableReturn),
+  };
+}
+
+// 黒字は預金へ、赤字は現金→預金→投資信託→株式の順に取り崩す
+export function applyCashFlowToBalances(balances: AssetBalances, amount: number): AssetBalances {
+  const updated = { ...balances };
+  if (amount >= 0) {
+    updated.savings = round(updated.savings + amount);
+    return updated;
+  }
+
+  let shortfall = -amount;
+  for (const assetClass of WITHDRAWAL_ORDER) {
+    const available = Math.max(0, updated[assetClass]);
+    const withdrawal = Math.min(available, shortfall);
+    updated[assetClass] = round(updated[assetClass] - withdrawal);
+    shortfall = round(shortfall - withdrawal);
+    if (shortfall <= 0) break;
+  }
+  // 取り崩せる資産が尽きた分は現金のマイナス（借入）として残す
+  if (shortfall > 0) {
+    updated.cash = round(updated.cash - shortfall);
+  }
+  return updated;
+}
+
+// 金融資産の合計を目標配分に合わせて再配分する
+export function rebalanceAssetBalances(
+  balances: AssetBalances,
+  targetAllocation: Record<FinancialAssetClass, number>
+): AssetBalances {
+  const financialTotal = FINANCIAL_ASSET_CLASSES.reduce((sum, assetClass) => sum + balances[assetClass], 0);
+  const totalWeight = FINANCIAL_ASSET_CLASSES.reduce((sum, assetClass) => sum + targetAllocation[assetClass], 0);
+  if (financialTotal <= 0 || totalWeight <= 0) {
+    return balances;
+  }
+
+  const rebalanced = { ...balances };
+  FINANCIAL_ASSET_CLASSES.forEach((assetClass) => {
+    rebalanced[assetClass] = round(financialTotal * (targetAllocation[assetClass] / totalWeight));
+  });
+  return rebalanced;
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { HISTORICAL_DATA } from '@/data/historicalReturns';
+import { getHistoricalSequence, runHistoricalBacktest } from '@/lib/backtest';
+import { createParameters, createPlan } from '@/test/fixtures';
+
+const lastDataYear = HISTORICAL_DATA[HISTORICAL_DATA.length - 1].year;
+
+describe('getHistoricalSequence', () => {
+  it('データ末尾を越える場合は先頭に戻さずに打ち切る', () => {
+    expect(getHistoricalSequence(HISTORICAL_DATA.length - 3, 5).map(data => data.year))
+      .toEqual([lastDataYear - 2, lastDataYear - 1, lastDataYear]);
+  });
+});
+
+describe('runHistoricalBacktest', () => {
+  const parameters = createParameters({ simulationMode: 'historical', investmentReturn: 3, inflationRate: 1 });
+
+  it('過去データの各年を開始年として検証する', () => {
+    // 30歳から80歳までの51年
+    const result = runHistoricalBacktest(createPlan({ basicInfo: { currentAge: 30, deathAge: 80 } }), parameters);
+    expect(result.runs).toHaveLength(HISTORICAL_DATA.length);
+    expect(result.runs[0].historicalYears).toBe(51);
+    expect(result.runs[result.runs.length - 1].historicalYears).toBe(1);
+  });
+
+  it('データが尽きた後の年は前提条件の運用利回りで計算する', () => {
+    const plan = createPlan({
+      basicInfo: { currentAge: 30, deathAge: 31 },
+      assetsLiabilities: {
+        ...createPlan().assetsLiabilities,
+        assets: { cash: 0, savings: 1000, stocks: 0, investmentTrust: 0, realEstate: 0 },
+      },
+    });
+    const lastRun = runHistoricalBacktest(plan, parameters).runs.at(-1)!;
+    expect(lastRun.historicalStartYear).toBe(lastDataYear);
+    // 2年目の税引前の運用収益は期首資産の3%
+    const { investmentReturn, capitalGainsTax } = lastRun.years[1];
+    expect(investmentReturn + capitalGainsTax).toBeCloseTo(lastRun.years[0].assets * 0.03, 0);
+  });
+});
@@ -0,0 +1,73 @@
+import type { Parameters } from '@/store/simulator';
+import { HISTORICAL_DATA, type HistoricalYear } from '@/data/historicalReturns';
+import {
+  simulate,
+  getSimulationYears,
+  type SimulationPlan,
+  type CashFlowOverrides,
+  type SimulationYear,
+} from '@/lib/simulation';
+import { isPlanSuccessful } from '@/lib/monteCarlo';
+
+export interface BacktestRun {
+  // プランの初年度に当てはめた過去データの開始年
+  historicalStartYear: number;
+  // 過去データを当てはめた年数（データの最終年より後は前提条件の運用利回り・物価上昇率で計算する）
+  historicalYears: number;
+  years: SimulationYear[];
+  finalAssets: number;
+  successful: boolean;
+}
+
+export interface BacktestResult {
+  runs: BacktestRun[];
+  worst: BacktestRun;
+  median: BacktestRun;
+  best: BacktestRun;
+  // 資産が尽きなかった開始年の割合（0〜1）
+  successRate: number;
+}
+
+// 開始年から必要な年数分を切り出す。データ末尾に達したらそこで打ち切る
+// （先頭に戻して継ぎ足すと実際には起きていない並びになるため）
+export function getHistoricalSequence(startIndex: number, length: number): HistoricalYear[] {
+  return HISTORICAL_DATA.slice(startIndex, startIndex + length);
+}
+
+// 過去データの各年を開始年として検証する。期間の途中でデータが尽きる場合、
+// 以降の年は前提条件の運用利回り・物価上昇率で計算する
+export function runHistoricalBacktest(
+  plan: SimulationPlan,
+  parameters: Parameters,
+  overrides: CashFlowOverrides = {}
+): BacktestResult {
+  const length = getSimulationYears(plan.basicInfo).length;
+
+  const runs = HISTORICAL_DATA.map((startData, startIndex): BacktestRun => {
+    const sequence = getHistoricalSequence(startIndex, length);
+    const result = simulate(plan, parameters, overrides, {
+      returnRates: Array.from(
+        { length },
+        (_, i) => sequence[i]?.[parameters.historicalIndex] ?? parameters.investmentReturn
+      ),
+      inflationRates: Array.from({ length }, (_, i) => sequence[i]?.inflation ?? parameters.inflationRate),
+    });
+    return {
+      historicalStartYear: startData.year,
+      historicalYears: sequence.length,
+      years: result.years,
+      finalAssets: result.years[result.years.length - 1]?.assets ?? result.initialAssets,
+      successful: isPlanSuccessful(result.years),
+    };
+  });
+
+  const sorted = [...runs].sort((a, b) => a.finalAssets - b.finalAssets);
+
+  return {
+    runs,
+    worst: sorted[0],
+    median: sorted[Math.floor((sorted.length - 1) / 2)],
+    best: sorted[sorted.length - 1],
+    successRate: runs.filter(run => run.successful).length / runs.length,
+  };
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { calculateBusinessIncome, calculateBusinessTax } from '@/lib/businessIncome';
+
+describe('calculateBusinessIncome', () => {
+  it('売上から経費と青色申告特別控除を差し引く', () => {
+    expect(calculateBusinessIncome(1000, { expenseRate: 30, blueReturnDeduction: 65, businessTaxRate: 5 })).toEqual({
+      expenses: 300,
+      incomeBeforeBlueReturn: 700,
+      blueReturnDeduction: 65,
+      businessIncome: 635,
+    });
+  });
+
+  it('青色申告特別控除は所得を限度とする', () => {
+    const result = calculateBusinessIncome(50, { expenseRate: 0, blueReturnDeduction: 65, businessTaxRate: 5 });
+    expect(result.blueReturnDeduction).toBe(50);
+    expect(result.businessIncome).toBe(0);
+  });
+});
+
+describe('calculateBusinessTax', () => {
+  it('事業主控除290万円を超える所得に税率をかける', () => {
+    expect(calculateBusinessTax(700, 5)).toBe(20.5);
+    expect(calculateBusinessTax(200, 5)).toBe(0);
+  });
+});
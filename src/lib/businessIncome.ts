@@ -0,0 +1,66 @@
+// 自営業・フリーランスの事業所得と個人事業税（金額は万円）
+
+export interface BusinessIncomeInfo {
+  // 売上に対する必要経費の割合（%）
+  expenseRate: number;
+  // 青色申告特別控除（65・55・10万円、白色申告は0）
+  blueReturnDeduction: number;
+  // 個人事業税の税率（%、業種により5・4・3%、非課税業種は0）
+  businessTaxRate: number;
+}
+
+export const BLUE_RETURN_DEDUCTION_OPTIONS: { value: number; label: string }[] = [
+  { value: 65, label: '青色申告（65万円・電子申告）' },
+  { value: 55, label: '青色申告（55万円）' },
+  { value: 10, label: '青色申告（10万円・簡易帳簿）' },
+  { value: 0, label: '白色申告' },
+];
+
+export const BUSINESS_TAX_RATE_OPTIONS: { value: number; label: string }[] = [
+  { value: 5, label: '5%（第1種・第3種の多くの業種）' },
+  { value: 4, label: '4%（第2種：畜産業・水産業など）' },
+  { value: 3, label: '3%（あん摩・はり・きゅうなど）' },
+  { value: 0, label: '非課税（文筆業・プログラマーなど法定業種以外）' },
+];
+
+// 事業主控除（個人事業税）
+export const BUSINESS_OWNER_DEDUCTION = 290;
+
+// 配偶者など事業の詳細が未入力の場合（経費なし・白色申告）
+export const DEFAULT_BUSINESS_INCOME_INFO: BusinessIncomeInfo = {
+  expenseRate: 0,
+  blueReturnDeduction: 0,
+  businessTaxRate: 5,
+};
+
+function round(value: number): number {
+  return Number(value.toFixed(1));
+}
+
+// 売上から経費と青色申告特別控除を差し引いた事業所得
+export function calculateBusinessIncome(
+  revenue: number,
+  info: BusinessIncomeInfo = DEFAULT_BUSINESS_INCOME_INFO
+): {
+  expenses: number;
+  // 青色申告特別控除前の所得（個人事業税の課税標準）
+  incomeBeforeBlueReturn: number;
+  blueReturnDeduction: number;
+  businessIncome: number;
+} {
+  const expenses = round(Math.max(0, revenue) * (info.expenseRate / 100));
+  const incomeBeforeBlueReturn = round(Math.max(0, revenue - expenses));
+  // 青色申告特別控除は所得を限度とする
+  const blueReturnDeduction = Math.min(info.blueReturnDeduction, incomeBeforeBlueReturn);
+  return {
+    expenses,
+    incomeBeforeBlueReturn,
+    blueReturnDeduction,
+    businessIncome: round(incomeBeforeBlueReturn - blueReturnDeduction),
+  };
+}
+
+// 個人事業税（青色申告特別控除は適用されず、事業主控除290万円を差し引く）
+export function calculateBusinessTax(incomeBeforeBlueReturn: number, businessTaxRate: number): number {
+  return round(Math.max(0, incomeBeforeBlueReturn - BUSINESS_OWNER_DEDUCTION) * (businessTaxRate / 100));
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculatePension,
+  calculatePublicPensionDeduction,
+  comparePensionClaimingAges,
+  getPensionAdjustmentRate,
+} from '@/lib/calculations';
+
+describe('getPensionAdjustmentRate', () => {
+  it('繰上げは月0.4%の減額、繰下げは月0.7%の増額で、60〜75歳の範囲に収める', () => {
+    expect(getPensionAdjustmentRate(65)).toBe(0);
+    expect(getPensionAdjustmentRate(60)).toBeCloseTo(-0.24);
+    expect(getPensionAdjustmentRate(70)).toBeCloseTo(0.42);
+    expect(getPensionAdjustmentRate(80)).toBeCloseTo(0.84);
+  });
+});
+
+describe('calculatePension', () => {
+  it('国民年金のみの場合も受給開始年齢で増減する', () => {
+    expect(calculatePension(0, 22, 60, 65, 'self_employed')).toBe(76.8);
+    expect(calculatePension(0, 22, 60, 70, 'self_employed')).toBe(109.1);
+  });
+});
+
+describe('comparePensionClaimingAges', () => {
+  it('65歳開始と累計受給額が並ぶ年齢を求める', () => {
+    const [early, standard, deferred] = comparePensionClaimingAges(100, [60, 65, 70], [80]);
+    expect(early).toMatchObject({ annualPension: 76, breakEvenAge: 79.8, cumulative: { 80: 1596 } });
+    expect(standard).toMatchObject({ annualPension: 100, breakEvenAge: undefined, cumulative: { 80: 1600 } });
+    expect(deferred).toMatchObject({ annualPension: 142, breakEvenAge: 80.9, cumulative: { 80: 1562 } });
+  });
+});
+
+describe('calculatePublicPensionDeduction', () => {
+  it('65歳以上は最低110万円、65歳未満は最低60万円を控除し、収入を超えない', () => {
+    expect(calculatePublicPensionDeduction(200, 70)).toBe(110);
+    expect(calculatePublicPensionDeduction(200, 63)).toBe(77.5);
+    expect(calculatePublicPensionDeduction(100, 70)).toBe(100);
+  });
+
+  it('年金以外の所得が1,000万円を超えると減額する', () => {
+    expect(calculatePublicPensionDeduction(500, 70)).toBe(143.5);
+    expect(calculatePublicPensionDeduction(500, 70, 1500)).toBe(133.5);
+  });
+});
@@ -1,3 +1,27 @@
+import {
+  calculateIncomeDeductions,
+  EMPTY_DEDUCTION_BREAKDOWN,
+  type DeductionBreakdown,
+  type IncomeDeductionInputs,
+} from '@/lib/deductions';
+import {
+  calculateSocialInsurance,
+  calculateNationalInsurance,
+  type SocialInsuranceBreakdown,
+  type SocialInsuranceRates,
+  type NationalHealthInsuranceRates,
+} from '@/lib/socialInsurance';
+import {
+  calculateBusinessIncome,
+  calculateBusinessTax,
+  DEFAULT_BUSINESS_INCOME_INFO,
+  type BusinessIncomeInfo,
+} from '@/lib/businessIncome';
+import { buildMortgageSchedule, getMortgageLoan, type MortgageScheduleYear } from '@/lib/mortgage';
+import type { MortgageTaxCreditInput } from '@/lib/mortgageTaxCredit';
+import { calculateOwnershipCosts } from '@/lib/ownershipCosts';
+import type { CareerSegment, HousingPhase } from '@/store/simulator';
+
 // Tax calculation utilities
 export function calculateSalaryDeduction(annualIncome: number): number {
   // Convert from 万円 to actual yen for calculation
@@ -12,6 +36,29 @@ export function calculateSalaryDeduction(annualIncome: number): number {
   return 195;
 }
 
+// 公的年金等控除（公的年金等以外の合計所得金額が1,000万円以下の場合の表、万円）
+const PUBLIC_PENSION_DEDUCTION_TABLE: { upTo: number; rate: number; base: number }[] = [
+  { upTo: 410, rate: 0.25, base: 27.5 },
+  { upTo: 770, rate: 0.15, base: 68.5 },
+  { upTo: 1000, rate: 0.05, base: 145.5 },
+  { upTo: Infinity, rate: 0, base: 195.5 },
+];
+
+export function calculatePublicPensionDeduction(
+  pensionIncome: number, // 公的年金等の収入金額 in 万円
+  age: number,
+  otherIncome: number = 0 // 公的年金等以外の合計所得金額
+): number {
+  if (pensionIncome <= 0) return 0;
+  // 最低保障額は65歳未満60万円、65歳以上110万円
+  const minimum = age >= 65 ? 110 : 60;
+  const row = PUBLIC_PENSION_DEDUCTION_TABLE.find(r => pensionIncome <= r.upTo)!;
+  // 年金以外の所得が1,000万円超で10万円、2,000万円超で20万円減額
+  const reduction = otherIncome > 2000 ? 20 : otherIncome > 1000 ? 10 : 0;
+  const deduction = Math.max(minimum, pensionIncome * row.rate + row.base) - reduction;
+  return Math.min(pensionIncome, deduction);
+}
+
 export function calculateIncomeTax(taxableIncome: number): number {
   // Convert from 万円 to actual yen for calculation
   const taxableIncomeInYen = taxableIncome * 10000;
@@ -35,11 +82,6 @@ export function calculateIncomeTax(taxableIncome: number): number {
   return Math.floor(taxInYen / 10000);
 }
 
-export function calculateSocialInsuranceRate(annualIncome: number): number {
-  // 年収850万円未満は15%、以上は7.7%
-  return annualIncome < 850 ? 0.15 : 0.077;
-}
-
 // Housing cost calculation utilities
 export function calculateMonthlyMortgage(
   loanAmount: number,
@@ -61,173 +103,350 @@ export function calculateMonthlyMortgage(
 }
 
 export function calculateHousingExpense(
-  housingInfo: {
-    type: 'rent' | 'own';
-    rent?: {
-      monthlyRent: number;
-      annualIncreaseRate: number;
-    };
-    own?: {
-      purchaseYear: number;
-      purchasePrice: number;
-      loanAmount: number;
-      interestRate: number;
-      loanTermYears: number;
-      maintenanceCostRate: number;
-    };
-  },
-  currentYear: number
+  housingInfo: Pick<HousingPhase, 'type' | 'rent' | 'own'>,
+  currentYear: number,
+  // 返済予定表（省略時は借入条件から作成する）
+  mortgageSchedule?: MortgageScheduleYear[],
+  // 家賃の上昇の起点となる入居年（省略時は今年）
+  rentStartYear: number = new Date().getFullYear()
 ): number {
   if (housingInfo.type === 'rent' && housingInfo.rent) {
-    const yearsSinceStart = currentYear - new Date().getFullYear();
+    const yearsSinceStart = currentYear - rentStartYear;
     const annualRent = housingInfo.rent.monthlyRent * 12;
     return Number((annualRent * Math.pow(1 + housingInfo.rent.annualIncreaseRate / 100, yearsSinceStart)).toFixed(1));
   } else if (housingInfo.type === 'own' && housingInfo.own) {
-    const monthlyMortgage = calculateMonthlyMortgage(
-      housingInfo.own.loanAmount,
-      housingInfo.own.interestRate,
-      housingInfo.own.loanTermYears
-    );
-    const annualMortgage = monthlyMortgage * 12;
-    const maintenanceCost = housingInfo.own.purchasePrice * (housingInfo.own.maintenanceCostRate / 100);
+    // 固定資産税、管理費・修繕積立金、大規模修繕と維持費
+    const ownershipCosts = calculateOwnershipCosts(housingInfo.own, currentYear);
     
     if (currentYear < housingInfo.own.purchaseYear) {
       return 0;
     }
     
-    const loanEndYear = housingInfo.own.purchaseYear + housingInfo.own.loanTermYears;
-    if (currentYear >= loanEndYear) {
-      return maintenanceCost;
-    }
+    // 返済予定表の年間返済額と繰上返済額
+    const schedule = mortgageSchedule ?? buildMortgageSchedule(getMortgageLoan(housingInfo.own));
+    const scheduleYear = schedule.find(row => row.year === currentYear);
+    const mortgagePayment = scheduleYear ? scheduleYear.payment + scheduleYear.prepayment : 0;
     
-    return Number((annualMortgage + maintenanceCost).toFixed(1));
+    return Number((mortgagePayment + ownershipCosts.total).toFixed(1));
   }
   
   return 0;
 }
 
 // Pension calculation utilities
-export function calculatePension(
+export const PENSION_STANDARD_START_AGE = 65;
+export const PENSION_MIN_START_AGE = 60;
+export const PENSION_MAX_START_AGE = 75;
+
+// 繰上げは1か月あたり0.4%減額（最大24%）、繰下げは0.7%増額（最大84%）
+export function getPensionAdjustmentRate(pensionStartAge: number): number {
+  const startAge = Math.min(Math.max(pensionStartAge, PENSION_MIN_START_AGE), PENSION_MAX_START_AGE);
+  const months = (startAge - PENSION_STANDARD_START_AGE) * 12;
+  return months < 0 ? months * 0.004 : months * 0.007;
+}
+
+// 65歳開始の年金額の内訳（万円/年）と厚生年金の加入年数
+export interface PensionComponents {
+  basic: number;
+  welfare: number;
+  welfareYears: number;
+}
+
+// Basic pension amount (老齢基礎年金) - Fixed at 768,000 yen per year
+const BASIC_PENSION_YEARLY = 768_000;
+// 老齢基礎年金の満額に必要な納付月数（20歳から59歳まで）
+const FULL_PENSION_MONTHS = 480;
+// Standard salary cap (in yen) and fixed coefficient for the proportional pension
+const WELFARE_PENSION_SALARY_CAP = 1_300_000;
+const WELFARE_PENSION_COEFFICIENT = 0.217;
+
+// Only company employees and part-time workers with pension get welfare pension
+function hasWelfarePension(occupation: string): boolean {
+  return occupation === 'company_employee' || occupation === 'part_time_with_pension';
+}
+
+// 報酬比例部分の年額（万円）。annualIncome を平均標準報酬額とみなす
+function calculateWelfarePension(annualIncome: number, months: number): number {
+  // Calculate standard salary (capped at 1.3M yen)
+  const standardSalary = Math.min((annualIncome * 10000) / 12, WELFARE_PENSION_SALARY_CAP);
+  // Calculate annual proportional pension (厚生年金)
+  return standardSalary * (months / FULL_PENSION_MONTHS) * WELFARE_PENSION_COEFFICIENT * 12 / 10000;
+}
+
+export function calculatePensionComponents(
   annualIncome: number,
   workStartAge: number,
   workEndAge: number,
-  pensionStartAge: number = 65,
   occupation: string = 'company_employee'
-): number {
-  // For occupations without welfare pension, return fixed amount
-  if (occupation === 'part_time_without_pension' || 
-      occupation === 'self_employed' || 
-      occupation === 'homemaker') {
-    return 76.8; // 76.8万円/年 = 6.4万円/月
+): PensionComponents {
+  if (!hasWelfarePension(occupation)) {
+    return { basic: BASIC_PENSION_YEARLY / 10000, welfare: 0, welfareYears: 0 };
   }
 
-  // Basic pension amount (老齢基礎年金) - Fixed at 768,000 yen per year
-  const basicPensionYearly = 768_000;
+  // Calculate ratio based on working period (480 months = 40 years)
+  const workingMonths = Math.max(0, workEndAge - workStartAge) * 12;
 
-  // Only company employees and part-time workers with pension get welfare pension
-  const hasWelfarePension = occupation === 'company_employee' || occupation === 'part_time_with_pension';
+  return {
+    basic: BASIC_PENSION_YEARLY / 10000,
+    welfare: calculateWelfarePension(annualIncome, Math.min(workingMonths, FULL_PENSION_MONTHS)),
+    welfareYears: workingMonths / 12,
+  };
+}
+
+// 経歴の区間ごとの加入期間から年金額の内訳を求める。
+// 厚生年金は会社員・パート（厚生年金あり）の区間の年収（平均標準報酬額とみなす）で報酬比例部分を積み上げる。
+// 加入月数は就業期間と同じく（終了年齢 − 開始年齢）× 12 か月とする。
+// 老齢基礎年金は就業期間での計算と同じく満額とし、区間の前後や区間の間の20〜59歳も国民年金を納付済みとみなす
+export function calculateCareerPensionComponents(segments: CareerSegment[]): PensionComponents {
+  const welfareSegments = segments.filter(segment => hasWelfarePension(segment.occupation));
+  const getMonths = (segment: CareerSegment) => Math.max(0, segment.endAge - segment.startAge) * 12;
+  const welfareMonths = welfareSegments.reduce((sum, segment) => sum + getMonths(segment), 0);
+  // 加入月数の合計が40年を超える場合は各区間を按分する
+  const scale = welfareMonths > FULL_PENSION_MONTHS ? FULL_PENSION_MONTHS / welfareMonths : 1;
+  const welfare = welfareSegments.reduce(
+    (sum, segment) => sum +
+      calculateWelfarePension(segment.annualIncome, getMonths(segment) * scale),
+    0
+  );
 
-  let totalPensionYearly = basicPensionYearly;
+  return {
+    basic: BASIC_PENSION_YEARLY / 10000,
+    welfare,
+    welfareYears: welfareMonths / 12,
+  };
+}
 
-  // Calculate welfare pension (厚生年金) only for eligible occupations
-  if (hasWelfarePension) {
-    // Calculate average monthly salary (in yen)
-    const averageMonthlySalary = (annualIncome * 10000) / 12;
+// Apply early (繰上げ) or delayed (繰下げ) claiming adjustment, rounded to 1 decimal place (in 万円)
+export function applyPensionAdjustment(components: PensionComponents, pensionStartAge: number): number {
+  const adjustedTotalPensionYearly =
+    (components.basic + components.welfare) * (1 + getPensionAdjustmentRate(pensionStartAge));
+  return Number(adjustedTotalPensionYearly.toFixed(1));
+}
 
-    // Calculate standard salary (capped at 1.3M yen)
-    const standardSalary = Math.min(averageMonthlySalary, 1_300_000);
+export function calculatePension(
+  annualIncome: number,
+  workStartAge: number,
+  workEndAge: number,
+  pensionStartAge: number = 65,
+  occupation: string = 'company_employee'
+): number {
+  return applyPensionAdjustment(
+    calculatePensionComponents(annualIncome, workStartAge, workEndAge, occupation),
+    pensionStartAge
+  );
+}
 
-    // Calculate ratio based on working period
-    const workingMonths = (workEndAge - workStartAge) * 12;
-    const ratio = Math.min(workingMonths / 480, 1); // 480 months = 40 years
+export interface PensionClaimingComparison {
+  startAge: number;
+  annualPension: number;
+  // 65歳開始と累計受給額が並ぶ年齢（65歳開始自体は undefined）
+  breakEvenAge?: number;
+  // 各年齢までの累計受給額（万円）
+  cumulative: Record<number, number>;
+}
 
-    // Fixed coefficient k = 0.217
-    const k = 0.217;
+// 受給開始年齢ごとの年金額・累計受給額・65歳開始との損益分岐年齢（現在価値・税引前）
+export function comparePensionClaimingAges(
+  standardAnnualPension: number, // 65歳開始の年額 in 万円
+  startAges: number[],
+  horizonAges: number[]
+): PensionClaimingComparison[] {
+  return startAges.map((startAge) => {
+    const annualPension = Number((standardAnnualPension * (1 + getPensionAdjustmentRate(startAge))).toFixed(1));
+    const cumulative = Object.fromEntries(
+      horizonAges.map(age => [age, Number((annualPension * Math.max(0, age - startAge + 1)).toFixed(1))])
+    );
 
-    // Calculate monthly proportional pension
-    const monthlyPensionProportional = standardSalary * ratio * k;
+    // A(a)(x - a + 1) = A(65)(x - 65 + 1) を x について解く
+    let breakEvenAge: number | undefined;
+    if (startAge !== PENSION_STANDARD_START_AGE && annualPension !== standardAnnualPension) {
+      breakEvenAge = Number((
+        (annualPension * startAge - standardAnnualPension * PENSION_STANDARD_START_AGE) /
+        (annualPension - standardAnnualPension) - 1
+      ).toFixed(1));
+    }
 
-    // Calculate annual proportional pension
-    const annualPensionProportional = monthlyPensionProportional * 12;
+    return { startAge, annualPension, breakEvenAge, cumulative };
+  });
+}
 
-    // Add welfare pension to total
-    totalPensionYearly += annualPensionProportional;
-  }
+// 給与所得（年収から給与所得控除を差し引いた額）
+export function calculateEmploymentIncome(annualIncome: number): number {
+  return Math.max(0, annualIncome - calculateSalaryDeduction(annualIncome));
+}
 
-  // Calculate delayed payment adjustment
-  const delayedMonths = Math.max(0, (pensionStartAge - 65) * 12);
-  const increaseRate = Math.min(delayedMonths * 0.007, 0.42); // 0.7% per month, max 42%
-  const adjustedTotalPensionYearly = totalPensionYearly * (1 + increaseRate);
-  
-  // Convert to 万円 and round to 1 decimal place
-  return Number((adjustedTotalPensionYearly / 10000).toFixed(1));
+export interface NetIncomeOptions {
+  age?: number;
+  // 会社員の社会保険料率
+  rates?: SocialInsuranceRates;
+  // 自営業の国民健康保険料率
+  nationalHealthInsuranceRates?: NationalHealthInsuranceRates;
+  // 自営業の経費・青色申告・事業税
+  business?: BusinessIncomeInfo;
+  // 同じ年に受け取る公的年金等の収入（雑所得として合算して課税）
+  pensionIncome?: number;
+  // 住宅ローン控除（所得税から控除し、控除しきれない額は住民税から控除）
+  mortgageTaxCredit?: MortgageTaxCreditInput;
+  // 会社員の健康保険・厚生年金の保険料を納める月数（育児休業中は免除）
+  insuredMonths?: number;
 }
 
 export function calculateNetIncome(
-  annualIncome: number, // in 万円
-  occupation: string
+  annualIncome: number, // in 万円（自営業は売上）
+  occupation: string,
+  deductionInputs: IncomeDeductionInputs = {}, // iDeCo掛金・配偶者・扶養親族・保険料・医療費
+  options: NetIncomeOptions = {}
 ): { 
   netIncome: number;
   deductions: {
     salaryDeduction: number;
+    businessExpenses: number;
+    blueReturnDeduction: number;
     socialInsurance: number;
+    socialInsuranceBreakdown: SocialInsuranceBreakdown;
+    publicPensionDeduction: number;
+    idecoDeduction: number;
+    // 所得税・住民税から差し引いた住宅ローン控除の合計
+    mortgageTaxCredit: number;
     incomeTax: number;
     residentTax: number;
+    businessTax: number;
     total: number;
+    // 所得税・住民税それぞれの所得控除の内訳
+    incomeTaxDeductions: DeductionBreakdown;
+    residentTaxDeductions: DeductionBreakdown;
   };
 } {
-  // 自営業・フリーランスまたは専業主婦・夫の場合は控除なし
-  if (occupation === 'self_employed' || occupation === 'homemaker') {
+  const pensionIncome = options.pensionIncome ?? 0;
+
+  // 専業主婦・夫（年金収入なし）の場合は控除なし
+  if (occupation === 'homemaker' && pensionIncome <= 0) {
     return {
       netIncome: annualIncome,
       deductions: {
         salaryDeduction: 0,
+        businessExpenses: 0,
+        blueReturnDeduction: 0,
         socialInsurance: 0,
+        socialInsuranceBreakdown: calculateSocialInsurance(0, occupation),
+        publicPensionDeduction: 0,
+        idecoDeduction: 0,
+        mortgageTaxCredit: 0,
         incomeTax: 0,
         residentTax: 0,
-        total: 0
+        businessTax: 0,
+        total: 0,
+        incomeTaxDeductions: EMPTY_DEDUCTION_BREAKDOWN,
+        residentTaxDeductions: EMPTY_DEDUCTION_BREAKDOWN,
       }
     };
   }
 
-  // パート（厚生年金なし）の場合は社会保険料なし
-  const hasSocialInsurance = occupation === 'company_employee' || 
-                           occupation === 'part_time_with_pension';
+  const isSelfEmployed = occupation === 'self_employed';
 
   // 給与所得控除 (in 万円)
-  const salaryDeduction = calculateSalaryDeduction(annualIncome);
+  const salaryDeduction = isSelfEmployed || annualIncome <= 0 ? 0 : calculateSalaryDeduction(annualIncome);
 
-  // 社会保険料（年収に応じて変動）
-  const socialInsuranceRate = calculateSocialInsuranceRate(annualIncome);
-  const socialInsurance = hasSocialInsurance ? Math.floor(annualIncome * socialInsuranceRate) : 0;
+  // 事業所得（売上 - 経費 - 青色申告特別控除）
+  const business = isSelfEmployed ? calculateBusinessIncome(annualIncome, options.business) : undefined;
+  const businessExpenses = business?.expenses ?? 0;
+
+  // 給与所得または事業所得 (in 万円)
+  const earnedIncome = business ? business.businessIncome : calculateEmploymentIncome(annualIncome);
+
+  // 公的年金等に係る雑所得（公的年金等控除を差し引く）
+  const publicPensionDeduction = calculatePublicPensionDeduction(pensionIncome, options.age ?? 0, earnedIncome);
+  const pensionMiscIncome = Math.max(0, pensionIncome - publicPensionDeduction);
+
+  // 合計所得金額 (in 万円)
+  const totalIncome = earnedIncome + pensionMiscIncome;
+
+  // 社会保険料（会社員は標準報酬月額に基づく健康保険・介護保険・厚生年金と雇用保険、
+  // 自営業は国民健康保険と国民年金）。就労収入のない年は計上しない
+  const socialInsuranceBreakdown = isSelfEmployed && annualIncome > 0
+    ? calculateNationalInsurance(totalIncome, options.age, options.nationalHealthInsuranceRates)
+    : calculateSocialInsurance(
+        isSelfEmployed ? 0 : annualIncome,
+        occupation,
+        options.age,
+        options.rates,
+        options.insuredMonths
+      );
+  const socialInsurance = socialInsuranceBreakdown.total;
+
+  // 所得控除（社会保険料・iDeCo・基礎・配偶者・扶養・生命保険料・医療費）
+  const itemized = calculateIncomeDeductions(totalIncome, socialInsurance, deductionInputs);
+  const idecoDeduction = itemized.incomeTax.ideco;
 
   // 課税所得 (in 万円)
-  const taxableIncome = Math.max(0, annualIncome - (salaryDeduction + socialInsurance));
+  const taxableIncome = Math.max(0, totalIncome - itemized.incomeTax.total);
+  const residentTaxableIncome = Math.max(0, totalIncome - itemized.residentTax.total);
+
+  // 住宅ローン控除（合計所得金額が上限以下の場合）
+  const credit = options.mortgageTaxCredit && totalIncome <= options.mortgageTaxCredit.incomeLimit
+    ? options.mortgageTaxCredit
+    : undefined;
 
   // 所得税 (in 万円)
-  const incomeTax = calculateIncomeTax(taxableIncome);
+  const incomeTaxBeforeCredit = calculateIncomeTax(taxableIncome);
+  const incomeTaxCredit = credit ? Math.min(incomeTaxBeforeCredit, credit.amount) : 0;
+  const incomeTax = Number((incomeTaxBeforeCredit - incomeTaxCredit).toFixed(1));
+
+  // 住民税（課税所得の10%）。所得税から控除しきれなかった住宅ローン控除を上限まで差し引く
+  const residentTaxBeforeCredit = Math.floor(residentTaxableIncome * 0.10);
+  const residentTaxCredit = credit
+    ? Math.min(
+        residentTaxBeforeCredit,
+        credit.amount - incomeTaxCredit,
+        taxableIncome * (credit.residentTaxRate / 100),
+        credit.residentTaxCap
+      )
+    : 0;
+  const residentTax = Number((residentTaxBeforeCredit - residentTaxCredit).toFixed(1));
 
-  // 住民税（課税所得の10%）
-  const residentTax = Math.floor(taxableIncome * 0.10);
+  // 個人事業税
+  const businessTax = business
+    ? calculateBusinessTax(business.incomeBeforeBlueReturn, (options.business ?? DEFAULT_BUSINESS_INCOME_INFO).businessTaxRate)
+    : 0;
 
   // 総控除額 (in 万円)
-  const totalDeductions = socialInsurance + incomeTax + residentTax;
+  const totalDeductions = Number((socialInsurance + incomeTax + residentTax + businessTax).toFixed(1));
 
-  // 手取り収入 (in 万円)
-  const netIncome = annualIncome - totalDeductions;
+  // 手取り収入（年金を含む） (in 万円)
+  const netIncome = Number((annualIncome + pensionIncome - businessExpenses - totalDeductions).toFixed(1));
 
   return {
     netIncome,
     deductions: {
       salaryDeduction,
+      businessExpenses,
+      blueReturnDeduction: business?.blueReturnDeduction ?? 0,
       socialInsurance,
+      socialInsuranceBreakdown,
+      publicPensionDeduction,
+      idecoDeduction,
+      mortgageTaxCredit: Number((incomeTaxCredit + residentTaxCredit).toFixed(1)),
       incomeTax,
       residentTax,
-      total: totalDeductions
+      businessTax,
+      total: totalDeductions,
+      incomeTaxDeductions: itemized.incomeTax,
+      residentTaxDeductions: itemized.residentTax,
     }
   };
 }
 
+export function calculateRaisedIncome(
+  baseAnnualIncome: number, // in 万円
+  raiseRate: number,
+  year: number,
+  startYear: number
+): number {
+  return Math.floor(
+    baseAnnualIncome * Math.pow(1 + raiseRate / 100, year - startYear)
+  );
+}
+
 export function calculateNetIncomeWithRaise(
   baseAnnualIncome: number, // in 万円
   occupation: string,
@@ -240,8 +459,6 @@ export function calculateNetIncomeWithRaise(
   pensionAmount?: number,
   pensionStartAge?: number
 ): number {
-  const raisedIncome = Math.floor(
-    baseAnnualIncome * Math.pow(1 + raiseRate / 100, year - startYear)
-  );
+  const raisedIncome = calculateRaisedIncome(baseAnnualIncome, raiseRate, year, startYear);
   return calculateNetIncome(raisedIncome, occupation).netIncome;
 }
\ No newline at end of file
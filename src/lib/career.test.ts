@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { calculatePensionComponents } from '@/lib/calculations';
+import { getCareerIncome, getCareerPensionComponents } from '@/lib/career';
+import type { CareerSegment } from '@/store/simulator';
+
+const segment = (changes: Partial<CareerSegment> = {}): CareerSegment => ({
+  occupation: 'company_employee',
+  startAge: 22,
+  endAge: 60,
+  annualIncome: 500,
+  raiseRate: 0,
+  severancePay: 0,
+  description: '',
+  ...changes,
+});
+
+const incomeInfo = (careerSegments: CareerSegment[]) => ({
+  annualIncome: 500,
+  raiseRate: 0,
+  severancePay: 0,
+  workStartAge: 22,
+  workEndAge: 60,
+  careerSegments,
+});
+
+describe('getCareerIncome', () => {
+  it('区間の開始（始まっている区間は現在の年齢）から昇給させる', () => {
+    expect(getCareerIncome(segment({ raiseRate: 10, startAge: 40 }), 42, 30)).toBe(605);
+    expect(getCareerIncome(segment({ raiseRate: 10 }), 31, 30)).toBe(550);
+  });
+});
+
+describe('getCareerPensionComponents', () => {
+  const basicInfo = { occupation: 'company_employee' as const, currentAge: 30 };
+
+  it('就業期間と同じ1つの区間なら従来の計算と一致する', () => {
+    const components = getCareerPensionComponents(basicInfo, incomeInfo([segment()]));
+    expect(components).toEqual(calculatePensionComponents(500, 22, 60, 'company_employee'));
+    expect(components.welfareYears).toBe(38);
+  });
+
+  it('区間の加入月数は（終了年齢 − 開始年齢）× 12 か月', () => {
+    const components = getCareerPensionComponents(basicInfo, incomeInfo([
+      segment({ endAge: 40 }),
+      segment({ occupation: 'self_employed', startAge: 40, endAge: 65 }),
+    ]));
+    expect(components.welfareYears).toBe(18);
+  });
+
+  it('昇給後の年収の平均で報酬比例部分を計算する', () => {
+    const flat = getCareerPensionComponents(basicInfo, incomeInfo([segment()]));
+    const raised = getCareerPensionComponents(basicInfo, incomeInfo([segment({ raiseRate: 2 })]));
+    expect(raised.welfare).toBeGreaterThan(flat.welfare);
+    expect(raised.basic).toBe(flat.basic);
+  });
+
+  it('経歴の区間がなくても就業期間の昇給後の年収の平均で計算する', () => {
+    const withoutSegments = getCareerPensionComponents(basicInfo, { ...incomeInfo([]), raiseRate: 2 });
+    const withSegment = getCareerPensionComponents(basicInfo, incomeInfo([segment({ raiseRate: 2 })]));
+    expect(withoutSegments).toEqual(withSegment);
+  });
+
+  it('区間の間の年も国民年金を納付済みとみなし、老齢基礎年金は満額', () => {
+    const components = getCareerPensionComponents(basicInfo, incomeInfo([
+      segment({ endAge: 30 }),
+      segment({ startAge: 35 }),
+    ]));
+    expect(components.basic).toBe(calculatePensionComponents(500, 22, 60, 'company_employee').basic);
+    expect(components.welfareYears).toBe(33);
+  });
+});
@@ -0,0 +1,98 @@
+import type { BasicInfo, CareerSegment, IncomeInfo } from '@/store/simulator';
+import {
+  applyPensionAdjustment,
+  calculateCareerPensionComponents,
+  type PensionComponents,
+} from '@/lib/calculations';
+
+// 本人の経歴（転職・独立・休職などの区間）から、各年齢の職業と年収、退職金、年金の加入記録を求める
+
+type CareerIncomeInfo = Pick<
+  IncomeInfo,
+  'annualIncome' | 'raiseRate' | 'severancePay' | 'workStartAge' | 'workEndAge' | 'careerSegments'
+>;
+
+// 経歴の区間（未入力の場合は年収・就業期間と基本情報の職業から1つの区間を作る）を開始年齢順に並べる
+export function getCareerSegments(
+  basicInfo: Pick<BasicInfo, 'occupation'>,
+  incomeInfo: CareerIncomeInfo
+): CareerSegment[] {
+  if (incomeInfo.careerSegments.length === 0) {
+    return [{
+      occupation: basicInfo.occupation,
+      startAge: incomeInfo.workStartAge,
+      endAge: incomeInfo.workEndAge,
+      annualIncome: incomeInfo.annualIncome,
+      raiseRate: incomeInfo.raiseRate,
+      severancePay: incomeInfo.severancePay,
+      description: '',
+    }];
+  }
+  return [...incomeInfo.careerSegments].sort((a, b) => a.startAge - b.startAge);
+}
+
+// 指定の年齢で働いている区間（区間の間の年は undefined）
+export function getCareerSegment(segments: CareerSegment[], age: number): CareerSegment | undefined {
+  return segments.find(segment => age >= segment.startAge && age <= segment.endAge);
+}
+
+// 指定の年齢の職業（区間の間や引退後は基本情報の職業）
+export function getCareerOccupation(
+  basicInfo: Pick<BasicInfo, 'occupation'>,
+  segments: CareerSegment[],
+  age: number
+): string {
+  return getCareerSegment(segments, age)?.occupation ?? basicInfo.occupation;
+}
+
+// 指定の年齢までに始まった最後の区間（退職後や区間の間の年は直前の区間）
+export function getLatestCareerSegment(segments: CareerSegment[], age: number): CareerSegment | undefined {
+  return segments.filter(segment => segment.startAge <= age).at(-1);
+}
+
+// 区間の年収に、区間の開始（すでに始まっている区間は現在の年齢）からの昇給を反映した額
+export function getCareerIncome(segment: CareerSegment, age: number, currentAge: number): number {
+  const years = age - Math.max(segment.startAge, currentAge);
+  return Math.floor(segment.annualIncome * Math.pow(1 + segment.raiseRate / 100, years));
+}
+
+// 区間の加入期間（開始年齢から終了年齢の前年まで）の、昇給を反映した年収の平均
+function getAverageCareerIncome(segment: CareerSegment, currentAge: number): number {
+  const years = segment.endAge - segment.startAge;
+  if (years <= 0) {
+    return segment.annualIncome;
+  }
+  let total = 0;
+  for (let age = segment.startAge; age < segment.endAge; age++) {
+    total += getCareerIncome(segment, age, currentAge);
+  }
+  return total / years;
+}
+
+// 最後の区間の終了年齢（引退の年齢）
+export function getCareerEndAge(segments: CareerSegment[]): number {
+  return Math.max(...segments.map(segment => segment.endAge));
+}
+
+// 本人の年金の加入記録。経歴の区間（未入力の場合は就業期間の1つの区間）ごとに、
+// 昇給後の年収の平均を平均標準報酬額とみなす
+export function getCareerPensionComponents(
+  basicInfo: Pick<BasicInfo, 'occupation' | 'currentAge'>,
+  incomeInfo: CareerIncomeInfo
+): PensionComponents {
+  return calculateCareerPensionComponents(
+    getCareerSegments(basicInfo, incomeInfo).map(segment => ({
+      ...segment,
+      annualIncome: getAverageCareerIncome(segment, basicInfo.currentAge),
+    }))
+  );
+}
+
+// 本人の老齢年金の年額（受給開始年齢の繰上げ・繰下げを反映、万円）
+export function calculateCareerPension(
+  basicInfo: Pick<BasicInfo, 'occupation' | 'currentAge'>,
+  incomeInfo: CareerIncomeInfo,
+  pensionStartAge: number
+): number {
+  return applyPensionAdjustment(getCareerPensionComponents(basicInfo, incomeInfo), pensionStartAge);
+}
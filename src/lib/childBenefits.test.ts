@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { calculateChildAllowance, calculateSchoolSupport } from '@/lib/childBenefits';
+
+describe('calculateChildAllowance', () => {
+  it('3歳未満は月1.5万円、第3子以降は月3万円', () => {
+    // 年長の子から数えて10歳（第1子）、5歳（第2子）、1歳（第3子）
+    expect(calculateChildAllowance([1, 5, 10])).toBe((1 + 1 + 3) * 12);
+  });
+
+  it('18歳以上の子は支給対象外だが、22歳までは第3子の数え方に含める', () => {
+    expect(calculateChildAllowance([20, 16, 2])).toBe((1 + 3) * 12);
+    expect(calculateChildAllowance([23, 16, 2])).toBe((1 + 1.5) * 12);
+  });
+});
+
+describe('calculateSchoolSupport', () => {
+  it('私立高校の加算は所得の判定基準で変わる', () => {
+    expect(calculateSchoolSupport('highSchool', true, 250, 20)).toBe(39.6);
+    expect(calculateSchoolSupport('highSchool', true, 250, 40)).toBe(11.88);
+    expect(calculateSchoolSupport('highSchool', true, 250, 60)).toBe(0);
+  });
+
+  it('0〜2歳の保育料は住民税非課税世帯だけが無償', () => {
+    expect(calculateSchoolSupport('nursery', false, 23.3, 0)).toBe(23.3);
+    expect(calculateSchoolSupport('nursery', false, 23.3, 10)).toBe(0);
+  });
+});
@@ -0,0 +1,67 @@
+import type { SchoolStage } from '@/data/educationCosts';
+
+// 子どもに関する公的給付（児童手当、出産育児一時金、幼児教育・保育の無償化、高等学校等就学支援金、金額は万円）
+
+// 児童手当（令和6年10月分以降、月額）。所得制限なし、高校生年代（18歳未満）まで
+const CHILD_ALLOWANCE_MONTHLY_UNDER_3 = 1.5;
+const CHILD_ALLOWANCE_MONTHLY = 1;
+const CHILD_ALLOWANCE_MONTHLY_THIRD_CHILD = 3;
+const CHILD_ALLOWANCE_END_AGE = 18;
+// 第3子以降の数え方の対象（22歳年度末までの子を年長の子から数える）
+const CHILD_ALLOWANCE_COUNT_END_AGE = 22;
+
+// 出産育児一時金（令和5年4月以降）
+export const CHILDBIRTH_LUMP_SUM = 50;
+
+// 幼児教育・保育の無償化：3〜5歳は幼稚園・保育所の利用料が無償（新制度に移行していない幼稚園は月2.57万円まで）、
+// 0〜2歳は住民税非課税世帯のみ無償
+const PRESCHOOL_FREE_MONTHLY_CAP = 2.57;
+
+// 高等学校等就学支援金（年額）。判定基準額（市町村民税の課税標準額×6%−調整控除額）が
+// 30.42万円未満なら公立高校の授業料相当、15.45万円未満なら私立高校は加算して39.6万円まで
+const HIGH_SCHOOL_SUPPORT = 11.88;
+const HIGH_SCHOOL_PRIVATE_SUPPORT = 39.6;
+const HIGH_SCHOOL_SUPPORT_THRESHOLD = 30.42;
+const HIGH_SCHOOL_PRIVATE_SUPPORT_THRESHOLD = 15.45;
+// 住民税の所得割（10%）のうち市町村民税（6%）の割合
+const MUNICIPAL_RESIDENT_TAX_SHARE = 0.6;
+
+// その年の子どもの年齢（生まれる前の子は含まない）から、世帯の児童手当の年額
+export function calculateChildAllowance(childAges: number[]): number {
+  const countedAges = childAges
+    .filter(age => age >= 0 && age < CHILD_ALLOWANCE_COUNT_END_AGE)
+    .sort((a, b) => b - a);
+  return countedAges.reduce((sum, age, index) => {
+    if (age >= CHILD_ALLOWANCE_END_AGE) {
+      return sum;
+    }
+    const monthly = index >= 2
+      ? CHILD_ALLOWANCE_MONTHLY_THIRD_CHILD
+      : age < 3 ? CHILD_ALLOWANCE_MONTHLY_UNDER_3 : CHILD_ALLOWANCE_MONTHLY;
+    return sum + monthly * 12;
+  }, 0);
+}
+
+// 保育所〜高校の公的支援による1年分の負担軽減額（学校教育費 schoolCost を上限）。
+// householdResidentTax はその年に納める世帯の住民税（前年の所得に対する所得割、住宅ローン控除後の簡易判定）
+export function calculateSchoolSupport(
+  stage: SchoolStage,
+  isPrivate: boolean,
+  schoolCost: number,
+  householdResidentTax: number
+): number {
+  const municipalTax = householdResidentTax * MUNICIPAL_RESIDENT_TAX_SHARE;
+  let support = 0;
+  if (stage === 'nursery') {
+    support = householdResidentTax <= 0 ? schoolCost : 0;
+  } else if (stage === 'preschool') {
+    support = PRESCHOOL_FREE_MONTHLY_CAP * 12;
+  } else if (stage === 'highSchool') {
+    if (isPrivate && municipalTax < HIGH_SCHOOL_PRIVATE_SUPPORT_THRESHOLD) {
+      support = HIGH_SCHOOL_PRIVATE_SUPPORT;
+    } else if (municipalTax < HIGH_SCHOOL_SUPPORT_THRESHOLD) {
+      support = HIGH_SCHOOL_SUPPORT;
+    }
+  }
+  return Math.min(schoolCost, support);
+}
@@ -0,0 +1,67 @@
+import type { BasicInfo } from '@/store/simulator';
+import type { EducationCostTable } from '@/data/educationCosts';
+import {
+  CHILD_REARING_COST_AGES,
+  type ChildRearingCosts,
+} from '@/data/childRearingCosts';
+import { CHILDBIRTH_LUMP_SUM, calculateChildAllowance } from '@/lib/childBenefits';
+import { getHigherEducation, listChildren } from '@/lib/education';
+
+// 教育費以外の子育ての収支（児童手当、出産費用と出産育児一時金、養育費、金額は万円）
+
+export interface ChildRearingYear {
+  childAllowance: number;
+  // その年に生まれる出生予定の子の人数と、1人あたりの出産費用・出産育児一時金
+  births: number;
+  birthCostPerChild: number;
+  birthLumpSumPerChild: number;
+  // 出産費用と養育費の合計
+  expense: number;
+  // 児童手当と出産育児一時金の合計
+  income: number;
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(1));
+}
+
+function getRearingCost(costs: ChildRearingCosts, age: number): number {
+  const band = (Object.keys(CHILD_REARING_COST_AGES) as (keyof typeof CHILD_REARING_COST_AGES)[])
+    .find(band => age >= CHILD_REARING_COST_AGES[band][0] && age <= CHILD_REARING_COST_AGES[band][1]);
+  return band ? costs[band] : 0;
+}
+
+// years の各年の子育ての収支。inflationMultipliers は各年の物価の倍率（出産費用・養育費に反映）
+export function projectChildRearing(
+  basicInfo: Pick<BasicInfo, 'children' | 'plannedChildren' | 'startYear'>,
+  costs: ChildRearingCosts,
+  educationCosts: EducationCostTable,
+  years: number[],
+  inflationMultipliers: number[]
+): ChildRearingYear[] {
+  const children = listChildren(basicInfo);
+  return years.map((year, index): ChildRearingYear => {
+    const yearsSinceStart = year - basicInfo.startYear;
+    const ages = children.map(child => child.ageAtStart + yearsSinceStart);
+    // すでに生まれている子（開始年に0歳の子を含む）の出産費用は計上しない
+    const births = basicInfo.plannedChildren.filter(child => child.yearsFromNow === yearsSinceStart).length;
+    const birthCostPerChild = round(costs.birthCost * inflationMultipliers[index]);
+    // 自宅外から通学している間の生活費は仕送りに含まれる
+    const rearing = children.reduce((sum, child, childIndex) => {
+      const age = ages[childIndex];
+      if (age < 0 || (child.educationPlan.livingAway && getHigherEducation(child.educationPlan, age, educationCosts))) {
+        return sum;
+      }
+      return sum + getRearingCost(costs, age) * inflationMultipliers[index];
+    }, 0);
+    const childAllowance = calculateChildAllowance(ages);
+    return {
+      childAllowance: round(childAllowance),
+      births,
+      birthCostPerChild,
+      birthLumpSumPerChild: CHILDBIRTH_LUMP_SUM,
+      expense: round(rearing + birthCostPerChild * births),
+      income: round(childAllowance + CHILDBIRTH_LUMP_SUM * births),
+    };
+  });
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateBasicDeduction,
+  calculateDependentDeduction,
+  calculateIncomeDeductions,
+  calculateLifeInsuranceDeduction,
+  calculateMedicalDeduction,
+  calculateSpouseDeduction,
+} from '@/lib/deductions';
+
+describe('calculateBasicDeduction', () => {
+  it('合計所得2,400万円超で段階的に減り、2,500万円超で0になる', () => {
+    expect(calculateBasicDeduction(2400)).toEqual({ incomeTax: 48, residentTax: 43 });
+    expect(calculateBasicDeduction(2500)).toEqual({ incomeTax: 16, residentTax: 15 });
+    expect(calculateBasicDeduction(2600)).toEqual({ incomeTax: 0, residentTax: 0 });
+  });
+});
+
+describe('calculateSpouseDeduction', () => {
+  it('配偶者の所得48万円以下は配偶者控除（70歳以上は老人控除対象配偶者）', () => {
+    expect(calculateSpouseDeduction(500, { totalIncome: 0, age: 40 })).toEqual({ incomeTax: 38, residentTax: 33 });
+    expect(calculateSpouseDeduction(500, { totalIncome: 0, age: 70 })).toEqual({ incomeTax: 48, residentTax: 38 });
+  });
+
+  it('配偶者特別控除は納税者の所得に応じて逓減する', () => {
+    expect(calculateSpouseDeduction(960, { totalIncome: 100, age: 40 })).toEqual({ incomeTax: 12, residentTax: 11 });
+  });
+
+  it('納税者の所得1,000万円超や配偶者の所得133万円超は対象外', () => {
+    expect(calculateSpouseDeduction(1100, { totalIncome: 0, age: 40 })).toEqual({ incomeTax: 0, residentTax: 0 });
+    expect(calculateSpouseDeduction(500, { totalIncome: 140, age: 40 })).toEqual({ incomeTax: 0, residentTax: 0 });
+  });
+});
+
+describe('calculateDependentDeduction', () => {
+  it('16歳未満は対象外、19〜22歳は特定扶養親族、70歳以上は老人扶養親族', () => {
+    expect(calculateDependentDeduction([10, 17, 20, 75])).toEqual({ incomeTax: 149, residentTax: 116 });
+  });
+});
+
+describe('calculateLifeInsuranceDeduction', () => {
+  it('区分ごとに計算し、合計の上限を適用する', () => {
+    expect(calculateLifeInsuranceDeduction({ general: 2, medical: 0, pension: 0 }))
+      .toEqual({ incomeTax: 2, residentTax: 1.6 });
+    expect(calculateLifeInsuranceDeduction({ general: 8, medical: 8, pension: 8 }))
+      .toEqual({ incomeTax: 12, residentTax: 7 });
+  });
+});
+
+describe('calculateMedicalDeduction', () => {
+  it('10万円と所得の5%の低い方を超える部分を控除する', () => {
+    expect(calculateMedicalDeduction(100, 15)).toBe(10);
+    expect(calculateMedicalDeduction(500, 15)).toBe(5);
+    expect(calculateMedicalDeduction(500, 5)).toBe(0);
+  });
+});
+
+describe('calculateIncomeDeductions', () => {
+  it('所得税と住民税で基礎控除の額が異なる', () => {
+    const result = calculateIncomeDeductions(500, 70, { idecoContribution: 27.6 });
+    expect(result.incomeTax.total).toBe(145.6);
+    expect(result.residentTax.total).toBe(140.6);
+  });
+});
@@ -0,0 +1,183 @@
+// 所得控除の計算（令和2年〜令和6年分の制度に基づく、金額は万円）
+
+export interface LifeInsurancePremiums {
+  // 一般生命保険料（万円/年）
+  general: number;
+  // 介護医療保険料（万円/年）
+  medical: number;
+  // 個人年金保険料（万円/年）
+  pension: number;
+}
+
+export interface SpouseDeductionInput {
+  // 配偶者の合計所得金額（万円）
+  totalIncome: number;
+  age: number;
+}
+
+export interface IncomeDeductionInputs {
+  idecoContribution?: number;
+  spouse?: SpouseDeductionInput;
+  dependentAges?: number[];
+  lifeInsurancePremiums?: LifeInsurancePremiums;
+  medicalExpenses?: number;
+}
+
+export interface DeductionBreakdown {
+  socialInsurance: number;
+  ideco: number;
+  basic: number;
+  spouse: number;
+  dependents: number;
+  lifeInsurance: number;
+  medical: number;
+  total: number;
+}
+
+export const EMPTY_DEDUCTION_BREAKDOWN: DeductionBreakdown = {
+  socialInsurance: 0,
+  ideco: 0,
+  basic: 0,
+  spouse: 0,
+  dependents: 0,
+  lifeInsurance: 0,
+  medical: 0,
+  total: 0,
+};
+
+// 基礎控除（所得税・住民税）
+export function calculateBasicDeduction(totalIncome: number): { incomeTax: number; residentTax: number } {
+  if (totalIncome <= 2400) return { incomeTax: 48, residentTax: 43 };
+  if (totalIncome <= 2450) return { incomeTax: 32, residentTax: 29 };
+  if (totalIncome <= 2500) return { incomeTax: 16, residentTax: 15 };
+  return { incomeTax: 0, residentTax: 0 };
+}
+
+// 配偶者特別控除の表（配偶者の合計所得金額の上限ごと）
+// 列は納税者の合計所得 900万円以下 / 950万円以下 / 1,000万円以下
+const SPOUSE_SPECIAL_DEDUCTION_TABLE: { limit: number; incomeTax: number[]; residentTax: number[] }[] = [
+  { limit: 95, incomeTax: [38, 26, 13], residentTax: [33, 22, 11] },
+  { limit: 100, incomeTax: [36, 24, 12], residentTax: [33, 22, 11] },
+  { limit: 105, incomeTax: [31, 21, 11], residentTax: [31, 21, 11] },
+  { limit: 110, incomeTax: [26, 18, 9], residentTax: [26, 18, 9] },
+  { limit: 115, incomeTax: [21, 14, 7], residentTax: [21, 14, 7] },
+  { limit: 120, incomeTax: [16, 11, 6], residentTax: [16, 11, 6] },
+  { limit: 125, incomeTax: [11, 8, 4], residentTax: [11, 8, 4] },
+  { limit: 130, incomeTax: [6, 4, 2], residentTax: [6, 4, 2] },
+  { limit: 133, incomeTax: [3, 2, 1], residentTax: [3, 2, 1] },
+];
+
+// 配偶者控除・配偶者特別控除
+export function calculateSpouseDeduction(
+  totalIncome: number,
+  spouse?: SpouseDeductionInput
+): { incomeTax: number; residentTax: number } {
+  if (!spouse || totalIncome > 1000) {
+    return { incomeTax: 0, residentTax: 0 };
+  }
+
+  const column = totalIncome <= 900 ? 0 : totalIncome <= 950 ? 1 : 2;
+
+  // 配偶者控除（配偶者の所得48万円以下）
+  if (spouse.totalIncome <= 48) {
+    const isElderly = spouse.age >= 70;
+    const incomeTax = isElderly ? [48, 32, 16] : [38, 26, 13];
+    const residentTax = isElderly ? [38, 26, 13] : [33, 22, 11];
+    return { incomeTax: incomeTax[column], residentTax: residentTax[column] };
+  }
+
+  // 配偶者特別控除（配偶者の所得48万円超133万円以下）
+  const row = SPOUSE_SPECIAL_DEDUCTION_TABLE.find(r => spouse.totalIncome <= r.limit);
+  if (!row) {
+    return { incomeTax: 0, residentTax: 0 };
+  }
+  return { incomeTax: row.incomeTax[column], residentTax: row.residentTax[column] };
+}
+
+// 扶養控除（16歳未満は対象外、19〜22歳は特定扶養親族）
+export function calculateDependentDeduction(dependentAges: number[]): { incomeTax: number; residentTax: number } {
+  return dependentAges.reduce(
+    (total, age) => {
+      if (age < 16) return total;
+      if (age >= 19 && age <= 22) {
+        return { incomeTax: total.incomeTax + 63, residentTax: total.residentTax + 45 };
+      }
+      if (age >= 70) {
+        return { incomeTax: total.incomeTax + 48, residentTax: total.residentTax + 38 };
+      }
+      return { incomeTax: total.incomeTax + 38, residentTax: total.residentTax + 33 };
+    },
+    { incomeTax: 0, residentTax: 0 }
+  );
+}
+
+// 新制度の生命保険料控除（区分ごと、円で計算）
+function calculateInsuranceCategoryDeduction(premium: number): { incomeTax: number; residentTax: number } {
+  const premiumInYen = premium * 10000;
+
+  let incomeTax: number;
+  if (premiumInYen <= 20_000) incomeTax = premiumInYen;
+  else if (premiumInYen <= 40_000) incomeTax = premiumInYen / 2 + 10_000;
+  else if (premiumInYen <= 80_000) incomeTax = premiumInYen / 4 + 20_000;
+  else incomeTax = 40_000;
+
+  let residentTax: number;
+  if (premiumInYen <= 12_000) residentTax = premiumInYen;
+  else if (premiumInYen <= 32_000) residentTax = premiumInYen / 2 + 6_000;
+  else if (premiumInYen <= 56_000) residentTax = premiumInYen / 4 + 14_000;
+  else residentTax = 28_000;
+
+  return { incomeTax, residentTax };
+}
+
+// 生命保険料控除（所得税は合計12万円、住民税は合計7万円が上限）
+export function calculateLifeInsuranceDeduction(premiums?: LifeInsurancePremiums): { incomeTax: number; residentTax: number } {
+  if (!premiums) {
+    return { incomeTax: 0, residentTax: 0 };
+  }
+  const categories = [premiums.general, premiums.medical, premiums.pension].map(calculateInsuranceCategoryDeduction);
+  const incomeTaxInYen = Math.min(categories.reduce((sum, c) => sum + c.incomeTax, 0), 120_000);
+  const residentTaxInYen = Math.min(categories.reduce((sum, c) => sum + c.residentTax, 0), 70_000);
+  return {
+    incomeTax: Math.floor(incomeTaxInYen / 1000) / 10,
+    residentTax: Math.floor(residentTaxInYen / 1000) / 10,
+  };
+}
+
+// 医療費控除（10万円または所得の5%を超える部分、上限200万円）
+export function calculateMedicalDeduction(totalIncome: number, medicalExpenses: number = 0): number {
+  const threshold = Math.min(10, totalIncome * 0.05);
+  return Math.min(Math.max(0, medicalExpenses - threshold), 200);
+}
+
+// 所得税・住民税それぞれの所得控除の内訳
+export function calculateIncomeDeductions(
+  totalIncome: number,
+  socialInsurance: number,
+  inputs: IncomeDeductionInputs = {}
+): { incomeTax: DeductionBreakdown; residentTax: DeductionBreakdown } {
+  const ideco = inputs.idecoContribution ?? 0;
+  const basic = calculateBasicDeduction(totalIncome);
+  const spouse = calculateSpouseDeduction(totalIncome, inputs.spouse);
+  const dependents = calculateDependentDeduction(inputs.dependentAges ?? []);
+  const lifeInsurance = calculateLifeInsuranceDeduction(inputs.lifeInsurancePremiums);
+  const medical = calculateMedicalDeduction(totalIncome, inputs.medicalExpenses);
+
+  const build = (key: 'incomeTax' | 'residentTax'): DeductionBreakdown => {
+    const breakdown = {
+      socialInsurance,
+      ideco,
+      basic: basic[key],
+      spouse: spouse[key],
+      dependents: dependents[key],
+      lifeInsurance: lifeInsurance[key],
+      medical,
+    };
+    return {
+      ...breakdown,
+      total: Number(Object.values(breakdown).reduce((sum, value) => sum + value, 0).toFixed(1)),
+    };
+  };
+
+  return { incomeTax: build('incomeTax'), residentTax: build('residentTax') };
+}
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import { EDUCATION_COST_PRESETS } from '@/data/educationCosts';
+import {
+  calculateChildEducationCost,
+  calculateStudentLoanRepayment,
+  projectEducation,
+} from '@/lib/education';
+import type { EducationPlan } from '@/store/simulator';
+
+const costs = EDUCATION_COST_PRESETS.r3.table;
+
+const plan: EducationPlan = {
+  nursery: '行かない',
+  preschool: '公立',
+  elementary: '公立',
+  juniorHigh: '私立',
+  highSchool: '公立',
+  university: '私立大学（理系）',
+  graduateSchool: '行かない',
+  livingAway: false,
+  extraSchooling: [],
+  funding: { grants: [], studentLoans: [], insurance: [], gifts: [] },
+};
+
+describe('calculateChildEducationCost', () => {
+  it('年齢に応じた学校種別の公立・私立の年額を使う', () => {
+    expect(calculateChildEducationCost(plan, 1, costs).total).toBe(0);
+    expect(calculateChildEducationCost(plan, 8, costs).school).toBe(10.5);
+    expect(calculateChildEducationCost(plan, 13, costs).school).toBe(106.9);
+  });
+
+  it('大学は入学年だけ入学費用を加え、4年で終わる', () => {
+    expect(calculateChildEducationCost(plan, 18, costs).higherEducation).toBe(183.2 + 88.7);
+    expect(calculateChildEducationCost(plan, 21, costs).higherEducation).toBe(183.2);
+    expect(calculateChildEducationCost(plan, 22, costs).higherEducation).toBe(0);
+  });
+
+  it('大学院に進むと卒業後2年の在学費用がかかる', () => {
+    const graduate = { ...plan, graduateSchool: '公立' };
+    expect(calculateChildEducationCost(graduate, 22, costs).higherEducation).toBe(53.6 + 28.2);
+    expect(calculateChildEducationCost(graduate, 23, costs).higherEducation).toBe(53.6);
+    expect(calculateChildEducationCost(graduate, 24, costs).higherEducation).toBe(0);
+  });
+
+  it('専門学校は2年制', () => {
+    const vocational = { ...plan, university: '専門学校' };
+    expect(calculateChildEducationCost(vocational, 19, costs).higherEducation).toBe(150.4);
+    expect(calculateChildEducationCost(vocational, 20, costs).higherEducation).toBe(0);
+  });
+
+  it('自宅外通学は在学中の家賃・仕送りと、入学年の初期費用を加える', () => {
+    const livingAway = { ...plan, livingAway: true };
+    expect(calculateChildEducationCost(livingAway, 18, costs).livingAway).toBe(96 + 38.1);
+    expect(calculateChildEducationCost(livingAway, 19, costs).livingAway).toBe(96);
+    expect(calculateChildEducationCost(livingAway, 22, costs).livingAway).toBe(0);
+  });
+
+  it('塾・習い事は入力した年齢の間だけ月額の12か月分を加える', () => {
+    const withCram = {
+      ...plan,
+      extraSchooling: [{ type: 'cram' as const, startAge: 15, endAge: 17, monthlyAmount: 3 }],
+    };
+    expect(calculateChildEducationCost(withCram, 14, costs).extraSchooling).toBe(0);
+    expect(calculateChildEducationCost(withCram, 17, costs)).toMatchObject({ school: 30.9, extraSchooling: 36, total: 66.9 });
+  });
+});
+
+describe('projectEducation', () => {
+  const years = [2025, 2026, 2027];
+  // 世帯の住民税（公的支援の所得判定に使う）
+  const residentTaxes = [30, 30, 30];
+
+  it('生まれる前の予定の子を除いて合計し、教育費上昇率を反映する', () => {
+    const basicInfo = {
+      startYear: 2025,
+      children: [{ currentAge: 8, educationPlan: plan }],
+      plannedChildren: [{ yearsFromNow: 3, educationPlan: plan }],
+    };
+    // 2年後は10.5万円の2年分の上昇（予定の子はまだ生まれていない）
+    expect(projectEducation(basicInfo, costs, 10, years, residentTaxes).map(year => year.cost)).toEqual([10.5, 11.6, 12.7]);
+  });
+
+  it('支援前の単価表では高校の就学支援金を学校教育費から差し引く', () => {
+    const basicInfo = { startYear: 2025, children: [{ currentAge: 15, educationPlan: plan }], plannedChildren: [] };
+    const [legacy] = projectEducation(basicInfo, EDUCATION_COST_PRESETS.legacy.table, 0, years, residentTaxes);
+    expect(legacy).toMatchObject({ cost: 83.3, publicSupport: 11.9, parentShare: 71.4 });
+    // 調査の単価は支援後の負担額なので差し引かない
+    const [r3] = projectEducation(basicInfo, costs, 0, years, residentTaxes);
+    expect(r3).toMatchObject({ cost: 30.9, publicSupport: 0, parentShare: 30.9 });
+  });
+
+  it('奨学金と贈与を教育費に充て、残りを親が負担する', () => {
+    const funded: EducationPlan = {
+      ...plan,
+      funding: {
+        grants: [{ startAge: 18, endAge: 21, annualAmount: 50 }],
+        studentLoans: [{ startAge: 18, endAge: 21, monthlyAmount: 5, interestRate: 0, repaymentYears: 10 }],
+        insurance: [],
+        gifts: [{ age: 18, amount: 300 }],
+      },
+    };
+    const [first, second, third] = projectEducation(
+      { startYear: 2025, children: [{ currentAge: 18, educationPlan: funded }], plannedChildren: [] },
+      costs,
+      0,
+      years,
+      residentTaxes
+    );
+    // 入学年は271.9万円のうち給付50万円・貸与60万円・贈与161.9万円
+    expect(first).toMatchObject({ cost: 271.9, grants: 50, studentLoans: 60, gifts: 161.9, parentShare: 0 });
+    // 贈与の残り138.1万円を翌年に充てる
+    expect(second).toMatchObject({ cost: 183.2, gifts: 73.2, parentShare: 0 });
+    expect(third).toMatchObject({ gifts: 64.9, parentShare: 8.3 });
+  });
+
+  it('学資保険は払込期間の保険料と満期の年の満期金を計上する', () => {
+    const insured: EducationPlan = {
+      ...plan,
+      funding: {
+        grants: [],
+        studentLoans: [],
+        insurance: [{ monthlyPremium: 1, premiumEndAge: 2, maturityAge: 2, maturityAmount: 200 }],
+        gifts: [],
+      },
+    };
+    const result = projectEducation(
+      { startYear: 2025, children: [{ currentAge: 0, educationPlan: insured }], plannedChildren: [] },
+      costs,
+      0,
+      years,
+      residentTaxes
+    );
+    expect(result.map(year => year.insurancePremium)).toEqual([12, 12, 0]);
+    expect(result.map(year => year.insuranceMaturity)).toEqual([0, 0, 200]);
+  });
+});
+
+describe('calculateStudentLoanRepayment', () => {
+  it('在学中の借入総額を返済期間で元利均等返済する', () => {
+    const loan = { startAge: 18, endAge: 21, monthlyAmount: 5, interestRate: 0, repaymentYears: 10 };
+    expect(calculateStudentLoanRepayment(loan)).toEqual({ borrowed: 240, monthlyRepayment: 2 });
+    expect(calculateStudentLoanRepayment({ ...loan, interestRate: 1 }).monthlyRepayment).toBeCloseTo(2.1, 1);
+  });
+});
@@ -0,0 +1,248 @@
+import type { BasicInfo, EducationPlan, StudentLoan } from '@/store/simulator';
+import {
+  SCHOOL_STAGES,
+  UNIVERSITY_TYPES,
+  VOCATIONAL_SCHOOL,
+  type EducationCostTable,
+  type HigherEducationCost,
+  type SchoolStage,
+  type UniversityType,
+} from '@/data/educationCosts';
+import { calculateSchoolSupport } from '@/lib/childBenefits';
+
+// 子どもの年齢と進路から教育費を計算する（金額は万円/年）
+
+// 学校種別ごとの対象年齢（以上・以下）
+const SCHOOL_STAGE_AGES: Record<SchoolStage, [number, number]> = {
+  nursery: [0, 2],
+  preschool: [3, 5],
+  elementary: [6, 11],
+  juniorHigh: [12, 14],
+  highSchool: [15, 17],
+};
+const HIGHER_EDUCATION_START_AGE = 18;
+const UNIVERSITY_YEARS = 4;
+const VOCATIONAL_SCHOOL_YEARS = 2;
+const GRADUATE_SCHOOL_YEARS = 2;
+
+export const EXTRA_SCHOOLING_LABELS: Record<'cram' | 'lessons', string> = {
+  cram: '塾',
+  lessons: '習い事',
+};
+
+export interface ChildEducationCost {
+  // 保育所〜高校の学校教育費
+  school: number;
+  // 大学・専門学校・大学院の在学費用と入学費用
+  higherEducation: number;
+  // 自宅外通学の家賃・仕送りと初期費用
+  livingAway: number;
+  // 塾・習い事
+  extraSchooling: number;
+  total: number;
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(1));
+}
+
+export function isUniversityType(type: string): type is UniversityType {
+  return (UNIVERSITY_TYPES as readonly string[]).includes(type);
+}
+
+// 指定の年齢で在学している大学・専門学校・大学院の費用と入学年齢
+export function getHigherEducation(
+  plan: EducationPlan,
+  age: number,
+  costs: EducationCostTable
+): { cost: HigherEducationCost; startAge: number } | undefined {
+  const yearsSinceStart = age - HIGHER_EDUCATION_START_AGE;
+  if (yearsSinceStart < 0) {
+    return undefined;
+  }
+  if (isUniversityType(plan.university)) {
+    if (yearsSinceStart < UNIVERSITY_YEARS) {
+      return { cost: costs.university[plan.university], startAge: HIGHER_EDUCATION_START_AGE };
+    }
+    const graduateStartAge = HIGHER_EDUCATION_START_AGE + UNIVERSITY_YEARS;
+    if (plan.graduateSchool !== '行かない' && age < graduateStartAge + GRADUATE_SCHOOL_YEARS) {
+      return {
+        cost: plan.graduateSchool === '私立' ? costs.graduateSchool.private : costs.graduateSchool.public,
+        startAge: graduateStartAge,
+      };
+    }
+    return undefined;
+  }
+  if (plan.university === VOCATIONAL_SCHOOL && yearsSinceStart < VOCATIONAL_SCHOOL_YEARS) {
+    return { cost: costs.vocationalSchool, startAge: HIGHER_EDUCATION_START_AGE };
+  }
+  return undefined;
+}
+
+// 開始年の年齢（出生予定の子はマイナス）と進路
+export function listChildren(
+  basicInfo: Pick<BasicInfo, 'children' | 'plannedChildren'>
+): { ageAtStart: number; educationPlan: EducationPlan }[] {
+  return [
+    ...basicInfo.children.map(child => ({ ageAtStart: child.currentAge, educationPlan: child.educationPlan })),
+    ...basicInfo.plannedChildren.map(child => ({ ageAtStart: -child.yearsFromNow, educationPlan: child.educationPlan })),
+  ];
+}
+
+export function getSchoolStage(age: number): SchoolStage | undefined {
+  return SCHOOL_STAGES.find(stage => age >= SCHOOL_STAGE_AGES[stage][0] && age <= SCHOOL_STAGE_AGES[stage][1]);
+}
+
+function getSchoolCost(plan: EducationPlan, age: number, costs: EducationCostTable): number {
+  const stage = getSchoolStage(age);
+  if (!stage || plan[stage] === '行かない') {
+    return 0;
+  }
+  return plan[stage] === '私立' ? costs.schools[stage].private : costs.schools[stage].public;
+}
+
+// 子ども1人の1年分の教育費（教育費上昇率は含まない）
+export function calculateChildEducationCost(
+  plan: EducationPlan,
+  age: number,
+  costs: EducationCostTable
+): ChildEducationCost {
+  const school = getSchoolCost(plan, age, costs);
+  const higher = getHigherEducation(plan, age, costs);
+  const higherEducation = higher ? higher.cost.annual + (age === higher.startAge ? higher.cost.entrance : 0) : 0;
+  const livingAway = higher && plan.livingAway
+    ? (costs.livingAway.monthlyRent + costs.livingAway.monthlyAllowance) * 12 +
+      (age === HIGHER_EDUCATION_START_AGE ? costs.livingAway.setupCost : 0)
+    : 0;
+  const extraSchooling = plan.extraSchooling
+    .filter(extra => age >= extra.startAge && age <= extra.endAge)
+    .reduce((sum, extra) => sum + extra.monthlyAmount * 12, 0);
+  return {
+    school: round(school),
+    higherEducation: round(higherEducation),
+    livingAway: round(livingAway),
+    extraSchooling: round(extraSchooling),
+    total: round(school + higherEducation + livingAway + extraSchooling),
+  };
+}
+
+export interface EducationYear {
+  // 教育費の総額（教育費上昇率を反映）
+  cost: number;
+  // 幼児教育・保育の無償化と高校の就学支援金による軽減額
+  publicSupport: number;
+  // 給付型奨学金・貸与型奨学金・教育資金の贈与で賄った額
+  grants: number;
+  studentLoans: number;
+  gifts: number;
+  // 親が負担する教育費
+  parentShare: number;
+  // 学資保険の保険料と満期金
+  insurancePremium: number;
+  insuranceMaturity: number;
+}
+
+// 貸与型奨学金の借入総額と、卒業後の毎月の返済額（元利均等）
+export function calculateStudentLoanRepayment(loan: StudentLoan): { borrowed: number; monthlyRepayment: number } {
+  const borrowed = loan.monthlyAmount * 12 * Math.max(0, loan.endAge - loan.startAge + 1);
+  const months = loan.repaymentYears * 12;
+  if (borrowed <= 0 || months <= 0) {
+    return { borrowed: round(borrowed), monthlyRepayment: 0 };
+  }
+  const monthlyRate = loan.interestRate / 100 / 12;
+  const monthlyRepayment = monthlyRate === 0
+    ? borrowed / months
+    : borrowed * monthlyRate / (1 - Math.pow(1 + monthlyRate, -months));
+  return { borrowed: round(borrowed), monthlyRepayment: Number(monthlyRepayment.toFixed(2)) };
+}
+
+function sumActive<T extends { startAge: number; endAge: number }>(
+  items: T[],
+  age: number,
+  amount: (item: T) => number
+): number {
+  return items
+    .filter(item => age >= item.startAge && age <= item.endAge)
+    .reduce((sum, item) => sum + amount(item), 0);
+}
+
+// 子どもごとの教育費と、公的支援・奨学金・贈与・学資保険による資金の流れ（years の各年、金額は万円）。
+// 公的支援・奨学金・贈与はその子の教育費を上限に充て、残りを親が負担する。
+// householdResidentTaxes は各年に納める世帯の住民税（支援の所得判定に使う）
+export function projectEducation(
+  basicInfo: Pick<BasicInfo, 'children' | 'plannedChildren' | 'startYear'>,
+  costs: EducationCostTable,
+  educationCostIncreaseRate: number,
+  years: number[],
+  householdResidentTaxes: number[]
+): EducationYear[] {
+  const totals = years.map((): EducationYear => ({
+    cost: 0,
+    publicSupport: 0,
+    grants: 0,
+    studentLoans: 0,
+    gifts: 0,
+    parentShare: 0,
+    insurancePremium: 0,
+    insuranceMaturity: 0,
+  }));
+  for (const { ageAtStart, educationPlan } of listChildren(basicInfo)) {
+    const { funding } = educationPlan;
+    // 贈与を受けた教育資金の残高
+    let giftBalance = 0;
+    years.forEach((year, index) => {
+      const yearsSinceStart = year - basicInfo.startYear;
+      const age = ageAtStart + yearsSinceStart;
+      if (age < 0) {
+        return;
+      }
+      const increaseMultiplier = Math.pow(1 + educationCostIncreaseRate / 100, yearsSinceStart);
+      const childCost = calculateChildEducationCost(educationPlan, age, costs);
+      const cost = childCost.total * increaseMultiplier;
+      const stage = getSchoolStage(age);
+      const publicSupport = !costs.afterPublicSupport && stage && educationPlan[stage] !== '行かない'
+        ? calculateSchoolSupport(
+            stage,
+            educationPlan[stage] === '私立',
+            childCost.school * increaseMultiplier,
+            householdResidentTaxes[index]
+          )
+        : 0;
+      const grants = Math.min(cost - publicSupport, sumActive(funding.grants, age, grant => grant.annualAmount));
+      const studentLoans = Math.min(
+        cost - publicSupport - grants,
+        sumActive(funding.studentLoans, age, loan => loan.monthlyAmount * 12)
+      );
+      giftBalance += funding.gifts
+        .filter(gift => gift.age === age)
+        .reduce((sum, gift) => sum + gift.amount, 0);
+      const gifts = Math.min(cost - publicSupport - grants - studentLoans, giftBalance);
+      giftBalance -= gifts;
+
+      const total = totals[index];
+      total.cost += cost;
+      total.publicSupport += publicSupport;
+      total.grants += grants;
+      total.studentLoans += studentLoans;
+      total.gifts += gifts;
+      total.parentShare += cost - publicSupport - grants - studentLoans - gifts;
+      total.insurancePremium += funding.insurance
+        .filter(policy => age < policy.premiumEndAge)
+        .reduce((sum, policy) => sum + policy.monthlyPremium * 12, 0);
+      total.insuranceMaturity += funding.insurance
+        .filter(policy => age === policy.maturityAge)
+        .reduce((sum, policy) => sum + policy.maturityAmount, 0);
+    });
+  }
+
+  return totals.map((total): EducationYear => ({
+    cost: round(total.cost),
+    publicSupport: round(total.publicSupport),
+    grants: round(total.grants),
+    studentLoans: round(total.studentLoans),
+    gifts: round(total.gifts),
+    parentShare: round(total.parentShare),
+    insurancePremium: round(total.insurancePremium),
+    insuranceMaturity: round(total.insuranceMaturity),
+  }));
+}
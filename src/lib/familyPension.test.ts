@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateSpousalSupplement,
+  calculateSurvivorPension,
+  calculateTransferSupplement,
+  getTransferSupplement,
+} from '@/lib/familyPension';
+
+const longRecord = { basic: 78, welfare: 100, welfareYears: 38 };
+const noWelfareRecord = { basic: 78, welfare: 0, welfareYears: 0 };
+
+describe('calculateSpousalSupplement', () => {
+  const params = {
+    holderAge: 65,
+    holderPensionStartAge: 65,
+    holderRecord: longRecord,
+    dependentAge: 62,
+    dependentRecord: noWelfareRecord,
+    dependentAnnualIncome: 0,
+  };
+
+  it('厚生年金20年以上の受給者に65歳未満の配偶者がいる間加算する', () => {
+    expect(calculateSpousalSupplement(params)).toBe(40.8);
+    expect(calculateSpousalSupplement({ ...params, dependentAge: 65 })).toBe(0);
+  });
+
+  it('繰下げ待機中は支給されない', () => {
+    expect(calculateSpousalSupplement({ ...params, holderAge: 66, holderPensionStartAge: 70 })).toBe(0);
+  });
+});
+
+describe('calculateTransferSupplement', () => {
+  it('生年度に応じた率で65歳から加算し、昭和41年4月2日以降生まれは支給なし', () => {
+    const params = { dependentAge: 65, dependentRecord: noWelfareRecord, partnerRecord: longRecord };
+    expect(getTransferSupplement(1959)).toBe(4.7);
+    expect(calculateTransferSupplement({ ...params, dependentBirthYear: 1959 })).toBe(4.7);
+    expect(calculateTransferSupplement({ ...params, dependentBirthYear: 1970 })).toBe(0);
+  });
+});
+
+describe('calculateSurvivorPension', () => {
+  const params = {
+    survivorAge: 45,
+    survivorAgeAtDeath: 45,
+    survivorIsWife: true,
+    survivorRecord: noWelfareRecord,
+    deceasedRecord: { basic: 20, welfare: 100, welfareYears: 10 },
+    deceasedWasInsured: true,
+    childAges: [] as number[],
+  };
+
+  it('子がいる間は遺族基礎年金を支給し、在職中の死亡は300月で計算する', () => {
+    expect(calculateSurvivorPension({ ...params, childAges: [10, 12] })).toEqual({
+      basic: 128.6,
+      welfare: 187.5,
+      widowSupplement: 0,
+      total: 316.1,
+    });
+  });
+
+  it('子のいない40歳以上の妻には中高齢寡婦加算がつく', () => {
+    expect(calculateSurvivorPension(params).widowSupplement).toBe(61.2);
+  });
+
+  it('妻の死亡時に55歳未満の夫には遺族厚生年金を支給しない', () => {
+    expect(calculateSurvivorPension({ ...params, survivorIsWife: false, survivorAgeAtDeath: 50 }).welfare).toBe(0);
+  });
+
+  it('65歳以降は本人の老齢厚生年金との差額だけを支給する', () => {
+    const result = calculateSurvivorPension({
+      ...params,
+      survivorAge: 70,
+      survivorRecord: { basic: 78, welfare: 50, welfareYears: 20 },
+      deceasedRecord: { basic: 78, welfare: 100, welfareYears: 30 },
+    });
+    expect(result.welfare).toBe(25);
+  });
+});
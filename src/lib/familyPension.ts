@@ -0,0 +1,133 @@
+import type { PensionComponents } from '@/lib/calculations';
+
+// 令和6年度の年金額（万円/年）
+// 加給年金（配偶者）は特別加算を含む
+export const SPOUSAL_SUPPLEMENT = 40.8;
+export const SURVIVOR_BASIC_PENSION = 81.6;
+// 遺族基礎年金の子の加算（第1子・第2子と第3子以降）
+export const SURVIVOR_CHILD_SUPPLEMENT = 23.5;
+export const SURVIVOR_ADDITIONAL_CHILD_SUPPLEMENT = 7.8;
+// 中高齢寡婦加算（40歳〜64歳の妻）
+export const WIDOW_SUPPLEMENT = 61.2;
+
+// 加給年金・振替加算の要件となる厚生年金の加入年数
+export const SUPPLEMENT_MIN_WELFARE_YEARS = 20;
+// 加給年金の対象となる配偶者の年収の上限
+export const SUPPLEMENT_DEPENDENT_INCOME_LIMIT = 850;
+// 遺族厚生年金の短期要件（在職中の死亡は300月とみなす）
+const SURVIVOR_MIN_WELFARE_YEARS = 25;
+
+// 振替加算の支給率（生年度ごと、昭和41年4月2日以降生まれは支給なし）
+// 基準額 234,800円 に乗じる。昭和30年度以前の生まれは簡略化して昭和30年度の率を使う
+const TRANSFER_SUPPLEMENT_BASE = 23.48;
+const TRANSFER_SUPPLEMENT_RATES: { bornBefore: number; rate: number }[] = [
+  { bornBefore: 1956, rate: 0.467 },
+  { bornBefore: 1957, rate: 0.4 },
+  { bornBefore: 1958, rate: 0.333 },
+  { bornBefore: 1959, rate: 0.267 },
+  { bornBefore: 1960, rate: 0.2 },
+  { bornBefore: 1961, rate: 0.133 },
+  { bornBefore: 1966, rate: 0.067 },
+];
+
+function round(value: number): number {
+  return Number(value.toFixed(1));
+}
+
+export function hasLongWelfareRecord(components: PensionComponents): boolean {
+  return components.welfareYears >= SUPPLEMENT_MIN_WELFARE_YEARS;
+}
+
+export function getTransferSupplement(birthYear: number): number {
+  const row = TRANSFER_SUPPLEMENT_RATES.find(r => birthYear < r.bornBefore);
+  return row ? round(TRANSFER_SUPPLEMENT_BASE * row.rate) : 0;
+}
+
+// 加給年金：厚生年金20年以上の受給者に、65歳未満の配偶者がいる間加算（繰下げ待機中は支給されない）
+export function calculateSpousalSupplement(params: {
+  holderAge: number;
+  holderPensionStartAge: number;
+  holderRecord: PensionComponents;
+  dependentAge: number;
+  dependentRecord: PensionComponents;
+  dependentAnnualIncome: number;
+}): number {
+  const isReceiving = params.holderAge >= Math.max(65, params.holderPensionStartAge);
+  const isEligible = hasLongWelfareRecord(params.holderRecord) &&
+    !hasLongWelfareRecord(params.dependentRecord) &&
+    params.dependentAnnualIncome < SUPPLEMENT_DEPENDENT_INCOME_LIMIT;
+  return isReceiving && isEligible && params.dependentAge < 65 ? SPOUSAL_SUPPLEMENT : 0;
+}
+
+// 振替加算：加給年金の対象だった配偶者が65歳になると、本人の老齢基礎年金に加算
+export function calculateTransferSupplement(params: {
+  dependentAge: number;
+  dependentBirthYear: number;
+  dependentRecord: PensionComponents;
+  partnerRecord: PensionComponents;
+}): number {
+  if (params.dependentAge < 65 ||
+      !hasLongWelfareRecord(params.partnerRecord) ||
+      hasLongWelfareRecord(params.dependentRecord)) {
+    return 0;
+  }
+  return getTransferSupplement(params.dependentBirthYear);
+}
+
+export interface SurvivorPension {
+  basic: number;
+  welfare: number;
+  widowSupplement: number;
+  total: number;
+}
+
+// 遺族年金（本人の老齢年金に上乗せされる額）
+export function calculateSurvivorPension(params: {
+  survivorAge: number;
+  survivorAgeAtDeath: number;
+  survivorIsWife: boolean;
+  survivorRecord: PensionComponents;
+  deceasedRecord: PensionComponents;
+  // 在職中（厚生年金加入中）に亡くなった場合
+  deceasedWasInsured: boolean;
+  childAges: number[];
+}): SurvivorPension {
+  // 遺族基礎年金：18歳年度末までの子がいる間
+  const eligibleChildren = params.childAges.filter(age => age >= 0 && age <= 18).length;
+  const basic = eligibleChildren > 0
+    ? round(
+        SURVIVOR_BASIC_PENSION +
+        Math.min(eligibleChildren, 2) * SURVIVOR_CHILD_SUPPLEMENT +
+        Math.max(0, eligibleChildren - 2) * SURVIVOR_ADDITIONAL_CHILD_SUPPLEMENT
+      )
+    : 0;
+
+  // 遺族厚生年金：亡くなった配偶者の報酬比例部分の3/4
+  let deceasedWelfare = params.deceasedRecord.welfare;
+  if (params.deceasedWasInsured && params.deceasedRecord.welfareYears > 0 &&
+      params.deceasedRecord.welfareYears < SURVIVOR_MIN_WELFARE_YEARS) {
+    deceasedWelfare = deceasedWelfare * (SURVIVOR_MIN_WELFARE_YEARS / params.deceasedRecord.welfareYears);
+  }
+  let welfare = deceasedWelfare * 0.75;
+  // 夫は妻の死亡時に55歳以上で、60歳から支給（遺族基礎年金を受ける間は除く）
+  if (!params.survivorIsWife &&
+      (params.survivorAgeAtDeath < 55 || (params.survivorAge < 60 && basic === 0))) {
+    welfare = 0;
+  }
+  // 65歳以降は本人の老齢厚生年金が優先され、差額のみ支給
+  if (params.survivorAge >= 65) {
+    welfare = Math.max(0, welfare - params.survivorRecord.welfare);
+  }
+
+  const widowSupplement = params.survivorIsWife && basic === 0 && welfare > 0 &&
+    params.survivorAge >= 40 && params.survivorAge < 65
+    ? WIDOW_SUPPLEMENT
+    : 0;
+
+  return {
+    basic,
+    welfare: round(welfare),
+    widowSupplement,
+    total: round(basic + welfare + widowSupplement),
+  };
+}
@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import { buildHousingTimeline, calculateHomeValue, getHousingPhases, getHousingYear } from '@/lib/housing';
+import { simulate } from '@/lib/simulation';
+import type { HousingPhase, OwnHousing } from '@/store/simulator';
+import { createOwnHousing, createParameters, createPlan } from '@/test/fixtures';
+
+const own: OwnHousing = {
+  purchaseYear: 2020,
+  purchasePrice: 3000,
+  loanAmount: 2000,
+  interestRate: 0,
+  rateType: 'fixed',
+  fixedPeriodYears: 0,
+  rateChanges: [],
+  loanTermYears: 20,
+  maintenanceCostRate: 0,
+  repaymentMethod: 'equal_payment',
+  prepayments: [],
+  homeType: 'standard',
+  newlyBuilt: false,
+  propertyType: 'house',
+  landShare: 40,
+  landAssessedValue: 0,
+  buildingAssessedValue: 0,
+  managementFee: 0,
+  repairReserve: 0,
+  repairReserveStepYears: 0,
+  repairReserveStepRate: 0,
+  renovationCost: 0,
+  renovationIntervalYears: 0,
+};
+
+const moveToRent: HousingPhase = {
+  type: 'rent',
+  startYear: 2030,
+  rent: { monthlyRent: 10, annualIncreaseRate: 0 },
+  movingCost: 30,
+  salePrice: 2500,
+  saleCostRate: 4,
+};
+
+describe('getHousingPhases', () => {
+  it('現在の住まいに続けて、開始年より後の住み替えを年順に並べる', () => {
+    const phases = getHousingPhases({
+      type: 'own',
+      own,
+      phases: [moveToRent, { ...moveToRent, startYear: 2024 }, { ...moveToRent, startYear: 2027 }],
+    }, 2025);
+    expect(phases.map(phase => phase.startYear)).toEqual([2025, 2027, 2030]);
+  });
+});
+
+describe('calculateHomeValue', () => {
+  it('購入金額を土地と建物に分け、それぞれの変動率で増減させる', () => {
+    const rates = { land: 1, building: -2 };
+    expect(calculateHomeValue(own, 2019, rates)).toBe(0);
+    expect(calculateHomeValue(own, 2020, rates)).toBe(3000);
+    expect(calculateHomeValue(own, 2021, rates)).toBe(2976);
+  });
+});
+
+describe('getHousingYear', () => {
+  const timeline = buildHousingTimeline({ type: 'own', own, phases: [moveToRent] }, 2025);
+
+  it('持ち家の間はローンを返済する', () => {
+    expect(getHousingYear(timeline, 2029).mortgage?.payment).toBe(100);
+  });
+
+  it('変動率を渡したときだけ持ち家の評価額を計算し、売却後は0', () => {
+    const rates = { land: 0, building: 0 };
+    expect(getHousingYear(timeline, 2029).homeValue).toBe(0);
+    expect(getHousingYear(timeline, 2029, rates).homeValue).toBe(3000);
+    expect(getHousingYear(timeline, 2030, rates).homeValue).toBe(0);
+  });
+
+  it('住み替えの年は引越し費用、諸費用を引いた売却代金、ローン残高の一括返済を計上する', () => {
+    expect(getHousingYear(timeline, 2030)).toMatchObject({
+      movingCost: 30,
+      saleProceeds: 2400,
+      loanPayoff: 1000,
+      mortgage: undefined,
+    });
+    expect(getHousingYear(timeline, 2030).period?.phase.type).toBe('rent');
+  });
+
+  it('売却価格の指定がなければ評価額から諸費用を引いた額で売却する', () => {
+    const atValue = buildHousingTimeline({ type: 'own', own, phases: [{ ...moveToRent, salePrice: 0 }] }, 2025);
+    const rates = { land: 0, building: -2 };
+    const homeValue = calculateHomeValue(own, 2030, rates);
+    expect(getHousingYear(atValue, 2030, rates).saleProceeds).toBeCloseTo(homeValue * 0.96, 0);
+    expect(getHousingYear(atValue, 2030).saleProceeds).toBe(2880);
+  });
+
+  it('購入前に住み替える場合は売却しない', () => {
+    const beforePurchase = buildHousingTimeline(
+      { type: 'own', own: { ...own, purchaseYear: 2032 }, phases: [moveToRent] },
+      2025
+    );
+    expect(getHousingYear(beforePurchase, 2030)).toMatchObject({ saleProceeds: 0, loanPayoff: 0 });
+  });
+});
+
+describe('getHousingYear の頭金', () => {
+  const rent = { monthlyRent: 10, annualIncreaseRate: 0 };
+
+  it('現在の住まいを期間中に購入する場合は購入の年に頭金を計上する', () => {
+    const timeline = buildHousingTimeline(
+      { type: 'own', rent, own: createOwnHousing({ purchaseYear: 2027 }), phases: [] },
+      2025
+    );
+    expect(getHousingYear(timeline, 2026).downPayment).toBe(0);
+    expect(getHousingYear(timeline, 2027).downPayment).toBe(1000);
+    expect(getHousingYear(timeline, 2028).downPayment).toBe(0);
+  });
+
+  it('購入済みの持ち家には頭金を計上しない', () => {
+    const timeline = buildHousingTimeline(
+      { type: 'own', rent, own: createOwnHousing({ purchaseYear: 2020 }), phases: [] },
+      2025
+    );
+    expect(getHousingYear(timeline, 2025).downPayment).toBe(0);
+  });
+
+  it('住み替えで購入する持ち家の頭金と引越し費用を計上する', () => {
+    const timeline = buildHousingTimeline({
+      type: 'rent',
+      rent,
+      phases: [{
+        type: 'own', startYear: 2030, own: createOwnHousing(), movingCost: 50, salePrice: 0, saleCostRate: 0,
+      }],
+    }, 2025);
+    const purchase = getHousingYear(timeline, 2030);
+    expect(purchase.downPayment).toBe(1000);
+    expect(purchase.movingCost).toBe(50);
+  });
+});
+
+describe('持ち家の購入と資産', () => {
+  it('頭金の分だけ購入の年の支出が増え、資産が減る', () => {
+    const withDownPayment = (loanAmount: number) => simulate(
+      createPlan({
+        basicInfo: {
+          housingInfo: {
+            type: 'own',
+            rent: { monthlyRent: 0, annualIncreaseRate: 0 },
+            own: createOwnHousing({ purchaseYear: 2027, purchasePrice: 4000, loanAmount }),
+            phases: [],
+          },
+        },
+      }),
+      createParameters({ investmentReturn: 0, inflationRate: 0 })
+    ).years.find(year => year.year === 2027)!;
+    const cash = withDownPayment(4000);
+    const down = withDownPayment(2000);
+    expect(down.expense.housing - cash.expense.housing).toBeGreaterThan(1900);
+    expect(cash.assets - down.assets).toBeGreaterThan(1900);
+  });
+});
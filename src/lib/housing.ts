@@ -0,0 +1,173 @@
+import type { BasicInfo, HousingPhase, OwnHousing, Parameters } from '@/store/simulator';
+import { calculateHousingExpense } from '@/lib/calculations';
+import {
+  buildMortgageSchedule,
+  getMortgageLoan,
+  type MortgageRateStress,
+  type MortgageScheduleYear,
+} from '@/lib/mortgage';
+import { calculateOwnershipCosts, type OwnershipCosts } from '@/lib/ownershipCosts';
+
+// 住まいの変遷（現在の住まいと住み替えの予定、金額は万円）
+
+export interface HousingPeriod {
+  phase: HousingPhase;
+  startYear: number;
+  // 次の住まいに移る年（最後の住まいは undefined）
+  endYear?: number;
+  // 持ち家の返済予定表（売却する年の前年まで）
+  mortgageSchedule: MortgageScheduleYear[];
+}
+
+export interface HousingYear {
+  // 家賃、またはローン返済と維持費
+  expense: number;
+  movingCost: number;
+  // 購入する持ち家の頭金（購入金額 − 借入額）
+  downPayment: number;
+  // 売却代金から諸費用を差し引いた額
+  saleProceeds: number;
+  // 売却時に一括返済したローン残高（未払利息を含む）
+  loanPayoff: number;
+  mortgage?: MortgageScheduleYear;
+  // 持ち家の保有コストの内訳（購入前・賃貸は undefined）
+  ownershipCosts?: OwnershipCosts;
+  // 持ち家の年末の評価額（土地＋建物）
+  homeValue: number;
+  period?: HousingPeriod;
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(1));
+}
+
+// 現在の住まいを最初の住まいとして、住み替えの予定を開始年順に並べる。
+// 持ち家の購入年は住み替えの開始年にそろえる。開始年からの住み替えは現在の住まいに代わる
+export function getHousingPhases(housingInfo: BasicInfo['housingInfo'], startYear: number): HousingPhase[] {
+  const current: HousingPhase = {
+    type: housingInfo.type,
+    startYear,
+    rent: housingInfo.rent,
+    own: housingInfo.own,
+    movingCost: 0,
+    salePrice: 0,
+    saleCostRate: 0,
+  };
+  const moves = (housingInfo.phases ?? [])
+    .filter(phase => phase.startYear >= startYear)
+    .sort((a, b) => a.startYear - b.startYear)
+    .map(phase => phase.type === 'own' && phase.own
+      ? { ...phase, own: { ...phase.own, purchaseYear: phase.startYear } }
+      : phase);
+  return [current, ...moves];
+}
+
+export function buildHousingTimeline(
+  housingInfo: BasicInfo['housingInfo'],
+  startYear: number,
+  // 変動金利部分の金利上昇ストレス
+  stress?: MortgageRateStress
+): HousingPeriod[] {
+  const phases = getHousingPhases(housingInfo, startYear);
+  return phases.map((phase, index): HousingPeriod => {
+    const endYear = phases[index + 1]?.startYear;
+    const schedule = phase.type === 'own' && phase.own
+      ? buildMortgageSchedule({ ...getMortgageLoan(phase.own), stress })
+      : [];
+    return {
+      phase,
+      startYear: phase.startYear,
+      endYear,
+      mortgageSchedule: endYear === undefined ? schedule : schedule.filter(row => row.year < endYear),
+    };
+  });
+}
+
+// 指定年に住んでいる住まい（シミュレーション開始前は現在の住まい）
+export function getHousingPeriod(timeline: HousingPeriod[], year: number): HousingPeriod | undefined {
+  return timeline.find((period, index) =>
+    (index === 0 || period.startYear <= year) && (period.endYear === undefined || year < period.endYear)
+  );
+}
+
+// 持ち家の評価額。購入金額を土地と建物に分け、それぞれの変動率で毎年増減させる
+export function calculateHomeValue(
+  own: OwnHousing,
+  year: number,
+  rates: Parameters['propertyValueRates']
+): number {
+  if (year < own.purchaseYear) {
+    return 0;
+  }
+  const yearsOwned = year - own.purchaseYear;
+  const land = own.purchasePrice * (own.landShare / 100);
+  const building = own.purchasePrice - land;
+  return round(
+    land * Math.pow(1 + rates.land / 100, yearsOwned) +
+    Math.max(0, building * Math.pow(1 + rates.building / 100, yearsOwned))
+  );
+}
+
+// 持ち家を手放す年の、一括返済するローン残高
+function getLoanPayoff(period: HousingPeriod): number {
+  if (period.endYear === undefined) {
+    return 0;
+  }
+  const lastRow = period.mortgageSchedule.find(row => row.year === period.endYear! - 1);
+  return lastRow ? lastRow.balance + lastRow.unpaidInterest : 0;
+}
+
+export function getHousingYear(
+  timeline: HousingPeriod[],
+  year: number,
+  // 省略時は持ち家の評価額を計算しない
+  propertyValueRates?: Parameters['propertyValueRates']
+): HousingYear {
+  const period = getHousingPeriod(timeline, year);
+  const result: HousingYear = {
+    expense: 0,
+    movingCost: 0,
+    downPayment: 0,
+    saleProceeds: 0,
+    loanPayoff: 0,
+    homeValue: 0,
+    period,
+  };
+  if (!period) {
+    return result;
+  }
+
+  result.expense = calculateHousingExpense(period.phase, year, period.mortgageSchedule, period.startYear);
+  result.mortgage = period.mortgageSchedule.find(row => row.year === year);
+  if (period.phase.type === 'own' && period.phase.own && year >= period.phase.own.purchaseYear) {
+    result.ownershipCosts = calculateOwnershipCosts(period.phase.own, year);
+    if (propertyValueRates) {
+      result.homeValue = calculateHomeValue(period.phase.own, year, propertyValueRates);
+    }
+  }
+
+  // 住み替えの年は引越し費用・購入する持ち家の頭金と、前の持ち家の売却・ローンの一括返済を計上する。
+  // 現在の住まいがシミュレーション期間中に購入する持ち家の場合は、購入の年に頭金を計上する
+  const index = timeline.indexOf(period);
+  const own = period.phase.type === 'own' ? period.phase.own : undefined;
+  if (index === 0 && own && own.purchaseYear >= period.startYear && own.purchaseYear === year) {
+    result.downPayment = round(Math.max(0, own.purchasePrice - own.loanAmount));
+  }
+  if (index > 0 && period.startYear === year) {
+    const previous = timeline[index - 1];
+    result.movingCost = period.phase.movingCost;
+    if (own) {
+      result.downPayment = round(Math.max(0, own.purchasePrice - own.loanAmount));
+    }
+    // 購入前に住み替える場合は売却しない
+    if (previous.phase.type === 'own' && previous.phase.own && previous.phase.own.purchaseYear < year) {
+      // 売却価格の指定がなければ評価額で売却する（変動率の指定がない場合は購入金額のまま）
+      const salePrice = period.phase.salePrice > 0
+        ? period.phase.salePrice
+        : calculateHomeValue(previous.phase.own, year, propertyValueRates ?? { land: 0, building: 0 });
+      result.saleProceeds = round(salePrice * (1 - period.phase.saleCostRate / 100));
+      result.loanPayoff = round(getLoanPayoff(previous));
+    }
+  }
+  return result;
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { isPlanSuccessful, percentile, runMonteCarlo } from '@/lib/monteCarlo';
+import { simulate, type SimulationYear } from '@/lib/simulation';
+import { createParameters, createPlan } from '@/test/fixtures';
+
+describe('percentile', () => {
+  it('隣り合う値を線形補間する', () => {
+    expect(percentile([0, 10, 20, 30, 40], 0.5)).toBe(20);
+    expect(percentile([0, 10], 0.25)).toBe(2.5);
+    expect(percentile([], 0.5)).toBe(0);
+  });
+});
+
+describe('isPlanSuccessful', () => {
+  const createYear = (assets: number, ideco: number) =>
+    ({ assets, taxAdvantagedBalances: { nisa: 0, ideco } }) as SimulationYear;
+
+  it('受取前のiDeCo残高は取り崩せる資産に含めない', () => {
+    expect(isPlanSuccessful([createYear(300, 200)])).toBe(true);
+    expect(isPlanSuccessful([createYear(100, 200)])).toBe(false);
+  });
+});
+
+describe('runMonteCarlo', () => {
+  const plan = createPlan({
+    basicInfo: { monthlyLivingExpense: 20 },
+    incomeInfo: { annualIncome: 500 },
+    assetsLiabilities: {
+      ...createPlan().assetsLiabilities,
+      assets: { cash: 0, savings: 1000, stocks: 0, investmentTrust: 0, realEstate: 0 },
+    },
+  });
+
+  it('リスクが0なら毎年の利回りが一定の場合と同じ推移になる', () => {
+    const parameters = createParameters({ simulationMode: 'monteCarlo', volatility: 0, trials: 100 });
+    const result = runMonteCarlo(plan, parameters);
+    const fixed = simulate(plan, { ...parameters, simulationMode: 'fixed' });
+    expect(result.bands.p50).toEqual(fixed.years.map(year => year.assets));
+    expect(result.bands.p10).toEqual(result.bands.p90);
+  });
+
+  it('同じシードなら同じ結果になる', () => {
+    const parameters = createParameters({ simulationMode: 'monteCarlo', volatility: 15, trials: 100 });
+    expect(runMonteCarlo(plan, parameters).bands).toEqual(runMonteCarlo(plan, parameters).bands);
+  });
+});
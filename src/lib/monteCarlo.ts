@@ -0,0 +1,94 @@
+import type { Parameters } from '@/store/simulator';
+import {
+  projectCashFlows,
+  accumulateAssets,
+  getSpendableAssets,
+  type SimulationPlan,
+  type CashFlowOverrides,
+  type SimulationYear,
+} from '@/lib/simulation';
+import { getInitialAssetBalances } from '@/lib/assetClasses';
+
+export interface AssetBands {
+  p10: number[];
+  p50: number[];
+  p90: number[];
+}
+
+export interface MonteCarloResult {
+  years: number[];
+  bands: AssetBands;
+  // 死亡想定年齢まで資産がマイナスにならなかった試行の割合（0〜1）
+  successProbability: number;
+}
+
+// Seeded PRNG (mulberry32) so the chart does not jump on every re-render
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Box-Muller transform
+function normalRandom(random: () => number): number {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+export function percentile(sortedValues: number[], p: number): number {
+  if (sortedValues.length === 0) return 0;
+  const index = (sortedValues.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  const weight = index - lower;
+  return Number((sortedValues[lower] * (1 - weight) + sortedValues[upper] * weight).toFixed(1));
+}
+
+export function isPlanSuccessful(path: SimulationYear[]): boolean {
+  return path.every(sy => getSpendableAssets(sy) >= 0);
+}
+
+// 各年の資産額からパーセンタイル帯を作る
+export function calculateAssetBands(paths: SimulationYear[][]): AssetBands {
+  const length = paths[0]?.length ?? 0;
+  const bands: AssetBands = { p10: [], p50: [], p90: [] };
+  for (let i = 0; i < length; i++) {
+    const sorted = paths.map(path => path[i].assets).sort((a, b) => a - b);
+    bands.p10.push(percentile(sorted, 0.1));
+    bands.p50.push(percentile(sorted, 0.5));
+    bands.p90.push(percentile(sorted, 0.9));
+  }
+  return bands;
+}
+
+export function runMonteCarlo(
+  plan: SimulationPlan,
+  parameters: Parameters,
+  overrides: CashFlowOverrides = {},
+  seed: number = 1
+): MonteCarloResult {
+  const random = createRandom(seed);
+  const initialBalances = getInitialAssetBalances(plan.assetsLiabilities);
+  // 収支は運用成績に依存しないので一度だけ計算する
+  const cashFlows = projectCashFlows(plan, parameters, overrides);
+
+  const paths = Array.from({ length: Math.max(1, parameters.trials) }, () => {
+    // 年率リターンは正規分布（-100%未満にはならない）
+    const returnRates = cashFlows.map(() =>
+      Math.max(-100, parameters.investmentReturn + parameters.volatility * normalRandom(random))
+    );
+    return accumulateAssets(initialBalances, cashFlows, parameters, { returnRates });
+  });
+
+  return {
+    years: cashFlows.map(cashFlow => cashFlow.year),
+    bands: calculateAssetBands(paths),
+    successProbability: paths.filter(isPlanSuccessful).length / paths.length,
+  };
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildMortgageSchedule,
+  compareRateStressScenarios,
+  getMortgageRate,
+  summarizeMortgage,
+  type MortgageLoan,
+} from '@/lib/mortgage';
+
+const loan: MortgageLoan = {
+  startYear: 2025,
+  amount: 1200,
+  interestRate: 0,
+  rateType: 'fixed',
+  fixedPeriodYears: 0,
+  rateChanges: [],
+  termYears: 10,
+  repaymentMethod: 'equal_payment',
+  prepayments: [],
+};
+
+describe('buildMortgageSchedule', () => {
+  it('借入期間の各年の返済額と年末残高を返す', () => {
+    const schedule = buildMortgageSchedule(loan);
+    expect(schedule).toHaveLength(10);
+    expect(schedule[0]).toMatchObject({ year: 2025, payment: 120, principal: 120, interest: 0, prepayment: 0, balance: 1080 });
+    expect(schedule.at(-1)).toMatchObject({ year: 2034, balance: 0 });
+  });
+
+  it('元金均等返済は元金が一定で、利息が減っていく', () => {
+    const schedule = buildMortgageSchedule({ ...loan, interestRate: 1, repaymentMethod: 'equal_principal' });
+    expect(schedule[0].principal).toBe(120);
+    expect(schedule[1].principal).toBe(120);
+    expect(schedule[1].interest).toBeLessThan(schedule[0].interest);
+  });
+
+  it('期間短縮型の繰上返済は毎月の返済額を変えずに完済を早める', () => {
+    const schedule = buildMortgageSchedule({
+      ...loan,
+      prepayments: [{ year: 2025, amount: 600, type: 'shorten_term' }],
+    });
+    expect(schedule[0]).toMatchObject({ prepayment: 600, balance: 480 });
+    expect(schedule[1].payment).toBe(120);
+    expect(schedule.at(-1)?.year).toBe(2029);
+  });
+
+  it('返済額軽減型の繰上返済は期間を変えずに毎月の返済額を減らす', () => {
+    const schedule = buildMortgageSchedule({
+      ...loan,
+      prepayments: [{ year: 2025, amount: 600, type: 'reduce_payment' }],
+    });
+    expect(schedule[1].payment).toBe(53.3);
+    expect(schedule.at(-1)?.year).toBe(2034);
+  });
+});
+
+describe('summarizeMortgage', () => {
+  it('繰上返済で減った利息と完済年を求める', () => {
+    const summary = summarizeMortgage({
+      ...loan,
+      interestRate: 1,
+      prepayments: [{ year: 2025, amount: 600, type: 'shorten_term' }],
+    });
+    expect(summary.interestSaved).toBeGreaterThan(0);
+    expect(summary.payoffYear).toBe(2029);
+  });
+});
+
+describe('getMortgageRate', () => {
+  it('固定期間が終わると変更後の金利を適用する', () => {
+    const fixedPeriod: MortgageLoan = {
+      ...loan,
+      interestRate: 1,
+      rateType: 'fixed_period',
+      fixedPeriodYears: 10,
+      rateChanges: [{ year: 2030, rate: 2 }],
+    };
+    expect(getMortgageRate(fixedPeriod, 2034)).toBe(1);
+    expect(getMortgageRate(fixedPeriod, 2035)).toBe(2);
+  });
+
+  it('金利上昇ストレスは指定した年数をかけて変動金利に上乗せする', () => {
+    const variable: MortgageLoan = {
+      ...loan,
+      interestRate: 1,
+      rateType: 'variable',
+      stress: { increase: 2, years: 2, startYear: 2025 },
+    };
+    expect(getMortgageRate(variable, 2025)).toBe(2);
+    expect(getMortgageRate(variable, 2026)).toBe(3);
+    expect(getMortgageRate(variable, 2030)).toBe(3);
+  });
+});
+
+describe('変動金利の5年ルール・125%ルール', () => {
+  const variable: MortgageLoan = {
+    ...loan,
+    amount: 3000,
+    interestRate: 0.5,
+    termYears: 35,
+    rateType: 'variable',
+    rateChanges: [{ year: 2026, rate: 5 }],
+  };
+
+  it('返済額は5年間変わらず、見直し時も従前の125%までしか増えない', () => {
+    const schedule = buildMortgageSchedule(variable);
+    expect(schedule[1].payment).toBe(schedule[0].payment);
+    expect(schedule[5].payment).toBeCloseTo(schedule[0].payment * 1.25, 0);
+  });
+
+  it('返済額を超えた利息は未払利息として繰り越す', () => {
+    const schedule = buildMortgageSchedule(variable);
+    expect(schedule[1].unpaidInterest).toBeGreaterThan(0);
+  });
+});
+
+describe('compareRateStressScenarios', () => {
+  it('全期間固定ならどのシナリオも同じ結果になる', () => {
+    const [base, stressed] = compareRateStressScenarios({ ...loan, interestRate: 1 }, [0, 2], 5);
+    expect(stressed.totalInterest).toBe(base.totalInterest);
+  });
+});
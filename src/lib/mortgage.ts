@@ -0,0 +1,263 @@
+import type {
+  BasicInfo,
+  MortgageRepaymentMethod,
+  MortgagePrepayment,
+  MortgageRateType,
+  MortgageRateChange,
+} from '@/store/simulator';
+
+// 住宅ローンの返済予定表（金額は万円、毎月返済を年単位に集計）
+
+// 変動金利（元利均等返済）の返済額は5年ごとに見直し、新しい返済額は従前の125%までとする
+export const PAYMENT_REVIEW_INTERVAL_YEARS = 5;
+export const PAYMENT_INCREASE_CAP = 1.25;
+
+// 金利上昇ストレス（startYear から years 年かけて変動金利部分に increase %を上乗せ）
+export interface MortgageRateStress {
+  increase: number;
+  years: number;
+  startYear: number;
+}
+
+export interface MortgageLoan {
+  // 返済を開始する年（借入年）
+  startYear: number;
+  amount: number;
+  // 当初の適用金利（%）
+  interestRate: number;
+  rateType: MortgageRateType;
+  fixedPeriodYears: number;
+  rateChanges: MortgageRateChange[];
+  termYears: number;
+  repaymentMethod: MortgageRepaymentMethod;
+  prepayments: MortgagePrepayment[];
+  stress?: MortgageRateStress;
+}
+
+export interface MortgageScheduleYear {
+  year: number;
+  // その年の適用金利（%）
+  interestRate: number;
+  // 毎月の返済額の年間合計（元金 + 利息、繰上返済は含まない）
+  payment: number;
+  principal: number;
+  // 支払った利息（未払利息の返済を含む）
+  interest: number;
+  prepayment: number;
+  // 年末の残高
+  balance: number;
+  // 返済額を超えた利息の年末の累計（未払利息）
+  unpaidInterest: number;
+}
+
+export interface MortgageSummary {
+  totalPayment: number;
+  totalInterest: number;
+  // 繰上返済をしなかった場合と比べて減った利息
+  interestSaved: number;
+  payoffYear?: number;
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(1));
+}
+
+// 元利均等返済の毎月の返済額
+function calculateLevelPayment(balance: number, monthlyRate: number, months: number): number {
+  if (months <= 0) return balance;
+  if (monthlyRate === 0) return balance / months;
+  const factor = Math.pow(1 + monthlyRate, months);
+  return balance * monthlyRate * factor / (factor - 1);
+}
+
+// 毎月の返済額を変えずに完済するまでの月数
+function calculateRemainingMonths(balance: number, monthlyRate: number, payment: number): number {
+  if (monthlyRate === 0) return Math.ceil(balance / payment);
+  return Math.ceil(-Math.log(1 - (monthlyRate * balance) / payment) / Math.log(1 + monthlyRate));
+}
+
+// 住宅購入の設定から借入条件を取り出す
+export function getMortgageLoan(own: NonNullable<BasicInfo['housingInfo']['own']>): MortgageLoan {
+  return {
+    startYear: own.purchaseYear,
+    amount: own.loanAmount,
+    interestRate: own.interestRate,
+    termYears: own.loanTermYears,
+    rateType: own.rateType,
+    fixedPeriodYears: own.fixedPeriodYears,
+    rateChanges: own.rateChanges,
+    repaymentMethod: own.repaymentMethod,
+    prepayments: own.prepayments,
+  };
+}
+
+// 変動金利が適用される最初の年（全期間固定の場合は undefined）
+function getVariableStartYear(loan: MortgageLoan): number | undefined {
+  if (loan.rateType === 'variable') return loan.startYear;
+  if (loan.rateType === 'fixed_period') return loan.startYear + loan.fixedPeriodYears;
+  return undefined;
+}
+
+// 指定年の適用金利（%）
+export function getMortgageRate(loan: MortgageLoan, year: number): number {
+  const variableStartYear = getVariableStartYear(loan);
+  if (variableStartYear === undefined || year < variableStartYear) {
+    return loan.interestRate;
+  }
+  const change = [...loan.rateChanges]
+    .filter(c => c.year <= year)
+    .sort((a, b) => a.year - b.year)
+    .pop();
+  let rate = change ? change.rate : loan.interestRate;
+  if (loan.stress && year >= loan.stress.startYear && loan.stress.years > 0) {
+    const progress = Math.min(1, (year - loan.stress.startYear + 1) / loan.stress.years);
+    rate += loan.stress.increase * progress;
+  }
+  return Math.max(0, rate);
+}
+
+// 5年ルール・125%ルールの対象（変動金利の元利均等返済）
+function usesPaymentRules(loan: MortgageLoan): boolean {
+  return loan.rateType === 'variable' && loan.repaymentMethod === 'equal_payment';
+}
+
+export function buildMortgageSchedule(loan: MortgageLoan): MortgageScheduleYear[] {
+  let rate = getMortgageRate(loan, loan.startYear);
+  let monthlyRate = rate / 100 / 12;
+  let balance = loan.amount;
+  let unpaidInterest = 0;
+  let remainingMonths = loan.termYears * 12;
+  let monthlyPayment = calculateLevelPayment(balance, monthlyRate, remainingMonths);
+  let monthlyPrincipal = remainingMonths > 0 ? balance / remainingMonths : balance;
+
+  const schedule: MortgageScheduleYear[] = [];
+  for (let year = loan.startYear; (balance > 0.001 || unpaidInterest > 0.001) && remainingMonths > 0; year++) {
+    const yearRate = getMortgageRate(loan, year);
+    if (usesPaymentRules(loan)) {
+      // 金利は毎年見直すが、返済額は5年ごとに最大125%まで引き上げる
+      rate = yearRate;
+      monthlyRate = rate / 100 / 12;
+      const yearsSinceStart = year - loan.startYear;
+      if (yearsSinceStart > 0 && yearsSinceStart % PAYMENT_REVIEW_INTERVAL_YEARS === 0) {
+        const recalculated = calculateLevelPayment(balance + unpaidInterest, monthlyRate, remainingMonths);
+        monthlyPayment = Math.min(recalculated, monthlyPayment * PAYMENT_INCREASE_CAP);
+      }
+    } else if (yearRate !== rate) {
+      // 固定期間の終了後や金利の変更時は残りの期間で返済額を再計算する
+      rate = yearRate;
+      monthlyRate = rate / 100 / 12;
+      monthlyPayment = calculateLevelPayment(balance, monthlyRate, remainingMonths);
+    }
+
+    let payment = 0;
+    let principal = 0;
+    let interest = 0;
+    for (let month = 0; month < 12 && remainingMonths > 0 && (balance > 0.001 || unpaidInterest > 0.001); month++) {
+      const interestDue = balance * monthlyRate;
+      let monthPrincipal: number;
+      let monthInterest: number;
+      if (remainingMonths === 1) {
+        // 最終回は残高と未払利息をすべて返済する
+        monthPrincipal = balance;
+        monthInterest = interestDue + unpaidInterest;
+        unpaidInterest = 0;
+      } else if (loan.repaymentMethod === 'equal_principal') {
+        monthPrincipal = Math.min(balance, monthlyPrincipal);
+        monthInterest = interestDue;
+      } else {
+        // 返済額は利息、未払利息、元金の順に充当し、足りない利息は未払利息として繰り越す
+        const interestPaid = Math.min(monthlyPayment, interestDue);
+        unpaidInterest += interestDue - interestPaid;
+        let remaining = monthlyPayment - interestPaid;
+        const unpaidPaid = Math.min(remaining, unpaidInterest);
+        unpaidInterest -= unpaidPaid;
+        remaining -= unpaidPaid;
+        monthPrincipal = Math.min(balance, remaining);
+        monthInterest = interestPaid + unpaidPaid;
+      }
+      balance -= monthPrincipal;
+      remainingMonths--;
+      payment += monthPrincipal + monthInterest;
+      principal += monthPrincipal;
+      interest += monthInterest;
+    }
+
+    let prepaid = 0;
+    for (const prepayment of loan.prepayments.filter(p => p.year === year)) {
+      const amount = Math.min(balance + unpaidInterest, Math.max(0, prepayment.amount));
+      if (amount <= 0) continue;
+      // 未払利息を先に精算する
+      const unpaidPaid = Math.min(amount, unpaidInterest);
+      unpaidInterest -= unpaidPaid;
+      balance -= amount - unpaidPaid;
+      prepaid += amount;
+      if (balance <= 0.001 && unpaidInterest <= 0.001) {
+        remainingMonths = 0;
+      } else if (prepayment.type === 'shorten_term') {
+        if (loan.repaymentMethod === 'equal_principal') {
+          remainingMonths = Math.ceil(balance / monthlyPrincipal);
+        } else if (monthlyPayment > balance * monthlyRate) {
+          remainingMonths = Math.min(remainingMonths, calculateRemainingMonths(balance, monthlyRate, monthlyPayment));
+        }
+      } else {
+        monthlyPayment = calculateLevelPayment(balance, monthlyRate, remainingMonths);
+        monthlyPrincipal = balance / remainingMonths;
+      }
+    }
+
+    schedule.push({
+      year,
+      interestRate: Number(rate.toFixed(3)),
+      payment: round(payment),
+      principal: round(principal),
+      interest: round(interest),
+      prepayment: round(prepaid),
+      balance: round(Math.max(0, balance)),
+      unpaidInterest: round(unpaidInterest),
+    });
+  }
+  return schedule;
+}
+
+export function summarizeMortgage(loan: MortgageLoan): MortgageSummary {
+  const schedule = buildMortgageSchedule(loan);
+  const totalInterest = schedule.reduce((sum, year) => sum + year.interest, 0);
+  const withoutPrepayments = buildMortgageSchedule({ ...loan, prepayments: [] })
+    .reduce((sum, year) => sum + year.interest, 0);
+  return {
+    totalPayment: round(schedule.reduce((sum, year) => sum + year.payment + year.prepayment, 0)),
+    totalInterest: round(totalInterest),
+    interestSaved: round(Math.max(0, withoutPrepayments - totalInterest)),
+    payoffYear: schedule.length > 0 ? schedule[schedule.length - 1].year : undefined,
+  };
+}
+
+export interface MortgageStressResult {
+  increase: number;
+  totalPayment: number;
+  totalInterest: number;
+  // 最も多い年の返済額（繰上返済を除く）
+  maxAnnualPayment: number;
+  maxUnpaidInterest: number;
+}
+
+// 金利上昇ストレスの比較（全期間固定の場合はどのシナリオも同じ結果になる）
+export function compareRateStressScenarios(
+  loan: MortgageLoan,
+  increases: number[],
+  years: number,
+  startYear: number = loan.startYear
+): MortgageStressResult[] {
+  return increases.map((increase): MortgageStressResult => {
+    const stressed: MortgageLoan = { ...loan, stress: { increase, years, startYear } };
+    const schedule = buildMortgageSchedule(stressed);
+    const summary = summarizeMortgage(stressed);
+    return {
+      increase,
+      totalPayment: summary.totalPayment,
+      totalInterest: summary.totalInterest,
+      maxAnnualPayment: Math.max(0, ...schedule.map(year => year.payment)),
+      maxUnpaidInterest: Math.max(0, ...schedule.map(year => year.unpaidInterest)),
+    };
+  });
+}
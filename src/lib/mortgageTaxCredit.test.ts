@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { calculateMortgageTaxCredit, getMortgageTaxCreditRule } from '@/lib/mortgageTaxCredit';
+import { calculateNetIncome } from '@/lib/calculations';
+
+describe('getMortgageTaxCreditRule', () => {
+  it('令和6年以降の新築は住宅の性能と子育て世帯かどうかで借入限度額が変わる', () => {
+    expect(getMortgageTaxCreditRule(2024, 'zeh', true)).toMatchObject({ rate: 0.7, balanceLimit: 3500, years: 13 });
+    expect(getMortgageTaxCreditRule(2024, 'zeh', true, true).balanceLimit).toBe(4500);
+    expect(getMortgageTaxCreditRule(2024, 'standard', true).balanceLimit).toBe(0);
+  });
+
+  it('中古住宅は10年間、令和3年以前の入居は控除率1%', () => {
+    expect(getMortgageTaxCreditRule(2024, 'standard', false)).toMatchObject({ balanceLimit: 2000, years: 10 });
+    expect(getMortgageTaxCreditRule(2021, 'standard', true)).toMatchObject({ rate: 1, balanceLimit: 4000 });
+  });
+});
+
+describe('calculateMortgageTaxCredit', () => {
+  const rule = getMortgageTaxCreditRule(2024, 'zeh', true);
+
+  it('年末残高（借入限度額まで）に控除率をかけ、100円未満を切り捨てる', () => {
+    expect(calculateMortgageTaxCredit(rule, 2024, 2024, 4000)?.amount).toBe(24.5);
+    expect(calculateMortgageTaxCredit(rule, 2024, 2025, 1000)?.amount).toBe(7);
+    expect(calculateMortgageTaxCredit(rule, 2024, 2025, 1234.56)?.amount).toBe(8.64);
+  });
+
+  it('控除期間外は対象外', () => {
+    expect(calculateMortgageTaxCredit(rule, 2024, 2037, 1000)).toBeUndefined();
+  });
+});
+
+describe('calculateNetIncome の住宅ローン控除', () => {
+  const credit = { amount: 30, incomeLimit: 2000, residentTaxRate: 5, residentTaxCap: 9.75 };
+
+  it('所得税から控除しきれない額を住民税から上限まで控除する', () => {
+    const { deductions } = calculateNetIncome(500, 'company_employee', {}, { mortgageTaxCredit: credit });
+    const without = calculateNetIncome(500, 'company_employee').deductions;
+    expect(deductions.incomeTax).toBe(0);
+    expect(without.residentTax - deductions.residentTax).toBeLessThanOrEqual(credit.residentTaxCap);
+    expect(deductions.mortgageTaxCredit).toBeCloseTo(
+      without.incomeTax + without.residentTax - deductions.residentTax,
+      0
+    );
+  });
+
+  it('合計所得金額が上限を超えると控除しない', () => {
+    const { deductions } = calculateNetIncome(500, 'company_employee', {}, {
+      mortgageTaxCredit: { ...credit, incomeLimit: 100 },
+    });
+    expect(deductions.mortgageTaxCredit).toBe(0);
+  });
+});
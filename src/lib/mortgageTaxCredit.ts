@@ -0,0 +1,102 @@
+import type { HomeType } from '@/store/simulator';
+
+// 住宅ローン控除（住宅借入金等特別控除、金額は万円）
+// 令和4年以降の入居は年末残高の0.7%、それより前は1%。令和8年以降の入居は令和7年の制度が続くものとする
+
+export interface MortgageTaxCreditRule {
+  // 年末残高に対する控除率（%）
+  rate: number;
+  // 控除の対象となる借入限度額
+  balanceLimit: number;
+  years: number;
+  // 合計所得金額の上限
+  incomeLimit: number;
+  // 所得税から控除しきれない額を住民税から控除する上限（課税総所得金額等に対する率と金額）
+  residentTaxRate: number;
+  residentTaxCap: number;
+}
+
+// calculateNetIncome に渡す、その年の控除額と適用条件
+export interface MortgageTaxCreditInput {
+  amount: number;
+  incomeLimit: number;
+  residentTaxRate: number;
+  residentTaxCap: number;
+}
+
+export const HOME_TYPE_LABELS: Record<HomeType, string> = {
+  certified: '長期優良住宅・低炭素住宅',
+  zeh: 'ZEH水準省エネ住宅',
+  energy_efficient: '省エネ基準適合住宅',
+  standard: 'その他の住宅',
+};
+
+// 新築・買取再販住宅の借入限度額（令和4・5年入居、令和6・7年入居、令和6・7年入居の子育て世帯・若者夫婦世帯）
+const NEW_HOME_BALANCE_LIMITS: Record<HomeType, { until2023: number; from2024: number; childRearing: number }> = {
+  certified: { until2023: 5000, from2024: 4500, childRearing: 5000 },
+  zeh: { until2023: 4500, from2024: 3500, childRearing: 4500 },
+  energy_efficient: { until2023: 4000, from2024: 3000, childRearing: 4000 },
+  // 令和6年以降に建築確認を受けたその他の新築住宅は対象外
+  standard: { until2023: 3000, from2024: 0, childRearing: 0 },
+};
+
+export function getMortgageTaxCreditRule(
+  purchaseYear: number,
+  homeType: HomeType,
+  newlyBuilt: boolean,
+  // 19歳未満の子がいる世帯、または夫婦のいずれかが40歳未満の世帯
+  childRearing: boolean = false
+): MortgageTaxCreditRule {
+  if (purchaseYear < 2022) {
+    // 令和3年以前の入居（消費税10%の特例は考慮せず10年間）
+    return {
+      rate: 1,
+      balanceLimit: homeType === 'certified' && newlyBuilt ? 5000 : newlyBuilt ? 4000 : 2000,
+      years: 10,
+      incomeLimit: 3000,
+      residentTaxRate: 7,
+      residentTaxCap: 13.65,
+    };
+  }
+
+  let balanceLimit: number;
+  let years: number;
+  if (newlyBuilt) {
+    const limits = NEW_HOME_BALANCE_LIMITS[homeType];
+    balanceLimit = purchaseYear <= 2023 ? limits.until2023 : childRearing ? limits.childRearing : limits.from2024;
+    years = homeType === 'standard' ? 10 : 13;
+  } else {
+    // 中古住宅は認定住宅・省エネ住宅が3,000万円、その他が2,000万円で10年間
+    balanceLimit = homeType === 'standard' ? 2000 : 3000;
+    years = 10;
+  }
+  return {
+    rate: 0.7,
+    balanceLimit,
+    years,
+    incomeLimit: 2000,
+    residentTaxRate: 5,
+    residentTaxCap: 9.75,
+  };
+}
+
+// 指定年の控除額（控除期間外は undefined）
+export function calculateMortgageTaxCredit(
+  rule: MortgageTaxCreditRule,
+  purchaseYear: number,
+  year: number,
+  yearEndBalance: number
+): MortgageTaxCreditInput | undefined {
+  if (year < purchaseYear || year >= purchaseYear + rule.years || yearEndBalance <= 0) {
+    return undefined;
+  }
+  // 100円未満切り捨て（0.7%などの小数の誤差で端数が切り下がらないよう先に丸める）
+  const amountIn100Yen = Number((Math.min(yearEndBalance, rule.balanceLimit) * rule.rate).toFixed(6));
+  const amount = Math.floor(amountIn100Yen) / 100;
+  return {
+    amount,
+    incomeLimit: rule.incomeLimit,
+    residentTaxRate: rule.residentTaxRate,
+    residentTaxCap: rule.residentTaxCap,
+  };
+}
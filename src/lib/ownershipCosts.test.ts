@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateOwnershipCosts,
+  calculatePropertyTax,
+  getAssessedValues,
+  getBuildingAssessedValue,
+  getMonthlyRepairReserve,
+} from '@/lib/ownershipCosts';
+import type { OwnHousing } from '@/store/simulator';
+
+const own: OwnHousing = {
+  purchaseYear: 2025,
+  purchasePrice: 5000,
+  loanAmount: 0,
+  interestRate: 0,
+  rateType: 'fixed',
+  fixedPeriodYears: 0,
+  rateChanges: [],
+  loanTermYears: 35,
+  maintenanceCostRate: 0,
+  repaymentMethod: 'equal_payment',
+  prepayments: [],
+  homeType: 'standard',
+  newlyBuilt: false,
+  propertyType: 'house',
+  landShare: 40,
+  landAssessedValue: 1200,
+  buildingAssessedValue: 1000,
+  managementFee: 1.5,
+  repairReserve: 1,
+  repairReserveStepYears: 5,
+  repairReserveStepRate: 20,
+  renovationCost: 200,
+  renovationIntervalYears: 15,
+};
+
+describe('getAssessedValues', () => {
+  it('評価額が未入力なら購入金額から推計する', () => {
+    expect(getAssessedValues(own)).toEqual({ land: 1200, building: 1000 });
+    expect(getAssessedValues({ ...own, landAssessedValue: 0, buildingAssessedValue: 0 }))
+      .toEqual({ land: 1400, building: 1800 });
+    expect(calculatePropertyTax({ ...own, landAssessedValue: 0, buildingAssessedValue: 0 }, 2026)).toBeGreaterThan(0);
+  });
+});
+
+describe('getBuildingAssessedValue', () => {
+  it('評価替えの年（3年ごと）にだけ下がり、下限は20%', () => {
+    expect(getBuildingAssessedValue(own, 2027)).toBe(1000);
+    expect(getBuildingAssessedValue(own, 2028)).toBeCloseTo(1000 * (1 - 0.8 * 3 / 35));
+    expect(getBuildingAssessedValue(own, 2100)).toBe(200);
+  });
+});
+
+describe('calculatePropertyTax', () => {
+  it('住宅用地の特例を適用し、新築の建物は一定期間1/2に減額する', () => {
+    // 土地 1200/6 × 1.4% + 建物 1000 × 1.4% + (土地 1200/3 + 建物 1000) × 0.3%
+    expect(calculatePropertyTax(own, 2026)).toBeCloseTo(2.8 + 14 + 4.2);
+    expect(calculatePropertyTax({ ...own, newlyBuilt: true }, 2026)).toBeCloseTo(2.8 + 7 + 4.2);
+    expect(calculatePropertyTax({ ...own, newlyBuilt: true }, 2029)).toBeCloseTo(calculatePropertyTax(own, 2029));
+  });
+});
+
+describe('calculateOwnershipCosts', () => {
+  it('固定資産税は購入の翌年から、戸建ては大規模修繕を周期ごとに計上する', () => {
+    expect(calculateOwnershipCosts(own, 2025).propertyTax).toBe(0);
+    expect(calculateOwnershipCosts(own, 2026).propertyTax).toBe(21);
+    expect(calculateOwnershipCosts(own, 2040).renovation).toBe(200);
+    expect(calculateOwnershipCosts(own, 2041).renovation).toBe(0);
+  });
+
+  it('マンションは管理費と段階的に上がる修繕積立金を計上する', () => {
+    const condo: OwnHousing = { ...own, propertyType: 'condo' };
+    expect(getMonthlyRepairReserve(condo, 2030)).toBeCloseTo(1.2);
+    expect(calculateOwnershipCosts(condo, 2030)).toMatchObject({ managementFee: 18, repairReserve: 14.4, renovation: 0 });
+  });
+});
@@ -0,0 +1,121 @@
+import type { OwnHousing, PropertyType } from '@/store/simulator';
+
+// 持ち家の保有コスト（固定資産税・都市計画税、管理費・修繕積立金、大規模修繕、金額は万円/年）
+
+// 固定資産税の標準税率と都市計画税の制限税率（%）
+export const PROPERTY_TAX_RATE = 1.4;
+export const CITY_PLANNING_TAX_RATE = 0.3;
+// 小規模住宅用地（200㎡以下）の課税標準の特例
+const RESIDENTIAL_LAND_PROPERTY_TAX_RATIO = 1 / 6;
+const RESIDENTIAL_LAND_CITY_PLANNING_TAX_RATIO = 1 / 3;
+// 固定資産税評価額は3年ごとに評価替え
+const REASSESSMENT_INTERVAL_YEARS = 3;
+// 建物の経年減点補正率の下限と、下限に達するまでの年数
+const BUILDING_VALUE_FLOOR = 0.2;
+const BUILDING_DEPRECIATION_YEARS: Record<PropertyType, number> = {
+  house: 35,
+  condo: 60,
+};
+// 新築住宅の建物の固定資産税の1/2減額の期間（長期優良住宅は2年延長）
+const NEW_BUILDING_REDUCTION_YEARS: Record<PropertyType, number> = {
+  house: 3,
+  condo: 5,
+};
+const CERTIFIED_REDUCTION_EXTENSION_YEARS = 2;
+// 評価額が未入力（0）の場合の推計に使う、時価に対する評価額の割合
+const LAND_ASSESSMENT_RATIO = 0.7;
+const BUILDING_ASSESSMENT_RATIO = 0.6;
+
+export const PROPERTY_TYPE_LABELS: Record<PropertyType, string> = {
+  house: '戸建て',
+  condo: 'マンション',
+};
+
+export interface OwnershipCosts {
+  propertyTax: number;
+  // マンションの管理費と修繕積立金
+  managementFee: number;
+  repairReserve: number;
+  // 戸建ての大規模修繕
+  renovation: number;
+  // 購入金額 × 住宅維持費率
+  maintenance: number;
+  total: number;
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(1));
+}
+
+// 購入時の固定資産税評価額（入力がなければ購入価格を土地の割合で分けて推計する）
+export function getAssessedValues(own: OwnHousing): { land: number; building: number } {
+  const landPrice = own.purchasePrice * (own.landShare / 100);
+  return {
+    land: own.landAssessedValue > 0 ? own.landAssessedValue : landPrice * LAND_ASSESSMENT_RATIO,
+    building: own.buildingAssessedValue > 0
+      ? own.buildingAssessedValue
+      : (own.purchasePrice - landPrice) * BUILDING_ASSESSMENT_RATIO,
+  };
+}
+
+// 指定年の建物の固定資産税評価額（評価替えの年にだけ下がる）
+export function getBuildingAssessedValue(own: OwnHousing, year: number): number {
+  const yearsOwned = Math.max(0, year - own.purchaseYear);
+  const assessedYears = yearsOwned - (yearsOwned % REASSESSMENT_INTERVAL_YEARS);
+  const depreciationYears = BUILDING_DEPRECIATION_YEARS[own.propertyType];
+  const ratio = Math.max(BUILDING_VALUE_FLOOR, 1 - (1 - BUILDING_VALUE_FLOOR) * (assessedYears / depreciationYears));
+  return getAssessedValues(own).building * ratio;
+}
+
+// 固定資産税と都市計画税の合計（土地の評価額は変わらないものとする）
+export function calculatePropertyTax(own: OwnHousing, year: number): number {
+  const yearsOwned = year - own.purchaseYear;
+  const land = getAssessedValues(own).land;
+  const building = getBuildingAssessedValue(own, year);
+  let reductionYears = NEW_BUILDING_REDUCTION_YEARS[own.propertyType];
+  if (own.homeType === 'certified') {
+    reductionYears += CERTIFIED_REDUCTION_EXTENSION_YEARS;
+  }
+  // 新築住宅の減額は購入の翌年度から
+  const buildingReduction = own.newlyBuilt && yearsOwned >= 1 && yearsOwned <= reductionYears ? 0.5 : 1;
+
+  const propertyTax =
+    (land * RESIDENTIAL_LAND_PROPERTY_TAX_RATIO + building * buildingReduction) *
+    (PROPERTY_TAX_RATE / 100);
+  const cityPlanningTax =
+    (land * RESIDENTIAL_LAND_CITY_PLANNING_TAX_RATIO + building) *
+    (CITY_PLANNING_TAX_RATE / 100);
+  return propertyTax + cityPlanningTax;
+}
+
+// 修繕積立金（段階増額積立方式：stepYears 年ごとに stepRate %引き上げ）
+export function getMonthlyRepairReserve(own: OwnHousing, year: number): number {
+  const yearsOwned = Math.max(0, year - own.purchaseYear);
+  const steps = own.repairReserveStepYears > 0 ? Math.floor(yearsOwned / own.repairReserveStepYears) : 0;
+  return own.repairReserve * Math.pow(1 + own.repairReserveStepRate / 100, steps);
+}
+
+export function calculateOwnershipCosts(own: OwnHousing, year: number): OwnershipCosts {
+  if (year < own.purchaseYear) {
+    return { propertyTax: 0, managementFee: 0, repairReserve: 0, renovation: 0, maintenance: 0, total: 0 };
+  }
+  const yearsOwned = year - own.purchaseYear;
+  // 固定資産税は1月1日の所有者に課税されるので購入の翌年から
+  const propertyTax = yearsOwned >= 1 ? round(calculatePropertyTax(own, year)) : 0;
+  const isCondo = own.propertyType === 'condo';
+  const managementFee = isCondo ? round(own.managementFee * 12) : 0;
+  const repairReserve = isCondo ? round(getMonthlyRepairReserve(own, year) * 12) : 0;
+  const renovation = !isCondo && own.renovationIntervalYears > 0 && yearsOwned > 0 &&
+    yearsOwned % own.renovationIntervalYears === 0
+    ? own.renovationCost
+    : 0;
+  const maintenance = round(own.purchasePrice * (own.maintenanceCostRate / 100));
+  return {
+    propertyTax,
+    managementFee,
+    repairReserve,
+    renovation,
+    maintenance,
+    total: round(propertyTax + managementFee + repairReserve + renovation + maintenance),
+  };
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { getParentalLeaveYear } from '@/lib/parentalLeave';
+import type { ParentalLeave } from '@/store/simulator';
+
+const leave: ParentalLeave = {
+  person: 'self',
+  startYear: 2027,
+  startMonth: 4,
+  months: 12,
+  shortHoursYears: 2,
+  shortHoursPayRate: 75,
+};
+
+describe('getParentalLeaveYear', () => {
+  it('休業開始から6か月は67%、以降は50%を賃金月額の上限までで支給する', () => {
+    // 年収624万円の賃金月額52万円は上限の47.07万円で頭打ち
+    const year = getParentalLeaveYear([leave], 'self', 2027, 624, 'company_employee');
+    expect(year.leaveMonths).toBe(9);
+    expect(year.payRatio).toBeCloseTo(3 / 12);
+    expect(year.benefit).toBeCloseTo(47.07 * 0.67 * 6 + 47.07 * 0.5 * 3, 1);
+  });
+
+  it('復職後は短時間勤務の給与の割合で働く', () => {
+    const year = getParentalLeaveYear([leave], 'self', 2028, 600, 'company_employee');
+    expect(year.leaveMonths).toBe(3);
+    expect(year.shortHoursMonths).toBe(9);
+    expect(year.payRatio).toBeCloseTo((9 * 0.75) / 12);
+  });
+
+  it('自営業は給付金の対象外で、もう一方の人の休業は影響しない', () => {
+    expect(getParentalLeaveYear([leave], 'self', 2027, 600, 'self_employed').benefit).toBe(0);
+    expect(getParentalLeaveYear([leave], 'spouse', 2027, 600, 'company_employee').payRatio).toBe(1);
+  });
+});
@@ -0,0 +1,72 @@
+import type { ParentalLeave } from '@/store/simulator';
+
+// 育児休業と短時間勤務による給与の減少と、育児休業給付金（非課税、金額は万円）
+
+// 育児休業給付金の給付率（休業開始から6か月は67%、以降は50%）
+const LEAVE_BENEFIT_RATE_INITIAL = 0.67;
+const LEAVE_BENEFIT_RATE = 0.5;
+const LEAVE_BENEFIT_INITIAL_MONTHS = 6;
+// 休業開始時賃金月額の上限（令和6年8月以降）
+const LEAVE_BENEFIT_WAGE_CAP = 47.07;
+
+export interface ParentalLeaveYear {
+  // 休業していた月数（この間は給与がなく、健康保険・厚生年金の保険料が免除される）
+  leaveMonths: number;
+  // 短時間勤務をしていた月数
+  shortHoursMonths: number;
+  // 通常の年収に対するその年の給与の割合
+  payRatio: number;
+  // 育児休業給付金
+  benefit: number;
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(1));
+}
+
+// 雇用保険に加入している働き方（自営業・専業主婦は給付金の対象外）
+function isEmploymentInsured(occupation: string): boolean {
+  return occupation !== 'self_employed' && occupation !== 'homemaker';
+}
+
+// 本人または配偶者の指定年の休業・短時間勤務の状況。annualIncome は休業がない場合の年収
+export function getParentalLeaveYear(
+  leaves: ParentalLeave[],
+  person: ParentalLeave['person'],
+  year: number,
+  annualIncome: number,
+  occupation: string
+): ParentalLeaveYear {
+  // 各月の給与の割合と給付率（月は年×12+月−1の通し番号）
+  const wageRatios: number[] = Array(12).fill(1);
+  const benefitRates: number[] = Array(12).fill(0);
+  const firstMonth = year * 12;
+  for (const leave of leaves.filter(leave => leave.person === person)) {
+    const leaveStart = leave.startYear * 12 + leave.startMonth - 1;
+    const shortHoursEnd = leaveStart + leave.months + leave.shortHoursYears * 12;
+    for (let month = Math.max(leaveStart, firstMonth); month < Math.min(shortHoursEnd, firstMonth + 12); month++) {
+      const monthsSinceStart = month - leaveStart;
+      const index = month - firstMonth;
+      if (monthsSinceStart < leave.months) {
+        wageRatios[index] = 0;
+        benefitRates[index] = monthsSinceStart < LEAVE_BENEFIT_INITIAL_MONTHS
+          ? LEAVE_BENEFIT_RATE_INITIAL
+          : LEAVE_BENEFIT_RATE;
+      } else if (wageRatios[index] > 0) {
+        wageRatios[index] = Math.min(wageRatios[index], leave.shortHoursPayRate / 100);
+      }
+    }
+  }
+
+  const leaveMonths = wageRatios.filter(ratio => ratio === 0).length;
+  const monthlyWage = Math.min(annualIncome / 12, LEAVE_BENEFIT_WAGE_CAP);
+  const benefit = isEmploymentInsured(occupation)
+    ? benefitRates.reduce((sum, rate) => sum + monthlyWage * rate, 0)
+    : 0;
+  return {
+    leaveMonths,
+    shortHoursMonths: wageRatios.filter(ratio => ratio > 0 && ratio < 1).length,
+    payRatio: wageRatios.reduce((sum, ratio) => sum + ratio, 0) / 12,
+    benefit: round(benefit),
+  };
+}
@@ -0,0 +1,142 @@
+import type { BasicInfo, OwnHousing, Parameters, RentHousing } from '@/store/simulator';
+import { calculateMonthlyMortgage } from '@/lib/calculations';
+import {
+  simulate,
+  type SimulationPlan,
+  type CashFlowOverrides,
+  type SimulationYear,
+} from '@/lib/simulation';
+import { isPlanSuccessful } from '@/lib/monteCarlo';
+
+// 賃貸を続ける場合と住宅を購入する場合の比較（現在のプランの住まいだけを入れ替えて2回シミュレーションする）
+
+export interface RentVsBuyInput {
+  // 賃貸を続ける場合の家賃（購入する場合も購入年の前年まで支払う）
+  rent: RentHousing;
+  // 購入する持ち家（借入額 = 購入金額 − 頭金）
+  own: OwnHousing;
+  // 登記費用・仲介手数料などの購入諸費用と引越し費用
+  closingCosts: number;
+}
+
+export interface RentVsBuyYear {
+  year: number;
+  age: number;
+  rentHousingCost: number;
+  buyHousingCost: number;
+  // 住居費の累計
+  rentCumulativeCost: number;
+  buyCumulativeCost: number;
+  rentAssets: number;
+  buyAssets: number;
+  rentNetWorth: number;
+  buyNetWorth: number;
+}
+
+export interface RentVsBuyResult {
+  years: RentVsBuyYear[];
+  // 購入した場合の純資産が賃貸を上回り、その後も下回らなくなる年（最後まで上回らない場合は undefined）
+  breakEvenYear?: number;
+  // 購入した場合の毎月のローン返済額（当初）
+  monthlyMortgagePayment: number;
+  rentSuccessful: boolean;
+  buySuccessful: boolean;
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(1));
+}
+
+// 住居費の手入力は住まいを入れ替えると意味が変わるため、比較では使わない
+function withoutHousingOverrides(overrides: CashFlowOverrides): CashFlowOverrides {
+  return Object.fromEntries(
+    Object.entries(overrides).map(([year, override]) => {
+      const expense = Object.fromEntries(
+        Object.entries(override.expense ?? {}).filter(([key]) => key !== 'housing')
+      );
+      return [year, { ...override, expense }];
+    })
+  );
+}
+
+function getScenarioHousing(input: RentVsBuyInput, startYear: number, buy: boolean): BasicInfo['housingInfo'] {
+  return {
+    type: 'rent',
+    rent: input.rent,
+    phases: buy
+      ? [{
+          type: 'own',
+          startYear: Math.max(startYear, input.own.purchaseYear),
+          own: input.own,
+          movingCost: input.closingCosts,
+          salePrice: 0,
+          saleCostRate: 0,
+        }]
+      : [],
+  };
+}
+
+// 購入した場合の純資産が賃貸を最後まで下回らなくなる最初の年
+function findBreakEvenYear(years: RentVsBuyYear[]): number | undefined {
+  let breakEvenYear: number | undefined;
+  for (const year of years) {
+    if (year.buyNetWorth < year.rentNetWorth) {
+      breakEvenYear = undefined;
+    } else if (breakEvenYear === undefined) {
+      breakEvenYear = year.year;
+    }
+  }
+  return breakEvenYear;
+}
+
+export function compareRentVsBuy(
+  plan: SimulationPlan,
+  parameters: Parameters,
+  input: RentVsBuyInput,
+  overrides: CashFlowOverrides = {}
+): RentVsBuyResult {
+  const scenarioOverrides = withoutHousingOverrides(overrides);
+  const run = (buy: boolean): SimulationYear[] => simulate(
+    {
+      ...plan,
+      basicInfo: {
+        ...plan.basicInfo,
+        housingInfo: getScenarioHousing(input, plan.basicInfo.startYear, buy),
+      },
+    },
+    parameters,
+    scenarioOverrides
+  ).years;
+  const rentYears = run(false);
+  const buyYears = run(true);
+
+  let rentCumulativeCost = 0;
+  let buyCumulativeCost = 0;
+  const years = rentYears.map((rentYear, index): RentVsBuyYear => {
+    const buyYear = buyYears[index];
+    rentCumulativeCost += rentYear.expense.housing;
+    buyCumulativeCost += buyYear.expense.housing;
+    return {
+      year: rentYear.year,
+      age: rentYear.age,
+      rentHousingCost: rentYear.expense.housing,
+      buyHousingCost: buyYear.expense.housing,
+      rentCumulativeCost: round(rentCumulativeCost),
+      buyCumulativeCost: round(buyCumulativeCost),
+      rentAssets: rentYear.assets,
+      buyAssets: buyYear.assets,
+      rentNetWorth: rentYear.netWorth,
+      buyNetWorth: buyYear.netWorth,
+    };
+  });
+
+  return {
+    years,
+    breakEvenYear: findBreakEvenYear(years),
+    monthlyMortgagePayment: round(
+      calculateMonthlyMortgage(input.own.loanAmount, input.own.interestRate, input.own.loanTermYears)
+    ),
+    rentSuccessful: isPlanSuccessful(rentYears),
+    buySuccessful: isPlanSuccessful(buyYears),
+  };
+}
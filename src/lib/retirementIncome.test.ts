@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateRetirementIncome,
+  calculateRetirementIncomeDeduction,
+  calculateRetirementIncomeTax,
+} from '@/lib/retirementIncome';
+
+describe('calculateRetirementIncomeDeduction', () => {
+  it('20年以下は1年40万円（最低80万円）、20年超は1年70万円', () => {
+    expect(calculateRetirementIncomeDeduction(1)).toBe(80);
+    expect(calculateRetirementIncomeDeduction(10)).toBe(400);
+    expect(calculateRetirementIncomeDeduction(30)).toBe(1500);
+  });
+});
+
+describe('calculateRetirementIncome', () => {
+  it('控除後の金額の1/2を退職所得とする', () => {
+    expect(calculateRetirementIncome(2000, 30)).toBe(250);
+  });
+
+  it('勤続5年以下は控除後300万円を超える部分を1/2にしない', () => {
+    expect(calculateRetirementIncome(1000, 3)).toBe(730);
+  });
+});
+
+describe('calculateRetirementIncomeTax', () => {
+  it('退職所得控除の範囲内なら税金はかからない', () => {
+    expect(calculateRetirementIncomeTax(1000, 40)).toMatchObject({ deduction: 1000, total: 0, netAmount: 1000 });
+  });
+});
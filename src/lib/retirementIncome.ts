@@ -0,0 +1,107 @@
+import { calculateIncomeTax, calculateNetIncome } from '@/lib/calculations';
+
+// 退職一時金（退職金・iDeCo一時金）の課税と、一時金・年金受取の比較（金額は万円）
+
+// 勤続5年以下の短期退職手当等は、控除後300万円を超える部分に1/2課税が適用されない
+const SHORT_SERVICE_YEARS = 5;
+const SHORT_SERVICE_HALF_TAXATION_LIMIT = 300;
+
+// 受取方法の比較で並べる年金受取の期間（年）
+export const PAYOUT_ANNUITY_YEARS = [5, 10, 15, 20];
+
+// 勤続年数（1年未満の端数は切り上げ、最低1年）
+export function getYearsOfService(startAge: number, endAge: number): number {
+  return Math.max(1, Math.ceil(endAge - startAge));
+}
+
+// 退職所得控除（20年以下は1年40万円・最低80万円、20年超は1年70万円）
+export function calculateRetirementIncomeDeduction(yearsOfService: number): number {
+  const years = Math.max(1, Math.ceil(yearsOfService));
+  return years <= 20 ? Math.max(80, 40 * years) : 800 + 70 * (years - 20);
+}
+
+// 退職所得（控除後の金額の1/2、1,000円未満切り捨て）
+export function calculateRetirementIncome(amount: number, yearsOfService: number): number {
+  const remainder = Math.max(0, amount - calculateRetirementIncomeDeduction(yearsOfService));
+  const income = yearsOfService <= SHORT_SERVICE_YEARS && remainder > SHORT_SERVICE_HALF_TAXATION_LIMIT
+    ? SHORT_SERVICE_HALF_TAXATION_LIMIT / 2 + (remainder - SHORT_SERVICE_HALF_TAXATION_LIMIT)
+    : remainder / 2;
+  return Math.floor(income * 10) / 10;
+}
+
+export interface RetirementIncomeTax {
+  deduction: number;
+  retirementIncome: number;
+  incomeTax: number;
+  residentTax: number;
+  total: number;
+  netAmount: number;
+}
+
+// 退職所得は他の所得と分離して課税し、住民税も受取時に徴収される（翌年課税ではない）
+export function calculateRetirementIncomeTax(amount: number, yearsOfService: number): RetirementIncomeTax {
+  if (amount <= 0) {
+    return { deduction: 0, retirementIncome: 0, incomeTax: 0, residentTax: 0, total: 0, netAmount: 0 };
+  }
+  const deduction = Math.min(amount, calculateRetirementIncomeDeduction(yearsOfService));
+  const retirementIncome = calculateRetirementIncome(amount, yearsOfService);
+  const incomeTax = calculateIncomeTax(retirementIncome);
+  const residentTax = Math.floor(retirementIncome * 0.10);
+  const total = incomeTax + residentTax;
+  return {
+    deduction,
+    retirementIncome,
+    incomeTax,
+    residentTax,
+    total,
+    netAmount: Number((amount - total).toFixed(1)),
+  };
+}
+
+export interface AnnuityPayout {
+  years: number;
+  annualPayment: number;
+  // 公的年金に上乗せされることで増える所得税・住民税の合計
+  tax: number;
+  netAmount: number;
+}
+
+export interface PayoutComparison {
+  lumpSum: RetirementIncomeTax;
+  annuities: AnnuityPayout[];
+}
+
+// 公的年金等の収入にかかる所得税・住民税（他の所得はないものとする）
+function calculatePensionTax(pensionIncome: number, age: number): number {
+  const { deductions } = calculateNetIncome(0, 'company_employee', {}, { age, pensionIncome });
+  return deductions.incomeTax + deductions.residentTax;
+}
+
+// 一時金で受け取る場合と、年金（公的年金等の雑所得）として分割で受け取る場合の手取りの比較。
+// 年金受取の期間中の運用益と、年金収入による国民健康保険料の増加は考慮しない
+export function comparePayoutMethods(params: {
+  amount: number;
+  yearsOfService: number;
+  payoutStartAge: number;
+  publicPension: number; // 公的年金の年額
+  publicPensionStartAge: number;
+  annuityYearsOptions: number[];
+}): PayoutComparison {
+  const lumpSum = calculateRetirementIncomeTax(params.amount, params.yearsOfService);
+  const annuities = params.annuityYearsOptions.map((years): AnnuityPayout => {
+    const annualPayment = params.amount / years;
+    let tax = 0;
+    for (let i = 0; i < years; i++) {
+      const age = params.payoutStartAge + i;
+      const publicPension = age >= params.publicPensionStartAge ? params.publicPension : 0;
+      tax += calculatePensionTax(publicPension + annualPayment, age) - calculatePensionTax(publicPension, age);
+    }
+    return {
+      years,
+      annualPayment: Number(annualPayment.toFixed(1)),
+      tax: Number(tax.toFixed(1)),
+      netAmount: Number((params.amount - tax).toFixed(1)),
+    };
+  });
+  return { lumpSum, annuities };
+}
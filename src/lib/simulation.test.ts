@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { simulate, type SimulationPlan } from '@/lib/simulation';
+import { useSimulatorStore } from '@/store/simulator';
+import { createParameters, createPlan as createFixturePlan } from '@/test/fixtures';
+
+// ストアの初期値に、30歳から34歳までの5年間・貯蓄1,000万円・生活費月10万円を設定したプラン
+function createPlan(): SimulationPlan {
+  const { basicInfo, incomeInfo, lifeEvents, assetsLiabilities } = useSimulatorStore.getState();
+  return {
+    basicInfo: { ...basicInfo, currentAge: 30, startYear: 2025, deathAge: 34, monthlyLivingExpense: 10 },
+    incomeInfo,
+    lifeEvents,
+    assetsLiabilities: {
+      ...assetsLiabilities,
+      assets: { ...assetsLiabilities.assets, savings: 1000 },
+    },
+  };
+}
+
+describe('simulate', () => {
+  const parameters = { ...useSimulatorStore.getState().parameters, inflationRate: 0, investmentReturn: 0 };
+
+  it('開始年から寿命の年まで1年ごとに推移を返す', () => {
+    const { years } = simulate(createPlan(), parameters);
+    expect(years.map(year => year.year)).toEqual([2025, 2026, 2027, 2028, 2029]);
+    expect(years.map(year => year.age)).toEqual([30, 31, 32, 33, 34]);
+  });
+
+  it('期末資産は前年の資産に収支と運用収益を加えた額', () => {
+    const { initialAssets, years } = simulate(createPlan(), parameters);
+    expect(initialAssets).toBe(1000);
+    expect(years[0].expense.living).toBe(120);
+    years.forEach((year, index) => {
+      const previous = index === 0 ? initialAssets : years[index - 1].assets;
+      expect(year.assets).toBeCloseTo(previous + year.balance + year.investmentReturn, 1);
+    });
+  });
+
+  it('純資産は金融資産と不動産の評価額から住宅ローン残高を差し引いた額', () => {
+    const { years } = simulate(createPlan(), parameters);
+    years.forEach(year => {
+      expect(year.netWorth).toBeCloseTo(year.assets + year.realEstateValue - year.mortgageBalance, 1);
+    });
+  });
+
+  it('手入力した値で収入・支出の項目を置き換える', () => {
+    const { years } = simulate(createPlan(), parameters, { 2026: { expense: { living: 500 }, income: { other: 50 } } });
+    expect(years[1].expense.living).toBe(500);
+    expect(years[1].income.other).toBe(50);
+    expect(years[1].balance).toBeCloseTo(years[1].totalIncome - years[1].totalExpense, 1);
+    expect(years[2].expense.living).toBe(120);
+  });
+});
+
+describe('住民税', () => {
+  it('すでに結婚している場合、初年度も前年の配偶者の所得に対する住民税を計上する', () => {
+    const plan = createFixturePlan({
+      basicInfo: { maritalStatus: 'married', spouseInfo: { currentAge: 30, occupation: 'company_employee' } },
+      incomeInfo: {
+        annualIncome: 500,
+        spouse: { ...createFixturePlan().incomeInfo.spouse!, annualIncome: 400 },
+      },
+    });
+    const [first, second] = simulate(plan, createParameters()).years;
+    expect(first.expense.residentTax).toBeGreaterThan(0);
+    expect(first.expense.residentTax).toBe(second.expense.residentTax);
+  });
+});
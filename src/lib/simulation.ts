@@ -0,0 +1,878 @@
+import type {
+  BasicInfo,
+  IncomeInfo,
+  LifeEvent,
+  AssetsLiabilities,
+  Parameters,
+} from '@/store/simulator';
+import {
+  calculateNetIncome,
+  calculateEmploymentIncome,
+  calculatePension,
+  calculatePensionComponents,
+  calculatePublicPensionDeduction,
+} from '@/lib/calculations';
+import {
+  getCareerSegments,
+  getCareerSegment,
+  getLatestCareerSegment,
+  getCareerIncome,
+  getCareerEndAge,
+  getCareerPensionComponents,
+  calculateCareerPension,
+} from '@/lib/career';
+import { projectEducation, type EducationYear } from '@/lib/education';
+import { projectChildRearing, type ChildRearingYear } from '@/lib/childRearing';
+import { getParentalLeaveYear } from '@/lib/parentalLeave';
+import {
+  getInitialAssetBalances,
+  sumFinancialAssetBalances,
+  growAssetBalances,
+  applyCashFlowToBalances,
+  rebalanceAssetBalances,
+  EQUITY_ASSET_CLASSES,
+  type AssetBalances,
+} from '@/lib/assetClasses';
+import { projectNisa, projectIdeco } from '@/lib/taxAdvantagedAccounts';
+import type { MortgageScheduleYear } from '@/lib/mortgage';
+import type { OwnershipCosts } from '@/lib/ownershipCosts';
+import { buildHousingTimeline, getHousingPeriod, getHousingYear, type HousingPeriod } from '@/lib/housing';
+import {
+  getMortgageTaxCreditRule,
+  calculateMortgageTaxCredit,
+  type MortgageTaxCreditInput,
+} from '@/lib/mortgageTaxCredit';
+import type { IncomeDeductionInputs } from '@/lib/deductions';
+import { calculateBusinessIncome } from '@/lib/businessIncome';
+import { calculateRetirementIncomeTax, getYearsOfService } from '@/lib/retirementIncome';
+import {
+  calculateSpousalSupplement,
+  calculateTransferSupplement,
+  calculateSurvivorPension,
+} from '@/lib/familyPension';
+
+// Everything the projection needs to know about the household
+export interface SimulationPlan {
+  basicInfo: BasicInfo;
+  incomeInfo: IncomeInfo;
+  lifeEvents: LifeEvent[];
+  assetsLiabilities: AssetsLiabilities;
+}
+
+export interface IncomeLines {
+  main: number;
+  side: number;
+  spouse: number;
+  nisaWithdrawal: number;
+  idecoPayout: number;
+  // 持ち家の売却代金（諸費用を差し引いた額）
+  homeSale: number;
+  // 学資保険の満期金
+  educationInsuranceMaturity: number;
+  // 児童手当と出産育児一時金
+  childBenefits: number;
+  // 本人と配偶者の育児休業給付金（非課税）
+  parentalLeaveBenefit: number;
+  other: number;
+}
+
+export interface ExpenseLines {
+  living: number;
+  // 家賃・ローン返済・維持費と、持ち家を購入する年の頭金、住み替えの年の引越し費用・売却時のローン一括返済
+  housing: number;
+  // 親が負担する教育費（奨学金・教育資金の贈与で賄う分を除く）
+  education: number;
+  educationInsurancePremium: number;
+  // 教育費以外の子育て費用（養育費）と出産費用
+  childRearing: number;
+  // 前年の所得に対する住民税（主たる稼ぎ手と配偶者の合計）
+  residentTax: number;
+  nisaContribution: number;
+  idecoContribution: number;
+  other: number;
+}
+
+// 非課税口座の期末残高
+export interface TaxAdvantagedBalances {
+  nisa: number;
+  ideco: number;
+}
+
+// Manually edited values from the cash flow table, keyed by year
+export interface CashFlowOverrides {
+  [year: number]: {
+    income?: Partial<IncomeLines>;
+    expense?: Partial<ExpenseLines>;
+  };
+}
+
+// Year-by-year market path that replaces the fixed parameters (index 0 = startYear)
+export interface SimulationScenario {
+  returnRates?: number[];
+  inflationRates?: number[];
+}
+
+export interface CashFlowYear {
+  year: number;
+  age: number;
+  income: IncomeLines;
+  expense: ExpenseLines;
+  totalIncome: number;
+  totalExpense: number;
+  // 収支（運用収益を除く）
+  balance: number;
+  taxAdvantagedBalances: TaxAdvantagedBalances;
+  // 住宅ローンの返済状況（返済期間外は undefined）
+  mortgage?: MortgageScheduleYear;
+  // 持ち家の保有コストの内訳（住居費に含まれる）
+  ownershipCosts?: OwnershipCosts;
+  // 持ち家の年末の評価額
+  homeValue: number;
+  // その年の所得に対する住宅ローン控除（住民税分は翌年の住民税から差し引かれる）
+  mortgageTaxCredit: number;
+  // 教育費の総額と、奨学金・贈与・学資保険の内訳
+  education: EducationYear;
+  // 児童手当・出産・養育費の内訳
+  childRearing: ChildRearingYear;
+}
+
+export interface SimulationYear extends CashFlowYear {
+  // 期首資産に対する運用収益（税引後）
+  investmentReturn: number;
+  // 課税口座の運用益にかかった税額
+  capitalGainsTax: number;
+  // 期末の金融資産（運用収益・非課税口座込み、不動産を除く）。資産が尽きたかどうかはこの値で判定する
+  assets: number;
+  // 持ち家と、それ以外の不動産の評価額
+  realEstateValue: number;
+  // 住宅ローンの年末の残高（未払利息を含む）
+  mortgageBalance: number;
+  // 純資産（金融資産 + 不動産 − 住宅ローン）
+  netWorth: number;
+  // 資産クラス別の期末残高（資産クラス管理が有効な場合のみ）
+  assetBalances?: AssetBalances;
+}
+
+export interface SimulationResult {
+  // 現在の金融資産（不動産を除く）
+  initialAssets: number;
+  years: SimulationYear[];
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(1));
+}
+
+function sumLines(lines: IncomeLines | ExpenseLines): number {
+  return Object.values(lines).reduce((sum: number, value: number) => sum + value, 0);
+}
+
+// 本人の想定寿命の年まで。配偶者の想定寿命がそれより後なら配偶者の想定寿命の年まで
+export function getSimulationYears(basicInfo: BasicInfo): number[] {
+  const deathYear = basicInfo.startYear + (basicInfo.deathAge - basicInfo.currentAge);
+  const spouseDeathYear = getSpouseDeathYear(basicInfo);
+  const endYear = spouseDeathYear !== undefined ? Math.max(deathYear, spouseDeathYear) : deathYear;
+  return Array.from(
+    { length: Math.max(0, endYear - basicInfo.startYear + 1) },
+    (_, i) => basicInfo.startYear + i
+  );
+}
+
+// 開始年からの累積物価上昇倍率
+function getInflationMultiplier(
+  parameters: Parameters,
+  scenario: SimulationScenario,
+  yearsSinceStart: number
+): number {
+  if (!scenario.inflationRates) {
+    return Math.pow(1 + parameters.inflationRate / 100, yearsSinceStart);
+  }
+  return scenario.inflationRates
+    .slice(0, yearsSinceStart)
+    .reduce((multiplier, rate) => multiplier * (1 + rate / 100), 1);
+}
+
+// 年金額の改定率（物価上昇率からマクロ経済スライド調整率を差し引く）。
+// 名目下限措置により、物価上昇時でも改定率はマイナスにならない
+function getPensionRevisionRate(inflationRate: number, macroSlideRate: number): number {
+  return inflationRate > 0 ? Math.max(0, inflationRate - macroSlideRate) : inflationRate;
+}
+
+function getPensionIndexMultiplier(
+  parameters: Parameters,
+  scenario: SimulationScenario,
+  yearsSinceStart: number
+): number {
+  const inflationRates = scenario.inflationRates ?? Array(yearsSinceStart).fill(parameters.inflationRate);
+  return inflationRates
+    .slice(0, yearsSinceStart)
+    .reduce(
+      (multiplier: number, rate: number) =>
+        multiplier * (1 + getPensionRevisionRate(rate, parameters.pensionMacroSlideRate) / 100),
+      1
+    );
+}
+
+// 配偶者の生年と結婚する年（配偶者の情報がない場合は undefined）。
+// すでに結婚している場合は marriageYear を持たず、開始年より前の年（初年度の住民税の基になる前年など）も配偶者がいるものとする
+function getSpouseBirth(basicInfo: BasicInfo): { birthYear: number; marriageYear?: number } | undefined {
+  const { spouseInfo } = basicInfo;
+  if (basicInfo.maritalStatus === 'married' && spouseInfo?.currentAge !== undefined) {
+    return { birthYear: basicInfo.startYear - spouseInfo.currentAge };
+  }
+  if (basicInfo.maritalStatus === 'planning' && spouseInfo?.marriageAge !== undefined && spouseInfo.age !== undefined) {
+    const marriageYear = basicInfo.startYear + (spouseInfo.marriageAge - basicInfo.currentAge);
+    return {
+      birthYear: marriageYear - spouseInfo.age,
+      marriageYear,
+    };
+  }
+  return undefined;
+}
+
+// 配偶者がいる年か（結婚前・配偶者の情報がない場合は false）
+function isMarriedInYear(birth: { marriageYear?: number } | undefined, year: number): boolean {
+  return birth !== undefined && (birth.marriageYear === undefined || year >= birth.marriageYear);
+}
+
+function getSpouseDeathYear(basicInfo: BasicInfo): number | undefined {
+  const birth = getSpouseBirth(basicInfo);
+  const deathAge = basicInfo.spouseInfo?.deathAge;
+  return birth && deathAge !== undefined ? birth.birthYear + deathAge : undefined;
+}
+
+// 配偶者の年齢（結婚前・死亡後など配偶者がいない年は undefined）
+export function getSpouseTimeline(
+  basicInfo: BasicInfo,
+  year: number
+): { age: number } | undefined {
+  const birth = getSpouseBirth(basicInfo);
+  const deathYear = getSpouseDeathYear(basicInfo);
+  if (!birth || !isMarriedInYear(birth, year) || (deathYear !== undefined && year > deathYear)) {
+    return undefined;
+  }
+  return { age: year - birth.birthYear };
+}
+
+// その年の子どもの年齢（生まれる前の予定の子は含まない）
+function getChildAges(basicInfo: BasicInfo, year: number): number[] {
+  const yearsSinceStart = year - basicInfo.startYear;
+  return [
+    ...basicInfo.children.map(child => child.currentAge + yearsSinceStart),
+    ...basicInfo.plannedChildren
+      .filter(child => yearsSinceStart >= child.yearsFromNow)
+      .map(child => yearsSinceStart - child.yearsFromNow),
+  ];
+}
+
+// 配偶者の合計所得金額（給与は給与所得控除後、育児休業・短時間勤務による減少を反映、年金収入は含めない）
+function getSpouseTotalIncome(
+  basicInfo: BasicInfo,
+  incomeInfo: IncomeInfo,
+  year: number,
+  spouseAge: number
+): number {
+  const spouse = incomeInfo.spouse;
+  if (!spouse) {
+    return 0;
+  }
+  const occupation = basicInfo.spouseInfo?.occupation || 'company_employee';
+  let earnedIncome = 0;
+  if (spouseAge >= spouse.workStartAge && spouseAge <= spouse.workEndAge && occupation !== 'homemaker') {
+    const { payRatio } = getParentalLeaveYear(
+      incomeInfo.parentalLeaves, 'spouse', year, spouse.annualIncome, occupation
+    );
+    const salary = spouse.annualIncome * payRatio;
+    earnedIncome = occupation === 'self_employed'
+      ? calculateBusinessIncome(salary).businessIncome
+      : calculateEmploymentIncome(salary);
+  }
+  // 老齢年金を受け取っている場合は公的年金等に係る雑所得を合算する
+  const pension = spouseAge >= spouse.pensionStartAge
+    ? calculatePension(spouse.annualIncome, spouse.workStartAge, spouse.workEndAge, spouse.pensionStartAge, occupation)
+    : 0;
+  return earnedIncome + Math.max(0, pension - calculatePublicPensionDeduction(pension, spouseAge, earnedIncome));
+}
+
+// 世帯の状況から主たる稼ぎ手の所得控除の入力を組み立てる
+// 子どもは大学卒業（22歳）まで扶養親族とする
+const MAX_DEPENDENT_CHILD_AGE = 22;
+
+export function getIncomeDeductionInputs(
+  basicInfo: BasicInfo,
+  incomeInfo: IncomeInfo,
+  year: number,
+  idecoContribution: number = 0
+): IncomeDeductionInputs {
+  const timeline = getSpouseTimeline(basicInfo, year);
+  return {
+    idecoContribution,
+    spouse: timeline && {
+      totalIncome: getSpouseTotalIncome(basicInfo, incomeInfo, year, timeline.age),
+      age: timeline.age,
+    },
+    dependentAges: getChildAges(basicInfo, year).filter(age => age <= MAX_DEPENDENT_CHILD_AGE),
+    lifeInsurancePremiums: incomeInfo.incomeDeductions.lifeInsurancePremiums,
+    medicalExpenses: incomeInfo.incomeDeductions.medicalExpenses,
+  };
+}
+
+// 住民税を差し引く前の手取りと、その年の所得に対する住民税（翌年に納付）
+interface EarnedIncome {
+  income: number;
+  residentTax: number;
+  // 所得税・住民税から差し引いた住宅ローン控除
+  mortgageTaxCredit?: number;
+  // 育児休業給付金（非課税のため income には含めない）
+  parentalLeaveBenefit?: number;
+}
+
+function calculateMainIncome(
+  plan: SimulationPlan,
+  parameters: Parameters,
+  year: number,
+  age: number,
+  idecoContribution: number,
+  pensionIncome: number,
+  mortgageTaxCredit?: MortgageTaxCreditInput
+): EarnedIncome {
+  const { basicInfo, incomeInfo } = plan;
+  // その年齢の経歴の区間の職業で税・社会保険料を計算する
+  const segment = getCareerSegment(getCareerSegments(basicInfo, incomeInfo), age);
+  if (age > basicInfo.deathAge || (!segment && pensionIncome <= 0)) {
+    return { income: 0, residentTax: 0 };
+  }
+  const occupation = segment?.occupation ?? basicInfo.occupation;
+  const raisedIncome = segment ? getCareerIncome(segment, age, basicInfo.currentAge) : 0;
+  // 育児休業中は給与がなく、短時間勤務中は給与が減る
+  const leave = getParentalLeaveYear(incomeInfo.parentalLeaves, 'self', year, raisedIncome, occupation);
+  // 就労収入と年金（公的年金等の雑所得）を合算して課税
+  const result = calculateNetIncome(
+    raisedIncome * leave.payRatio,
+    occupation,
+    getIncomeDeductionInputs(basicInfo, incomeInfo, year, idecoContribution),
+    {
+      age,
+      rates: parameters.socialInsuranceRates,
+      nationalHealthInsuranceRates: parameters.nationalHealthInsuranceRates,
+      business: incomeInfo.business,
+      pensionIncome,
+      mortgageTaxCredit,
+      insuredMonths: 12 - leave.leaveMonths,
+    }
+  );
+  return {
+    income: result.netIncome + result.deductions.residentTax,
+    residentTax: result.deductions.residentTax,
+    mortgageTaxCredit: result.deductions.mortgageTaxCredit,
+    parentalLeaveBenefit: leave.benefit,
+  };
+}
+
+function calculateSideIncome(plan: SimulationPlan, age: number): number {
+  const oneTimeSideIncomes = plan.incomeInfo.sideIncomes
+    .filter(income => income.type === 'one-time' && income.oneTime)
+    .filter(income => age === income.oneTime!.age)
+    .reduce((sum, income) => sum + income.oneTime!.amount, 0);
+
+  const recurringSideIncomes = plan.incomeInfo.sideIncomes
+    .filter(income => income.type === 'recurring' && income.recurring)
+    .filter(income => age >= income.recurring!.startAge && age <= income.recurring!.endAge)
+    .reduce((sum, income) => sum + (income.recurring!.monthlyAmount * 12), 0);
+
+  return oneTimeSideIncomes + recurringSideIncomes;
+}
+
+function calculateSpouseIncome(
+  plan: SimulationPlan,
+  parameters: Parameters,
+  year: number,
+  pensionIncome: number
+): EarnedIncome {
+  const { basicInfo, incomeInfo } = plan;
+  const spouse = incomeInfo.spouse;
+  const timeline = getSpouseTimeline(basicInfo, year);
+  if (!spouse || !timeline) {
+    return { income: 0, residentTax: 0 };
+  }
+
+  const occupation = basicInfo.spouseInfo?.occupation || 'company_employee';
+  const isWorking = timeline.age >= spouse.workStartAge && timeline.age <= spouse.workEndAge;
+  const leave = getParentalLeaveYear(
+    incomeInfo.parentalLeaves, 'spouse', year, isWorking ? spouse.annualIncome : 0, occupation
+  );
+  let spouseIncome = 0;
+  let residentTax = 0;
+  if (isWorking || pensionIncome > 0) {
+    const result = calculateNetIncome(
+      isWorking ? spouse.annualIncome * leave.payRatio : 0,
+      occupation,
+      {},
+      {
+        age: timeline.age,
+        rates: parameters.socialInsuranceRates,
+        nationalHealthInsuranceRates: parameters.nationalHealthInsuranceRates,
+        pensionIncome,
+        insuredMonths: 12 - leave.leaveMonths,
+      }
+    );
+    spouseIncome = result.netIncome + result.deductions.residentTax;
+    residentTax = result.deductions.residentTax;
+  }
+  // 配偶者の退職年に退職金（退職所得の税引後）を加算
+  if (timeline.age === spouse.workEndAge) {
+    spouseIncome += calculateRetirementIncomeTax(
+      spouse.severancePay,
+      getYearsOfService(spouse.workStartAge, spouse.workEndAge)
+    ).netAmount;
+  }
+  return { income: spouseIncome, residentTax, parentalLeaveBenefit: leave.benefit };
+}
+
+// 子育て世帯・若者夫婦世帯（入居年に19歳未満の子がいる、または夫婦のいずれかが40歳未満）
+function isChildRearingHousehold(basicInfo: BasicInfo, year: number): boolean {
+  const age = basicInfo.currentAge + (year - basicInfo.startYear);
+  const spouseAge = getSpouseTimeline(basicInfo, year)?.age;
+  return getChildAges(basicInfo, year).some(childAge => childAge >= 0 && childAge < 19) ||
+    (spouseAge !== undefined && (age < 40 || spouseAge < 40));
+}
+
+// 本人が借り入れた住宅ローンの、指定年の住宅ローン控除（年末残高は返済予定表から）。
+// 売却して住み替えた後は控除されない
+function getMortgageTaxCredit(
+  basicInfo: BasicInfo,
+  year: number,
+  housingTimeline: HousingPeriod[]
+): MortgageTaxCreditInput | undefined {
+  const period = getHousingPeriod(housingTimeline, year);
+  const own = period?.phase.type === 'own' ? period.phase.own : undefined;
+  if (!period || !own) {
+    return undefined;
+  }
+  const rule = getMortgageTaxCreditRule(
+    own.purchaseYear,
+    own.homeType,
+    own.newlyBuilt,
+    isChildRearingHousehold(basicInfo, own.purchaseYear)
+  );
+  const yearEndBalance = period.mortgageSchedule.find(row => row.year === year)?.balance ?? 0;
+  return calculateMortgageTaxCredit(rule, own.purchaseYear, year, yearEndBalance);
+}
+
+// 本人の退職金とiDeCo一時金の税引後の手取り。
+// 退職金は経歴の区間の終了年に、その区間の勤続年数で受け取る。
+// 同じ年に受け取る場合は合算し、長い方の勤続（加入）年数で退職所得控除を計算する。
+// 別の年に受け取る場合の勤続期間の重複調整は考慮しない
+function calculateRetirementLumpSums(
+  plan: SimulationPlan,
+  age: number,
+  idecoPayout: number,
+  idecoYears: number
+): { severance: number; idecoPayout: number } {
+  const { basicInfo, incomeInfo } = plan;
+  const endingSegment = age <= basicInfo.deathAge
+    ? getCareerSegments(basicInfo, incomeInfo).find(segment => segment.endAge === age)
+    : undefined;
+  const severance = endingSegment?.severancePay ?? 0;
+  const workYears = endingSegment ? getYearsOfService(endingSegment.startAge, endingSegment.endAge) : 0;
+  if (severance > 0 && idecoPayout > 0) {
+    const combined = calculateRetirementIncomeTax(severance + idecoPayout, Math.max(workYears, idecoYears));
+    const severanceTax = combined.total * (severance / (severance + idecoPayout));
+    return {
+      severance: severance - severanceTax,
+      idecoPayout: idecoPayout - (combined.total - severanceTax),
+    };
+  }
+  return {
+    severance: calculateRetirementIncomeTax(severance, workYears).netAmount,
+    idecoPayout: calculateRetirementIncomeTax(idecoPayout, idecoYears).netAmount,
+  };
+}
+
+// 本人と配偶者の年金（老齢年金・加給年金・振替加算・遺族年金、現在価値）
+function calculatePensionIncome(plan: SimulationPlan, year: number): { main: number; spouse: number } {
+  const { basicInfo, incomeInfo } = plan;
+  const age = basicInfo.currentAge + (year - basicInfo.startYear);
+  const isAlive = age <= basicInfo.deathAge;
+  // 本人の年金は経歴の区間ごとの加入期間から計算する
+  const careerSegments = getCareerSegments(basicInfo, incomeInfo);
+  const mainRecord = getCareerPensionComponents(basicInfo, incomeInfo);
+
+  let main = 0;
+  if (isAlive && age >= incomeInfo.pensionStartAge) {
+    main += calculateCareerPension(basicInfo, incomeInfo, incomeInfo.pensionStartAge);
+  }
+
+  const spouse = incomeInfo.spouse;
+  const spouseBirth = getSpouseBirth(basicInfo);
+  if (!spouse || !spouseBirth || !isMarriedInYear(spouseBirth, year)) {
+    return { main, spouse: 0 };
+  }
+
+  const spouseOccupation = basicInfo.spouseInfo?.occupation || 'company_employee';
+  const spouseRecord = calculatePensionComponents(
+    spouse.annualIncome,
+    spouse.workStartAge,
+    spouse.workEndAge,
+    spouseOccupation
+  );
+  const spouseAge = year - spouseBirth.birthYear;
+  const spouseDeathYear = getSpouseDeathYear(basicInfo);
+  const isSpouseAlive = spouseDeathYear === undefined || year <= spouseDeathYear;
+  const mainBirthYear = basicInfo.startYear - basicInfo.currentAge;
+  const childAges = getChildAges(basicInfo, year);
+
+  let spousePension = 0;
+  if (isSpouseAlive && spouseAge >= spouse.pensionStartAge) {
+    spousePension += calculatePension(
+      spouse.annualIncome,
+      spouse.workStartAge,
+      spouse.workEndAge,
+      spouse.pensionStartAge,
+      spouseOccupation
+    );
+  }
+
+  if (isAlive && isSpouseAlive) {
+    // 加給年金（厚生年金20年以上の側に、年下の配偶者が65歳になるまで加算）
+    main += calculateSpousalSupplement({
+      holderAge: age,
+      holderPensionStartAge: incomeInfo.pensionStartAge,
+      holderRecord: mainRecord,
+      dependentAge: spouseAge,
+      dependentRecord: spouseRecord,
+      dependentAnnualIncome: spouse.annualIncome,
+    });
+    spousePension += calculateSpousalSupplement({
+      holderAge: spouseAge,
+      holderPensionStartAge: spouse.pensionStartAge,
+      holderRecord: spouseRecord,
+      dependentAge: age,
+      dependentRecord: mainRecord,
+      dependentAnnualIncome: getLatestCareerSegment(careerSegments, age)?.annualIncome ?? 0,
+    });
+  }
+
+  // 振替加算（配偶者の死亡後も本人の老齢基礎年金として続く）
+  if (isAlive) {
+    main += calculateTransferSupplement({
+      dependentAge: age,
+      dependentBirthYear: mainBirthYear,
+      dependentRecord: mainRecord,
+      partnerRecord: spouseRecord,
+    });
+  }
+  if (isSpouseAlive) {
+    spousePension += calculateTransferSupplement({
+      dependentAge: spouseAge,
+      dependentBirthYear: spouseBirth.birthYear,
+      dependentRecord: spouseRecord,
+      partnerRecord: mainRecord,
+    });
+  }
+
+  // 遺族年金（先に亡くなった側の記録に基づき、遺された側に支給）
+  const mainDeathYear = mainBirthYear + basicInfo.deathAge;
+  if (!isAlive && isSpouseAlive) {
+    spousePension += calculateSurvivorPension({
+      survivorAge: spouseAge,
+      survivorAgeAtDeath: mainDeathYear - spouseBirth.birthYear,
+      survivorIsWife: basicInfo.gender === 'male',
+      survivorRecord: spouseRecord,
+      deceasedRecord: mainRecord,
+      deceasedWasInsured: basicInfo.deathAge <= getCareerEndAge(careerSegments),
+      childAges,
+    }).total;
+  }
+  if (isAlive && !isSpouseAlive && spouseDeathYear !== undefined) {
+    main += calculateSurvivorPension({
+      survivorAge: age,
+      survivorAgeAtDeath: spouseDeathYear - mainBirthYear,
+      survivorIsWife: basicInfo.gender === 'female',
+      survivorRecord: mainRecord,
+      deceasedRecord: spouseRecord,
+      deceasedWasInsured: spouseDeathYear - spouseBirth.birthYear <= spouse.workEndAge,
+      childAges,
+    }).total;
+  }
+
+  return { main, spouse: spousePension };
+}
+
+// Income and expense lines for each year from startYear to the last surviving partner's deathAge
+export function projectCashFlows(
+  plan: SimulationPlan,
+  parameters: Parameters,
+  overrides: CashFlowOverrides = {},
+  scenario: SimulationScenario = {}
+): CashFlowYear[] {
+  const { basicInfo, lifeEvents } = plan;
+  const { taxAdvantaged } = plan.assetsLiabilities;
+  const simulationYears = getSimulationYears(basicInfo);
+  const ages = simulationYears.map(year => basicInfo.currentAge + (year - basicInfo.startYear));
+  const nisa = projectNisa(taxAdvantaged.nisa, ages, scenario.returnRates);
+  // iDeCoの掛金の上限は各年齢の経歴の区間の職業で決まる。区間の間や引退後は加入資格がないものとして掛金を止める
+  const careerSegments = getCareerSegments(basicInfo, plan.incomeInfo);
+  const ideco = projectIdeco(
+    taxAdvantaged.ideco,
+    ages.map(age => getCareerSegment(careerSegments, age)?.occupation),
+    ages,
+    scenario.returnRates
+  );
+  // 住み替えを含む住まいの変遷と住宅ローンの返済予定表（変動金利部分には前提条件の金利上昇ストレスを反映）
+  const housingTimeline = buildHousingTimeline(basicInfo.housingInfo, basicInfo.startYear, {
+    ...parameters.mortgageRateStress,
+    startYear: basicInfo.startYear,
+  });
+
+  // iDeCo一時金の退職所得控除に使う加入年数（シミュレーション開始前の加入期間は含まない）
+  const idecoYears = Math.max(1, ideco.filter(y => y.contribution > 0).length);
+
+  const earnedIncomes = simulationYears.map((year, index) => {
+    // 年金はマクロ経済スライドを反映して改定し、就労収入と合算して課税する
+    const pensionIndexMultiplier = getPensionIndexMultiplier(parameters, scenario, year - basicInfo.startYear);
+    const pensions = calculatePensionIncome(plan, year);
+    const main = calculateMainIncome(
+      plan,
+      parameters,
+      year,
+      ages[index],
+      ideco[index].contribution,
+      pensions.main * pensionIndexMultiplier,
+      getMortgageTaxCredit(basicInfo, year, housingTimeline)
+    );
+    const lumpSums = calculateRetirementLumpSums(plan, ages[index], ideco[index].payout, idecoYears);
+    return {
+      main: { ...main, income: main.income + lumpSums.severance },
+      spouse: calculateSpouseIncome(plan, parameters, year, pensions.spouse * pensionIndexMultiplier),
+      idecoPayout: lumpSums.idecoPayout,
+    };
+  });
+  // 住民税は前年の所得に課税されるので1年遅れで支出に計上する。
+  // 初年度は前年も同じ条件で働いていたものとして前年分を計算する
+  const residentTaxes = simulationYears.map((year, index) => {
+    const previousPensions = index > 0 ? undefined : calculatePensionIncome(plan, year - 1);
+    const previous = !previousPensions
+      ? earnedIncomes[index - 1]
+      : {
+          main: calculateMainIncome(
+            plan,
+            parameters,
+            year - 1,
+            ages[index] - 1,
+            ideco[index].contribution,
+            previousPensions.main,
+            getMortgageTaxCredit(basicInfo, year - 1, housingTimeline)
+          ),
+          spouse: calculateSpouseIncome(plan, parameters, year - 1, previousPensions.spouse),
+        };
+    return round(previous.main.residentTax + previous.spouse.residentTax);
+  });
+  const education = projectEducation(
+    basicInfo,
+    parameters.educationCosts,
+    parameters.educationCostIncreaseRate,
+    simulationYears,
+    residentTaxes
+  );
+  const childRearing = projectChildRearing(
+    basicInfo,
+    parameters.childRearingCosts,
+    parameters.educationCosts,
+    simulationYears,
+    simulationYears.map(year => getInflationMultiplier(parameters, scenario, year - basicInfo.startYear))
+  );
+
+  return simulationYears.map((year, index): CashFlowYear => {
+    const yearsSinceStart = year - basicInfo.startYear;
+    const age = basicInfo.currentAge + yearsSinceStart;
+    const inflationMultiplier = getInflationMultiplier(parameters, scenario, yearsSinceStart);
+    const housing = getHousingYear(housingTimeline, year, parameters.propertyValueRates);
+
+    const yearLifeEvents = lifeEvents.filter(event => event.year === year);
+    const lifeEventIncome = yearLifeEvents
+      .filter(event => event.type === 'income')
+      .reduce((sum, event) => sum + event.amount, 0);
+    const lifeEventExpense = yearLifeEvents
+      .filter(event => event.type === 'expense')
+      .reduce((sum, event) => sum + event.amount, 0);
+
+    const income: IncomeLines = {
+      main: round(earnedIncomes[index].main.income),
+      side: round(calculateSideIncome(plan, age)),
+      spouse: round(earnedIncomes[index].spouse.income),
+      nisaWithdrawal: nisa[index].withdrawal,
+      idecoPayout: round(earnedIncomes[index].idecoPayout),
+      homeSale: housing.saleProceeds,
+      educationInsuranceMaturity: education[index].insuranceMaturity,
+      childBenefits: childRearing[index].income,
+      parentalLeaveBenefit: round(
+        (earnedIncomes[index].main.parentalLeaveBenefit ?? 0) + (earnedIncomes[index].spouse.parentalLeaveBenefit ?? 0)
+      ),
+      other: round(lifeEventIncome),
+      ...overrides[year]?.income,
+    };
+
+    const expense: ExpenseLines = {
+      living: round(basicInfo.monthlyLivingExpense * 12 * inflationMultiplier),
+      housing: round(housing.expense + housing.movingCost + housing.downPayment + housing.loanPayoff),
+      education: education[index].parentShare,
+      educationInsurancePremium: education[index].insurancePremium,
+      childRearing: childRearing[index].expense,
+      residentTax: residentTaxes[index],
+      nisaContribution: nisa[index].contribution,
+      idecoContribution: ideco[index].contribution,
+      other: round(lifeEventExpense),
+      ...overrides[year]?.expense,
+    };
+
+    const totalIncome = round(sumLines(income));
+    const totalExpense = round(sumLines(expense));
+
+    return {
+      year,
+      age,
+      income,
+      expense,
+      totalIncome,
+      totalExpense,
+      balance: round(totalIncome - totalExpense),
+      taxAdvantagedBalances: {
+        nisa: nisa[index].balance,
+        ideco: ideco[index].balance,
+      },
+      mortgage: housing.mortgage,
+      ownershipCosts: housing.ownershipCosts,
+      homeValue: housing.homeValue,
+      mortgageTaxCredit: earnedIncomes[index].main.mortgageTaxCredit ?? 0,
+      education: education[index],
+      childRearing: childRearing[index],
+    };
+  });
+}
+
+// 課税口座の運用益への課税（毎年の利益に課税する簡易計算、損失は課税なし）
+function calculateCapitalGainsTax(grossReturn: number, parameters: Parameters): number {
+  return grossReturn > 0 ? round(grossReturn * (parameters.capitalGainsTaxRate / 100)) : 0;
+}
+
+function sumTaxAdvantagedBalances(balances: TaxAdvantagedBalances): number {
+  return balances.nisa + balances.ideco;
+}
+
+// 取り崩しに使える資産（iDeCoは受取年齢まで引き出せないため除く。受取後の残高は0）
+export function getSpendableAssets(year: SimulationYear): number {
+  return round(year.assets - year.taxAdvantagedBalances.ideco);
+}
+
+// 不動産の評価額・住宅ローン残高と純資産
+function getNetWorth(
+  cashFlow: CashFlowYear,
+  assets: number,
+  otherRealEstate: number
+): Pick<SimulationYear, 'realEstateValue' | 'mortgageBalance' | 'netWorth'> {
+  const realEstateValue = round(cashFlow.homeValue + otherRealEstate);
+  const mortgageBalance = cashFlow.mortgage
+    ? round(cashFlow.mortgage.balance + cashFlow.mortgage.unpaidInterest)
+    : 0;
+  return {
+    realEstateValue,
+    mortgageBalance,
+    netWorth: round(assets + realEstateValue - mortgageBalance),
+  };
+}
+
+// Rolls assets forward over the projected cash flows
+export function accumulateAssets(
+  initialBalances: AssetBalances,
+  cashFlows: CashFlowYear[],
+  parameters: Parameters,
+  scenario: SimulationScenario = {}
+): SimulationYear[] {
+  if (parameters.trackAssetClasses) {
+    return accumulateAssetClasses(initialBalances, cashFlows, parameters, scenario);
+  }
+
+  // 持ち家以外の不動産は金融資産と分けて評価し、取り崩しや運用収益の対象にしない
+  let currentAssets = sumFinancialAssetBalances(initialBalances);
+  let otherRealEstate = initialBalances.realEstate;
+
+  return cashFlows.map((cashFlow, index): SimulationYear => {
+    // 運用収益は期首資産にのみ発生
+    const returnRate = scenario.returnRates?.[index] ?? parameters.investmentReturn;
+    const grossReturn = currentAssets > 0
+      ? round(currentAssets * (returnRate / 100))
+      : 0;
+    const capitalGainsTax = calculateCapitalGainsTax(grossReturn, parameters);
+    const investmentReturn = round(grossReturn - capitalGainsTax);
+    currentAssets = round(currentAssets + cashFlow.balance + investmentReturn);
+    otherRealEstate = round(otherRealEstate * (1 + parameters.assetReturns.realEstate / 100));
+    const assets = round(currentAssets + sumTaxAdvantagedBalances(cashFlow.taxAdvantagedBalances));
+
+    return {
+      ...cashFlow,
+      investmentReturn,
+      capitalGainsTax,
+      assets,
+      ...getNetWorth(cashFlow, assets, otherRealEstate),
+    };
+  });
+}
+
+function accumulateAssetClasses(
+  initialBalances: AssetBalances,
+  cashFlows: CashFlowYear[],
+  parameters: Parameters,
+  scenario: SimulationScenario
+): SimulationYear[] {
+  let balances = initialBalances;
+
+  return cashFlows.map((cashFlow, index): SimulationYear => {
+    const scenarioRate = scenario.returnRates?.[index];
+    const rates = { ...parameters.assetReturns };
+    if (scenarioRate !== undefined) {
+      EQUITY_ASSET_CLASSES.forEach((assetClass) => {
+        rates[assetClass] = scenarioRate;
+      });
+    }
+
+    const grown = growAssetBalances(balances, rates);
+    // 不動産の値上がりは未実現のため課税対象外
+    const capitalGainsTax = calculateCapitalGainsTax(grown.taxableReturn, parameters);
+    balances = applyCashFlowToBalances(grown.balances, round(cashFlow.balance - capitalGainsTax));
+    if (parameters.rebalance) {
+      balances = rebalanceAssetBalances(balances, parameters.targetAllocation);
+    }
+
+    const assets = round(sumFinancialAssetBalances(balances) + sumTaxAdvantagedBalances(cashFlow.taxAdvantagedBalances));
+
+    return {
+      ...cashFlow,
+      investmentReturn: round(grown.investmentReturn - capitalGainsTax),
+      capitalGainsTax,
+      assets,
+      ...getNetWorth(cashFlow, assets, balances.realEstate),
+      assetBalances: balances,
+    };
+  });
+}
+
+// Pure projection of the plan: one entry per year from startYear to deathAge
+export function simulate(
+  plan: SimulationPlan,
+  parameters: Parameters,
+  overrides: CashFlowOverrides = {},
+  scenario: SimulationScenario = {}
+): SimulationResult {
+  const initialBalances = getInitialAssetBalances(plan.assetsLiabilities);
+  const cashFlows = projectCashFlows(plan, parameters, overrides, scenario);
+  const { nisa, ideco } = plan.assetsLiabilities.taxAdvantaged;
+  return {
+    initialAssets: round(
+      sumFinancialAssetBalances(initialBalances) +
+      (nisa.enabled ? nisa.currentBalance : 0) +
+      (ideco.enabled ? ideco.currentBalance : 0)
+    ),
+    years: accumulateAssets(initialBalances, cashFlows, parameters, scenario),
+  };
+}
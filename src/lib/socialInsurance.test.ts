@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateNationalInsurance,
+  calculateSocialInsurance,
+  getWelfarePensionStandardRemuneration,
+} from '@/lib/socialInsurance';
+import { WELFARE_PENSION_MAX_STANDARD } from '@/data/socialInsuranceRates';
+
+describe('calculateSocialInsurance', () => {
+  it('会社員は健康保険・厚生年金・雇用保険を負担し、40歳未満は介護保険料がかからない', () => {
+    const result = calculateSocialInsurance(600, 'company_employee', 30);
+    expect(result.healthInsurance).toBeGreaterThan(0);
+    expect(result.welfarePension).toBeGreaterThan(0);
+    expect(result.employmentInsurance).toBeGreaterThan(0);
+    expect(result.longTermCare).toBe(0);
+    expect(result.total).toBeCloseTo(
+      result.healthInsurance + result.welfarePension + result.employmentInsurance,
+      1
+    );
+  });
+
+  it('40歳から64歳までは介護保険料がかかる', () => {
+    expect(calculateSocialInsurance(600, 'company_employee', 40).longTermCare).toBeGreaterThan(0);
+    expect(calculateSocialInsurance(600, 'company_employee', 65).longTermCare).toBe(0);
+  });
+
+  it('パート（厚生年金なし）は雇用保険料だけを負担する', () => {
+    const result = calculateSocialInsurance(150, 'part_time_without_pension', 30);
+    expect(result.healthInsurance).toBe(0);
+    expect(result.welfarePension).toBe(0);
+    expect(result.total).toBe(result.employmentInsurance);
+  });
+
+  it('育児休業で免除される月の保険料はかからない', () => {
+    const fullYear = calculateSocialInsurance(600, 'company_employee', 30);
+    // 3か月だけ働いた場合は同じ月額の3か月分
+    const threeMonths = calculateSocialInsurance(150, 'company_employee', 30, undefined, 3);
+    expect(threeMonths.welfarePension).toBeCloseTo(fullYear.welfarePension / 4, 1);
+    const allExempt = calculateSocialInsurance(0, 'company_employee', 30, undefined, 0);
+    expect(allExempt.total).toBe(0);
+  });
+});
+
+describe('getWelfarePensionStandardRemuneration', () => {
+  it('厚生年金の標準報酬月額は上限で頭打ちになる', () => {
+    expect(getWelfarePensionStandardRemuneration(2_000_000)).toBe(WELFARE_PENSION_MAX_STANDARD);
+  });
+});
+
+describe('calculateNationalInsurance', () => {
+  it('60歳以降は国民年金保険料を納めない', () => {
+    expect(calculateNationalInsurance(300, 59).nationalPension).toBe(20.4);
+    expect(calculateNationalInsurance(300, 60).nationalPension).toBe(0);
+  });
+
+  it('国民健康保険料は区分ごとの賦課限度額で頭打ちになる', () => {
+    const result = calculateNationalInsurance(3000, 45);
+    expect(result.healthInsurance).toBe(89);
+    expect(result.longTermCare).toBe(17);
+  });
+});
@@ -0,0 +1,161 @@
+import {
+  KYOKAI_KENPO_HEALTH_INSURANCE_RATES,
+  LONG_TERM_CARE_INSURANCE_RATE,
+  WELFARE_PENSION_INSURANCE_RATE,
+  EMPLOYMENT_INSURANCE_RATE,
+  HEALTH_INSURANCE_GRADES,
+  WELFARE_PENSION_MIN_STANDARD,
+  WELFARE_PENSION_MAX_STANDARD,
+  NATIONAL_PENSION_MONTHLY_PREMIUM,
+  NATIONAL_HEALTH_INSURANCE_RATES,
+  NATIONAL_HEALTH_INSURANCE_BASIC_DEDUCTION,
+} from '@/data/socialInsuranceRates';
+
+// 保険料率（%）。健康保険・介護保険・厚生年金は労使合計、雇用保険は本人負担分
+export interface SocialInsuranceRates {
+  healthInsurance: number;
+  longTermCare: number;
+  welfarePension: number;
+  employmentInsurance: number;
+}
+
+// 国民健康保険の区分ごとの料率（所得割は%、均等割と賦課限度額は万円）
+export interface NationalHealthInsuranceComponent {
+  incomeRate: number;
+  perCapita: number;
+  cap: number;
+}
+
+// 医療分・後期高齢者支援金分・介護分（市区町村ごとに異なる）
+export interface NationalHealthInsuranceRates {
+  medical: NationalHealthInsuranceComponent;
+  support: NationalHealthInsuranceComponent;
+  care: NationalHealthInsuranceComponent;
+}
+
+// 本人負担の保険料（万円/年）。自営業の場合、healthInsurance は国民健康保険料
+export interface SocialInsuranceBreakdown {
+  healthInsurance: number;
+  longTermCare: number;
+  welfarePension: number;
+  nationalPension: number;
+  employmentInsurance: number;
+  total: number;
+}
+
+export const DEFAULT_HEALTH_INSURER = '東京都';
+
+export const DEFAULT_SOCIAL_INSURANCE_RATES: SocialInsuranceRates = {
+  healthInsurance: KYOKAI_KENPO_HEALTH_INSURANCE_RATES[DEFAULT_HEALTH_INSURER],
+  longTermCare: LONG_TERM_CARE_INSURANCE_RATE,
+  welfarePension: WELFARE_PENSION_INSURANCE_RATE,
+  employmentInsurance: EMPLOYMENT_INSURANCE_RATE,
+};
+
+export const DEFAULT_NATIONAL_HEALTH_INSURANCE_RATES: NationalHealthInsuranceRates = NATIONAL_HEALTH_INSURANCE_RATES;
+
+// 介護保険料は40歳から64歳まで（65歳以降は市区町村が徴収）
+export const LONG_TERM_CARE_START_AGE = 40;
+export const LONG_TERM_CARE_END_AGE = 64;
+// 国民年金保険料は20歳から59歳まで
+export const NATIONAL_PENSION_START_AGE = 20;
+export const NATIONAL_PENSION_END_AGE = 59;
+
+function isCareInsuredAge(age?: number): boolean {
+  return age !== undefined && age >= LONG_TERM_CARE_START_AGE && age <= LONG_TERM_CARE_END_AGE;
+}
+
+function toManYen(valueInYen: number): number {
+  return Number((valueInYen / 10000).toFixed(1));
+}
+
+// 報酬月額（円）から健康保険の標準報酬月額を求める
+export function getHealthInsuranceStandardRemuneration(monthlyRemuneration: number): number {
+  const grade = HEALTH_INSURANCE_GRADES.find(g => monthlyRemuneration < g.upTo);
+  return grade ? grade.standard : HEALTH_INSURANCE_GRADES[HEALTH_INSURANCE_GRADES.length - 1].standard;
+}
+
+// 報酬月額（円）から厚生年金の標準報酬月額を求める
+export function getWelfarePensionStandardRemuneration(monthlyRemuneration: number): number {
+  return Math.min(
+    Math.max(getHealthInsuranceStandardRemuneration(monthlyRemuneration), WELFARE_PENSION_MIN_STANDARD),
+    WELFARE_PENSION_MAX_STANDARD
+  );
+}
+
+// 会社員などの社会保険料（賞与はないものとし、年収を保険料を納める月数で割って報酬月額とする）。
+// insuredMonths は育児休業で保険料が免除される月を除いた月数
+export function calculateSocialInsurance(
+  annualIncome: number, // in 万円
+  occupation: string,
+  age?: number,
+  rates: SocialInsuranceRates = DEFAULT_SOCIAL_INSURANCE_RATES,
+  insuredMonths: number = 12
+): SocialInsuranceBreakdown {
+  const incomeInYen = annualIncome * 10000;
+  // 雇用保険は給与総額に料率をかける
+  const employmentInsuranceInYen = annualIncome > 0 ? Math.floor(incomeInYen * (rates.employmentInsurance / 100)) : 0;
+
+  // パート（厚生年金なし）は健康保険・厚生年金に加入しない
+  const hasSocialInsurance = occupation === 'company_employee' ||
+                           occupation === 'part_time_with_pension';
+  if (!hasSocialInsurance || annualIncome <= 0 || insuredMonths <= 0) {
+    const employmentInsurance = toManYen(employmentInsuranceInYen);
+    return {
+      healthInsurance: 0,
+      longTermCare: 0,
+      welfarePension: 0,
+      nationalPension: 0,
+      employmentInsurance,
+      total: employmentInsurance,
+    };
+  }
+
+  const monthlyRemuneration = incomeInYen / insuredMonths;
+  const healthStandard = getHealthInsuranceStandardRemuneration(monthlyRemuneration);
+  const pensionStandard = getWelfarePensionStandardRemuneration(monthlyRemuneration);
+  const isCareInsured = isCareInsuredAge(age);
+
+  // 労使折半（月額を円単位に丸めて保険料を納める月数分）
+  const monthlyPremium = (standard: number, rate: number) =>
+    Math.round(standard * (rate / 100) / 2) * insuredMonths;
+  const healthInsurance = toManYen(monthlyPremium(healthStandard, rates.healthInsurance));
+  const longTermCare = isCareInsured ? toManYen(monthlyPremium(healthStandard, rates.longTermCare)) : 0;
+  const welfarePension = toManYen(monthlyPremium(pensionStandard, rates.welfarePension));
+  const employmentInsurance = toManYen(employmentInsuranceInYen);
+
+  return {
+    healthInsurance,
+    longTermCare,
+    welfarePension,
+    nationalPension: 0,
+    employmentInsurance,
+    total: Number((healthInsurance + longTermCare + welfarePension + employmentInsurance).toFixed(1)),
+  };
+}
+
+// 自営業の国民健康保険料と国民年金保険料（本人1人分、軽減措置は考慮しない）
+export function calculateNationalInsurance(
+  totalIncome: number, // 総所得金額等 in 万円
+  age?: number,
+  rates: NationalHealthInsuranceRates = DEFAULT_NATIONAL_HEALTH_INSURANCE_RATES
+): SocialInsuranceBreakdown {
+  const assessableIncome = Math.max(0, totalIncome - NATIONAL_HEALTH_INSURANCE_BASIC_DEDUCTION);
+  const premium = (component: NationalHealthInsuranceComponent) =>
+    Math.min(assessableIncome * (component.incomeRate / 100) + component.perCapita, component.cap);
+
+  const healthInsurance = Number((premium(rates.medical) + premium(rates.support)).toFixed(1));
+  const longTermCare = isCareInsuredAge(age) ? Number(premium(rates.care).toFixed(1)) : 0;
+  const paysNationalPension = age === undefined ||
+    (age >= NATIONAL_PENSION_START_AGE && age <= NATIONAL_PENSION_END_AGE);
+  const nationalPension = paysNationalPension ? toManYen(NATIONAL_PENSION_MONTHLY_PREMIUM * 12) : 0;
+
+  return {
+    healthInsurance,
+    longTermCare,
+    welfarePension: 0,
+    nationalPension,
+    employmentInsurance: 0,
+    total: Number((healthInsurance + longTermCare + nationalPension).toFixed(1)),
+  };
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { projectIdeco, projectNisa } from '@/lib/taxAdvantagedAccounts';
+import type { IdecoAccount, NisaAccount } from '@/store/simulator';
+
+const nisaAccount: NisaAccount = {
+  enabled: true,
+  currentBalance: 100,
+  currentCostBasis: 100,
+  tsumitateMonthly: 0,
+  growthAnnual: 0,
+  contributionEndAge: 65,
+  withdrawalStartAge: 65,
+  annualWithdrawal: 0,
+  expectedReturn: 5,
+};
+
+const idecoAccount: IdecoAccount = {
+  enabled: true,
+  currentBalance: 100,
+  monthlyContribution: 0,
+  contributionEndAge: 64,
+  payoutAge: 65,
+  expectedReturn: 3,
+};
+
+describe('projectNisa', () => {
+  it('シナリオの年ごとの利回りで運用する', () => {
+    const years = projectNisa(nisaAccount, [40, 41], [10, -10]);
+    expect(years.map(year => year.balance)).toEqual([110, 99]);
+  });
+
+  it('シナリオがなければ想定利回りで運用する', () => {
+    expect(projectNisa(nisaAccount, [40])[0].balance).toBe(105);
+  });
+
+  it('取り崩した割合だけ簿価を減らす', () => {
+    const account = { ...nisaAccount, currentBalance: 200, annualWithdrawal: 50, expectedReturn: 0 };
+    expect(projectNisa(account, [65])[0]).toEqual({ contribution: 0, withdrawal: 50, balance: 150, costBasis: 75 });
+  });
+});
+
+describe('projectIdeco', () => {
+  it('シナリオの年ごとの利回りで運用する', () => {
+    const years = projectIdeco(idecoAccount, ['company_employee', 'company_employee'], [40, 41], [10, -10]);
+    expect(years.map(year => year.balance)).toEqual([110, 99]);
+  });
+
+  it('職業のない年は掛金を拠出せず、職業ごとの上限を適用する', () => {
+    const account = { ...idecoAccount, currentBalance: 0, monthlyContribution: 5, expectedReturn: 0 };
+    const years = projectIdeco(account, ['company_employee', undefined, 'self_employed'], [40, 41, 42]);
+    expect(years.map(year => year.contribution)).toEqual([27.6, 0, 60]);
+  });
+
+  it('受取年齢に残高を一時金で受け取る', () => {
+    const account = { ...idecoAccount, currentBalance: 0, monthlyContribution: 6.8, expectedReturn: 0 };
+    const years = projectIdeco(account, ['self_employed', 'self_employed'], [64, 65]);
+    expect(years[1]).toEqual({ contribution: 0, payout: 81.6, balance: 0 });
+  });
+});
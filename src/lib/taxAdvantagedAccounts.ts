@@ -0,0 +1,123 @@
+import type { NisaAccount, IdecoAccount } from '@/store/simulator';
+
+// 新NISAの投資枠（万円）
+export const NISA_TSUMITATE_ANNUAL_LIMIT = 120;
+export const NISA_GROWTH_ANNUAL_LIMIT = 240;
+export const NISA_LIFETIME_LIMIT = 1800;
+export const NISA_GROWTH_LIFETIME_LIMIT = 1200;
+
+// iDeCoの掛金上限（万円/月）。企業年金のない会社員・専業主婦(夫)は2.3万円、第1号被保険者は6.8万円
+export const IDECO_MONTHLY_LIMITS: Record<string, number> = {
+  company_employee: 2.3,
+  part_time_with_pension: 2.3,
+  part_time_without_pension: 6.8,
+  self_employed: 6.8,
+  homemaker: 2.3,
+};
+export const IDECO_MAX_CONTRIBUTION_AGE = 64;
+export const IDECO_MIN_PAYOUT_AGE = 60;
+export const IDECO_MAX_PAYOUT_AGE = 75;
+
+export interface NisaYear {
+  contribution: number;
+  withdrawal: number;
+  balance: number;
+  costBasis: number;
+}
+
+export interface IdecoYear {
+  contribution: number;
+  payout: number;
+  balance: number;
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(1));
+}
+
+// 年齢ごとのNISA口座の積立・取り崩し・残高（運用益は非課税）
+// returnRates はモンテカルロ・バックテストの年ごとの利回り（省略時は想定利回り）
+export function projectNisa(account: NisaAccount, ages: number[], returnRates?: number[]): NisaYear[] {
+  let balance = account.enabled ? account.currentBalance : 0;
+  let costBasis = account.enabled ? account.currentCostBasis : 0;
+  let growthBasis = 0;
+  // 売却した簿価分の枠は翌年に復活する
+  let usedLimit = costBasis;
+
+  return ages.map((age, index): NisaYear => {
+    if (!account.enabled) {
+      return { contribution: 0, withdrawal: 0, balance: 0, costBasis: 0 };
+    }
+
+    let contribution = 0;
+    if (age < account.contributionEndAge && age < account.withdrawalStartAge) {
+      const remaining = Math.max(0, NISA_LIFETIME_LIMIT - usedLimit);
+      const tsumitate = Math.min(account.tsumitateMonthly * 12, NISA_TSUMITATE_ANNUAL_LIMIT);
+      const growth = Math.min(
+        account.growthAnnual,
+        NISA_GROWTH_ANNUAL_LIMIT,
+        Math.max(0, NISA_GROWTH_LIFETIME_LIMIT - growthBasis)
+      );
+      const tsumitateContribution = Math.min(tsumitate, remaining);
+      const growthContribution = Math.min(growth, remaining - tsumitateContribution);
+      contribution = round(tsumitateContribution + growthContribution);
+      growthBasis += growthContribution;
+    }
+
+    const returnRate = returnRates?.[index] ?? account.expectedReturn;
+    balance = round(balance * (1 + returnRate / 100) + contribution);
+    costBasis = round(costBasis + contribution);
+    usedLimit = costBasis;
+
+    let withdrawal = 0;
+    if (age >= account.withdrawalStartAge && balance > 0) {
+      withdrawal = round(Math.min(account.annualWithdrawal, balance));
+      // 売却した簿価はつみたて投資枠分と成長投資枠分に按分して減らす
+      const soldShare = withdrawal / balance;
+      costBasis = round(costBasis * (1 - soldShare));
+      growthBasis = growthBasis * (1 - soldShare);
+      balance = round(balance - withdrawal);
+    }
+
+    return { contribution, withdrawal, balance, costBasis };
+  });
+}
+
+export function getIdecoMonthlyLimit(occupation: string): number {
+  return IDECO_MONTHLY_LIMITS[occupation] ?? IDECO_MONTHLY_LIMITS.company_employee;
+}
+
+// 年齢ごとのiDeCoの掛金・受取・残高（受取年齢に一時金で全額受け取る）
+// occupations は ages と同じ並びの各年の職業。undefined の年は加入資格がなく掛金を拠出しない
+export function projectIdeco(
+  account: IdecoAccount,
+  occupations: (string | undefined)[],
+  ages: number[],
+  returnRates?: number[]
+): IdecoYear[] {
+  let balance = account.enabled ? account.currentBalance : 0;
+  const payoutAge = Math.min(Math.max(account.payoutAge, IDECO_MIN_PAYOUT_AGE), IDECO_MAX_PAYOUT_AGE);
+
+  return ages.map((age, index): IdecoYear => {
+    if (!account.enabled || age > payoutAge) {
+      return { contribution: 0, payout: 0, balance: 0 };
+    }
+
+    const occupation = occupations[index];
+    const canContribute = occupation !== undefined
+      && age <= Math.min(account.contributionEndAge, IDECO_MAX_CONTRIBUTION_AGE)
+      && age < payoutAge;
+    const contribution = canContribute
+      ? round(Math.min(account.monthlyContribution, getIdecoMonthlyLimit(occupation)) * 12)
+      : 0;
+    const returnRate = returnRates?.[index] ?? account.expectedReturn;
+    balance = round(balance * (1 + returnRate / 100) + contribution);
+
+    if (age === payoutAge) {
+      const payout = balance;
+      balance = 0;
+      return { contribution, payout, balance };
+    }
+    return { contribution, payout: 0, balance };
+  });
+}
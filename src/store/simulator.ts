@@ -1,8 +1,164 @@
 import { create } from 'zustand';
-import { calculateNetIncomeWithRaise, calculateHousingExpense, calculatePension } from '@/lib/calculations';
+import type { HistoricalIndex } from '@/data/historicalReturns';
+import {
+  DEFAULT_EDUCATION_COST_PRESET,
+  EDUCATION_COST_PRESETS,
+  type EducationCostTable,
+} from '@/data/educationCosts';
+import { DEFAULT_CHILD_REARING_COSTS, type ChildRearingCosts } from '@/data/childRearingCosts';
+import {
+  DEFAULT_HEALTH_INSURER,
+  DEFAULT_SOCIAL_INSURANCE_RATES,
+  DEFAULT_NATIONAL_HEALTH_INSURANCE_RATES,
+  type SocialInsuranceRates,
+  type NationalHealthInsuranceRates,
+} from '@/lib/socialInsurance';
+import { simulate, type SimulationResult, type CashFlowOverrides, type IncomeLines, type ExpenseLines } from '@/lib/simulation';
 
 type Occupation = 'company_employee' | 'part_time_with_pension' | 'part_time_without_pension' | 'self_employed' | 'homemaker';
 
+// 元利均等返済・元金均等返済
+export type MortgageRepaymentMethod = 'equal_payment' | 'equal_principal';
+
+// 住宅ローン控除の住宅の区分（長期優良・低炭素住宅、ZEH水準省エネ住宅、省エネ基準適合住宅、その他の住宅）
+export type HomeType = 'certified' | 'zeh' | 'energy_efficient' | 'standard';
+
+// 全期間固定・変動金利・固定期間選択型
+export type MortgageRateType = 'fixed' | 'variable' | 'fixed_period';
+
+// 指定年の1月から適用する金利（%）
+export interface MortgageRateChange {
+  year: number;
+  rate: number;
+}
+
+// 繰上返済（指定年の年末に返済）。期間短縮型は毎月の返済額を変えずに期間を短くし、
+// 返済額軽減型は期間を変えずに毎月の返済額を減らす
+export interface MortgagePrepayment {
+  year: number;
+  amount: number;
+  type: 'shorten_term' | 'reduce_payment';
+}
+
+export interface RentHousing {
+  monthlyRent: number;
+  annualIncreaseRate: number;
+}
+
+// 戸建て・マンション
+export type PropertyType = 'house' | 'condo';
+
+export interface OwnHousing {
+  purchaseYear: number;
+  purchasePrice: number;
+  loanAmount: number;
+  // 当初の適用金利（%）
+  interestRate: number;
+  rateType: MortgageRateType;
+  // 固定期間選択型の固定期間（年）
+  fixedPeriodYears: number;
+  // 変動金利（固定期間終了後）の適用金利の見通し
+  rateChanges: MortgageRateChange[];
+  loanTermYears: number;
+  // 購入金額に対する、下記以外の年間の維持費の割合（%）
+  maintenanceCostRate: number;
+  repaymentMethod: MortgageRepaymentMethod;
+  prepayments: MortgagePrepayment[];
+  // 住宅ローン控除の区分（省エネ性能と新築・中古）
+  homeType: HomeType;
+  newlyBuilt: boolean;
+  propertyType: PropertyType;
+  // 購入金額のうち土地の割合（%）。残りを建物として評価額を計算する
+  landShare: number;
+  // 購入時の固定資産税評価額（土地・建物）
+  landAssessedValue: number;
+  buildingAssessedValue: number;
+  // マンションの管理費・修繕積立金（万円/月）。修繕積立金は repairReserveStepYears 年ごとに
+  // repairReserveStepRate %引き上げる
+  managementFee: number;
+  repairReserve: number;
+  repairReserveStepYears: number;
+  repairReserveStepRate: number;
+  // 戸建ての大規模修繕（購入から renovationIntervalYears 年ごと）
+  renovationCost: number;
+  renovationIntervalYears: number;
+}
+
+// 住み替え（startYear から次の住まいに移る）。持ち家を購入する場合は startYear が購入年になる。
+// 住み替え前が持ち家の場合は startYear に売却し、売却代金からローン残高を一括返済する
+export interface HousingPhase {
+  type: 'rent' | 'own';
+  startYear: number;
+  rent?: RentHousing;
+  own?: OwnHousing;
+  movingCost: number;
+  // 前の持ち家の売却価格（0の場合は土地・建物の変動率で計算した評価額で売却する）
+  salePrice: number;
+  // 売却にかかる仲介手数料などの諸費用（売却価格に対する%）
+  saleCostRate: number;
+}
+
+// 塾・習い事の予算（startAge 歳から endAge 歳まで）
+export interface ExtraSchooling {
+  type: 'cram' | 'lessons';
+  startAge: number;
+  endAge: number;
+  monthlyAmount: number;
+}
+
+// 給付型奨学金（返済不要。在学中の教育費から差し引く）
+export interface GrantScholarship {
+  startAge: number;
+  endAge: number;
+  annualAmount: number;
+}
+
+// 貸与型奨学金（子ども本人が卒業後に返済するため、親の収支には借りた分の負担減だけが表れる）
+export interface StudentLoan {
+  startAge: number;
+  endAge: number;
+  monthlyAmount: number;
+  interestRate: number;
+  repaymentYears: number;
+}
+
+// 学資保険（契約者は親。子どもが premiumEndAge 歳になるまで保険料を払い込み、maturityAge 歳で満期金を受け取る）
+export interface EducationInsurance {
+  monthlyPremium: number;
+  premiumEndAge: number;
+  maturityAge: number;
+  maturityAmount: number;
+}
+
+// 祖父母などからの教育資金の一括贈与（子どもの教育費にのみ充て、残りは親の資金にしない）
+export interface EducationGift {
+  age: number;
+  amount: number;
+}
+
+export interface EducationFunding {
+  grants: GrantScholarship[];
+  studentLoans: StudentLoan[];
+  insurance: EducationInsurance[];
+  gifts: EducationGift[];
+}
+
+// 学校種別ごとの進路（'公立' | '私立' | '行かない'）。university は大学の種別・専門学校・'行かない'
+export interface EducationPlan {
+  nursery: string;
+  preschool: string;
+  elementary: string;
+  juniorHigh: string;
+  highSchool: string;
+  university: string;
+  // 大学卒業後の修士課程
+  graduateSchool: string;
+  // 大学・専門学校・大学院に自宅外から通う（家賃と仕送り）
+  livingAway: boolean;
+  extraSchooling: ExtraSchooling[];
+  funding: EducationFunding;
+}
+
 export interface BasicInfo {
   currentAge: number;
   startYear: number;
@@ -11,20 +167,12 @@ export interface BasicInfo {
   monthlyLivingExpense: number;
   occupation: Occupation;
   maritalStatus: 'single' | 'married' | 'planning';
+  // 現在の住まいと、その後の住み替えの予定
   housingInfo: {
     type: 'rent' | 'own';
-    rent?: {
-      monthlyRent: number;
-      annualIncreaseRate: number;
-    };
-    own?: {
-      purchaseYear: number;
-      purchasePrice: number;
-      loanAmount: number;
-      interestRate: number;
-      loanTermYears: number;
-      maintenanceCostRate: number;
-    };
+    rent?: RentHousing;
+    own?: OwnHousing;
+    phases: HousingPhase[];
   };
   spouseInfo?: {
     age?: number;
@@ -32,28 +180,16 @@ export interface BasicInfo {
     marriageAge?: number;
     occupation?: string;
     additionalExpense?: number;
+    // 配偶者の想定寿命（未設定の場合は本人と同じ年に終了）
+    deathAge?: number;
   };
   children: {
     currentAge: number;
-    educationPlan: {
-      nursery: string;
-      preschool: string;
-      elementary: string;
-      juniorHigh: string;
-      highSchool: string;
-      university: string;
-    };
+    educationPlan: EducationPlan;
   }[];
   plannedChildren: {
     yearsFromNow: number;
-    educationPlan: {
-      nursery: string;
-      preschool: string;
-      elementary: string;
-      juniorHigh: string;
-      highSchool: string;
-      university: string;
-    };
+    educationPlan: EducationPlan;
   }[];
 }
 
@@ -72,7 +208,34 @@ export interface SideIncome {
   };
 }
 
+// 経歴の区間（転職・独立・休職後の復職など）。年齢は両端を含み、区間の間の年は働いていないものとする
+export interface CareerSegment {
+  occupation: Occupation;
+  startAge: number;
+  endAge: number;
+  // 区間の開始時（すでに始まっている区間は現在）の年収（自営業は売上）と昇給率
+  annualIncome: number;
+  raiseRate: number;
+  // 区間の終了時に受け取る退職金
+  severancePay: number;
+  description: string;
+}
+
+// 育児休業と、復職後の短時間勤務（会社員・パートのみ育児休業給付金の対象）
+export interface ParentalLeave {
+  person: 'self' | 'spouse';
+  // 休業を始める年と月
+  startYear: number;
+  startMonth: number;
+  // 休業する月数
+  months: number;
+  // 復職後に短時間勤務をする年数と、その間の給与（通常の給与に対する%）
+  shortHoursYears: number;
+  shortHoursPayRate: number;
+}
+
 export interface IncomeInfo {
+  // 経歴の区間がない場合は、以下の年収・昇給率・退職金・就業期間と基本情報の職業で計算する
   annualIncome: number;
   raiseRate: number;
   severancePay: number;
@@ -81,13 +244,31 @@ export interface IncomeInfo {
   pensionStartAge: number;
   pensionAmount: number;
   sideIncomes: SideIncome[];
+  careerSegments: CareerSegment[];
+  parentalLeaves: ParentalLeave[];
   spouse?: {
     annualIncome: number;
     severancePay: number;
     workStartAge: number;
     workEndAge: number;
+    pensionStartAge: number;
     pensionAmount: number;
   };
+  // 自営業の場合の経費・青色申告・事業税（年収は売上として扱う）
+  business: {
+    expenseRate: number;
+    blueReturnDeduction: number;
+    businessTaxRate: number;
+  };
+  // 所得控除の入力（配偶者・扶養親族は基本情報から算出）
+  incomeDeductions: {
+    lifeInsurancePremiums: {
+      general: number;
+      medical: number;
+      pension: number;
+    };
+    medicalExpenses: number;
+  };
 }
 
 export interface ExpenseInfo {
@@ -123,36 +304,98 @@ export interface LifeEvent {
   amount: number;
 }
 
+export interface NisaAccount {
+  enabled: boolean;
+  // 現在の評価額
+  currentBalance: number;
+  // 現在の簿価（生涯投資枠の使用額）
+  currentCostBasis: number;
+  // つみたて投資枠（万円/月）
+  tsumitateMonthly: number;
+  // 成長投資枠（万円/年）
+  growthAnnual: number;
+  contributionEndAge: number;
+  withdrawalStartAge: number;
+  // 取り崩し額（万円/年）
+  annualWithdrawal: number;
+  expectedReturn: number;
+}
+
+export interface IdecoAccount {
+  enabled: boolean;
+  currentBalance: number;
+  // 掛金（万円/月）
+  monthlyContribution: number;
+  contributionEndAge: number;
+  // 一時金で受け取る年齢（60〜75歳）
+  payoutAge: number;
+  expectedReturn: number;
+}
+
 export interface AssetsLiabilities {
   assets: {
     cash: number;
     savings: number;
     stocks: number;
     investmentTrust: number;
+    // 持ち家以外の不動産（投資用物件など）。持ち家は住まいの設定から評価額を計算するので含めない
     realEstate: number;
   };
   liabilities: {
     loans: number;
     creditCards: number;
   };
+  taxAdvantaged: {
+    nisa: NisaAccount;
+    ideco: IdecoAccount;
+  };
 }
 
+export type AssetClass = keyof AssetsLiabilities['assets'];
+
+// リバランス対象の金融資産（不動産は除く）
+export type FinancialAssetClass = Exclude<AssetClass, 'realEstate'>;
+
+export type SimulationMode = 'fixed' | 'monteCarlo' | 'historical';
+
 export interface Parameters {
   inflationRate: number;
   educationCostIncreaseRate: number;
+  // 教育費の単価表のプリセット、または 'custom'（単価を入力）
+  educationCostPreset: string;
+  educationCosts: EducationCostTable;
+  // 教育費以外の子育て費用（養育費）と出産費用
+  childRearingCosts: ChildRearingCosts;
   investmentReturn: number;
-}
-
-export interface CashFlowData {
-  [year: number]: {
-    mainIncome: number;
-    sideIncome: number;
-    investmentIncome: number;
-    spouseIncome: number;
-    livingExpense: number;
-    housingExpense: number;
-    educationExpense: number;
-    otherExpense: number;
+  simulationMode: SimulationMode;
+  // 年率リターンの標準偏差（%）
+  volatility: number;
+  trials: number;
+  historicalIndex: HistoricalIndex;
+  // 資産クラスごとに残高と利回りを管理する
+  trackAssetClasses: boolean;
+  assetReturns: Record<AssetClass, number>;
+  rebalance: boolean;
+  // 目標配分（%、合計100）
+  targetAllocation: Record<FinancialAssetClass, number>;
+  // 課税口座の運用益にかかる税率（%）。NISA・iDeCoは非課税
+  capitalGainsTaxRate: number;
+  // 協会けんぽの都道府県名、または 'custom'（健保組合など）
+  healthInsurer: string;
+  socialInsuranceRates: SocialInsuranceRates;
+  // 年金額の改定でインフレ率から差し引くマクロ経済スライド調整率（%）
+  pensionMacroSlideRate: number;
+  // 自営業の国民健康保険料率（市区町村ごと）
+  nationalHealthInsuranceRates: NationalHealthInsuranceRates;
+  // 住宅ローンの金利上昇ストレス（変動金利部分の金利を years 年かけて increase %上乗せ）
+  mortgageRateStress: {
+    increase: number;
+    years: number;
+  };
+  // 持ち家の土地・建物の価格の年間変動率（%、建物は通常マイナス）
+  propertyValueRates: {
+    land: number;
+    building: number;
   };
 }
 
@@ -164,7 +407,8 @@ interface SimulatorState {
   lifeEvents: LifeEvent[];
   assetsLiabilities: AssetsLiabilities;
   parameters: Parameters;
-  cashFlow: CashFlowData;
+  simulation: SimulationResult;
+  cashFlowOverrides: CashFlowOverrides;
   setCurrentStep: (step: number) => void;
   setBasicInfo: (info: Partial<BasicInfo>) => void;
   setIncomeInfo: (info: Partial<IncomeInfo>) => void;
@@ -173,9 +417,14 @@ interface SimulatorState {
   removeLifeEvent: (index: number) => void;
   setAssetsLiabilities: (info: Partial<AssetsLiabilities>) => void;
   setParameters: (params: Partial<Parameters>) => void;
-  setCashFlow: (data: CashFlowData) => void;
-  updateCashFlowValue: (year: number, field: keyof CashFlowData[number], value: number) => void;
+  updateCashFlowValue: <K extends 'income' | 'expense'>(
+    year: number,
+    kind: K,
+    line: keyof (K extends 'income' ? IncomeLines : ExpenseLines),
+    value: number
+  ) => void;
   initializeCashFlow: () => void;
+  recalculate: () => void;
 }
 
 export const useSimulatorStore = create<SimulatorState>((set, get) => ({
@@ -194,6 +443,7 @@ export const useSimulatorStore = create<SimulatorState>((set, get) => ({
         monthlyRent: 0,
         annualIncreaseRate: 0,
       },
+      phases: [],
     },
     children: [],
     plannedChildren: [],
@@ -207,13 +457,29 @@ export const useSimulatorStore = create<SimulatorState>((set, get) => ({
     pensionStartAge: 65,
     pensionAmount: 0,
     sideIncomes: [],
+    careerSegments: [],
+    parentalLeaves: [],
     spouse: {
       annualIncome: 0,
       severancePay: 0,
       workStartAge: 22,
       workEndAge: 60,
+      pensionStartAge: 65,
       pensionAmount: 0,
     },
+    business: {
+      expenseRate: 0,
+      blueReturnDeduction: 65,
+      businessTaxRate: 5,
+    },
+    incomeDeductions: {
+      lifeInsurancePremiums: {
+        general: 0,
+        medical: 0,
+        pension: 0,
+      },
+      medicalExpenses: 0,
+    },
   },
   expenseInfo: {
     livingExpense: 0,
@@ -243,13 +509,73 @@ export const useSimulatorStore = create<SimulatorState>((set, get) => ({
       loans: 0,
       creditCards: 0,
     },
+    taxAdvantaged: {
+      nisa: {
+        enabled: false,
+        currentBalance: 0,
+        currentCostBasis: 0,
+        tsumitateMonthly: 0,
+        growthAnnual: 0,
+        contributionEndAge: 65,
+        withdrawalStartAge: 65,
+        annualWithdrawal: 0,
+        expectedReturn: 4,
+      },
+      ideco: {
+        enabled: false,
+        currentBalance: 0,
+        monthlyContribution: 0,
+        contributionEndAge: 64,
+        payoutAge: 65,
+        expectedReturn: 3,
+      },
+    },
   },
   parameters: {
     inflationRate: 1,
     educationCostIncreaseRate: 2,
+    educationCostPreset: DEFAULT_EDUCATION_COST_PRESET,
+    educationCosts: EDUCATION_COST_PRESETS[DEFAULT_EDUCATION_COST_PRESET].table,
+    childRearingCosts: DEFAULT_CHILD_REARING_COSTS,
     investmentReturn: 3,
+    simulationMode: 'fixed',
+    volatility: 15,
+    trials: 500,
+    historicalIndex: 'globalEquity',
+    trackAssetClasses: false,
+    assetReturns: {
+      cash: 0,
+      savings: 0.2,
+      stocks: 5,
+      investmentTrust: 4,
+      realEstate: 0,
+    },
+    rebalance: false,
+    targetAllocation: {
+      cash: 10,
+      savings: 30,
+      stocks: 30,
+      investmentTrust: 30,
+    },
+    capitalGainsTaxRate: 20.315,
+    healthInsurer: DEFAULT_HEALTH_INSURER,
+    socialInsuranceRates: DEFAULT_SOCIAL_INSURANCE_RATES,
+    pensionMacroSlideRate: 0.4,
+    nationalHealthInsuranceRates: DEFAULT_NATIONAL_HEALTH_INSURANCE_RATES,
+    mortgageRateStress: {
+      increase: 0,
+      years: 10,
+    },
+    propertyValueRates: {
+      land: 0,
+      building: -3,
+    },
+  },
+  simulation: {
+    initialAssets: 0,
+    years: [],
   },
-  cashFlow: {},
+  cashFlowOverrides: {},
   setCurrentStep: (step) => set({ currentStep: step }),
   setBasicInfo: (info) => {
     set((state) => ({ basicInfo: { ...state.basicInfo, ...info } }));
@@ -285,269 +611,34 @@ export const useSimulatorStore = create<SimulatorState>((set, get) => ({
     }));
     get().initializeCashFlow();
   },
-  setCashFlow: (data) => set({ cashFlow: data }),
-  updateCashFlowValue: (year, field, value) => {
-    set((state) => ({
-      cashFlow: {
-        ...state.cashFlow,
-        [year]: {
-          ...state.cashFlow[year],
-          [field]: value,
+  updateCashFlowValue: (year, kind, line, value) => {
+    const { cashFlowOverrides } = get();
+    const newOverrides: CashFlowOverrides = {
+      ...cashFlowOverrides,
+      [year]: {
+        ...cashFlowOverrides[year],
+        [kind]: {
+          ...cashFlowOverrides[year]?.[kind],
+          [line]: value,
         },
       },
-    }));
+    };
+    set({ cashFlowOverrides: newOverrides });
+    get().recalculate();
   },
   initializeCashFlow: () => {
-    const state = get();
-    const { basicInfo, incomeInfo, lifeEvents, assetsLiabilities, parameters } = state;
-    const yearsUntilDeath = basicInfo.deathAge - basicInfo.currentAge;
-    const years = Array.from(
-      { length: yearsUntilDeath + 1 },
-      (_, i) => basicInfo.startYear + i
-    );
-
-    const newCashFlow: CashFlowData = {};
-
-    // Calculate initial total assets
-    const initialAssets = Object.values(assetsLiabilities.assets).reduce((sum, value) => sum + value, 0) -
-                         Object.values(assetsLiabilities.liabilities).reduce((sum, value) => sum + value, 0);
-
-    let currentAssets = initialAssets;
-
-    years.forEach((year) => {
-      const yearsSinceStart = year - basicInfo.startYear;
-      const age = basicInfo.currentAge + yearsSinceStart;
-      const inflationMultiplier = Math.pow(1 + parameters.inflationRate / 100, yearsSinceStart);
-
-      // Calculate main income
-      let mainIncome = 0;
-      if (age >= incomeInfo.workStartAge && age <= incomeInfo.workEndAge) {
-        mainIncome = calculateNetIncomeWithRaise(
-          incomeInfo.annualIncome,
-          basicInfo.occupation,
-          incomeInfo.raiseRate,
-          year,
-          basicInfo.startYear
-        );
-      }
-      // Add severance pay in the retirement year
-      if (age === incomeInfo.workEndAge) {
-        mainIncome += incomeInfo.severancePay;
-      }
-      if (age >= incomeInfo.pensionStartAge) {
-        mainIncome += calculatePension(
-          incomeInfo.annualIncome,
-          incomeInfo.workStartAge,
-          incomeInfo.workEndAge,
-          incomeInfo.pensionStartAge,
-          basicInfo.occupation
-        );
-      }
-
-      // Calculate side income
-      let sideIncome = 0;
-      // Calculate one-time side incomes
-      const oneTimeSideIncomes = incomeInfo.sideIncomes
-        .filter(income => income.type === 'one-time' && income.oneTime)
-        .filter(income => {
-          const incomeAge = income.oneTime!.age;
-          return age === incomeAge;
-        })
-        .reduce((sum, income) => sum + income.oneTime!.amount, 0);
-
-      // Calculate recurring side incomes
-      const recurringSideIncomes = incomeInfo.sideIncomes
-        .filter(income => income.type === 'recurring' && income.recurring)
-        .filter(income => {
-          const startAge = income.recurring!.startAge;
-          const endAge = income.recurring!.endAge;
-          return age >= startAge && age <= endAge;
-        })
-        .reduce((sum, income) => sum + (income.recurring!.monthlyAmount * 12), 0);
-
-      sideIncome = oneTimeSideIncomes + recurringSideIncomes;
-
-      // Calculate spouse income
-      let spouseIncome = 0;
-      if (basicInfo.maritalStatus === 'married' && basicInfo.spouseInfo?.currentAge !== undefined && incomeInfo.spouse) {
-        const spouseAge = basicInfo.spouseInfo.currentAge + yearsSinceStart;
-        if (spouseAge >= incomeInfo.spouse.workStartAge && spouseAge <= incomeInfo.spouse.workEndAge) {
-          spouseIncome = calculateNetIncomeWithRaise(
-            incomeInfo.spouse.annualIncome,
-            basicInfo.spouseInfo.occupation || 'company_employee',
-            0,
-            year,
-            basicInfo.startYear
-          );
-        }
-        // Add spouse's severance pay in their retirement year
-        if (spouseAge === incomeInfo.spouse.workEndAge) {
-          spouseIncome += incomeInfo.spouse.severancePay;
-        }
-        if (spouseAge >= incomeInfo.pensionStartAge) {
-          spouseIncome += calculatePension(
-            incomeInfo.spouse.annualIncome,
-            incomeInfo.spouse.workStartAge,
-            incomeInfo.spouse.workEndAge,
-            incomeInfo.pensionStartAge,
-            basicInfo.spouseInfo.occupation || 'company_employee'
-          );
-        }
-      } else if (basicInfo.maritalStatus === 'planning' && basicInfo.spouseInfo?.marriageAge !== undefined) {
-        const marriageYear = basicInfo.startYear + (basicInfo.spouseInfo.marriageAge - basicInfo.currentAge);
-        if (year >= marriageYear && incomeInfo.spouse && basicInfo.spouseInfo.age !== undefined) {
-          const spouseAge = basicInfo.spouseInfo.age + (year - marriageYear);
-          if (spouseAge >= incomeInfo.spouse.workStartAge && spouseAge <= incomeInfo.spouse.workEndAge) {
-            spouseIncome = calculateNetIncomeWithRaise(
-              incomeInfo.spouse.annualIncome,
-              basicInfo.spouseInfo.occupation || 'company_employee',
-              0,
-              year,
-              marriageYear
-            );
-          }
-          // Add spouse's severance pay in their retirement year
-          if (spouseAge === incomeInfo.spouse.workEndAge) {
-            spouseIncome += incomeInfo.spouse.severancePay;
-          }
-          if (spouseAge >= incomeInfo.pensionStartAge) {
-            spouseIncome += calculatePension(
-              incomeInfo.spouse.annualIncome,
-              incomeInfo.spouse.workStartAge,
-              incomeInfo.spouse.workEndAge,
-              incomeInfo.pensionStartAge,
-              basicInfo.spouseInfo.occupation || 'company_employee'
-            );
-          }
-        }
-      }
-
-      // Calculate investment return based on current assets
-      const investmentReturn = currentAssets > 0 ? 
-        Number((currentAssets * (parameters.investmentReturn / 100)).toFixed(1)) : 0;
-
-      // Calculate living expenses with inflation
-      const livingExpense = Number((basicInfo.monthlyLivingExpense * 12 * inflationMultiplier).toFixed(1));
-
-      // Calculate housing expenses
-      const housingExpense = Number(calculateHousingExpense(basicInfo.housingInfo, year).toFixed(1));
-
-      // Calculate education expenses
-      const educationExpense = calculateEducationExpense(
-        basicInfo.children,
-        basicInfo.plannedChildren,
-        year,
-        basicInfo.currentAge,
-        basicInfo.startYear,
-        parameters.educationCostIncreaseRate
-      );
-
-      // Calculate life event impact
-      const yearLifeEvents = lifeEvents.filter(event => event.year === year);
-      const lifeEventImpact = yearLifeEvents.reduce((sum, event) => {
-        return sum + (event.type === 'income' ? event.amount : -event.amount);
-      }, 0);
-
-      // Store cash flow data
-      newCashFlow[year] = {
-        mainIncome: Number(mainIncome.toFixed(1)),
-        sideIncome: Number(sideIncome.toFixed(1)),
-        investmentIncome: Number(investmentReturn.toFixed(1)),
-        spouseIncome: Number(spouseIncome.toFixed(1)),
-        livingExpense: Number(livingExpense.toFixed(1)),
-        housingExpense: Number(housingExpense.toFixed(1)),
-        educationExpense: Number(educationExpense.toFixed(1)),
-        otherExpense: Number(lifeEventImpact.toFixed(1)),
-      };
-
-      // Calculate yearly balance and update current assets for next year
-      const yearlyIncome = mainIncome + sideIncome + spouseIncome + investmentReturn;
-      const yearlyExpenses = livingExpense + housingExpense + educationExpense;
-      const yearlyBalance = yearlyIncome - yearlyExpenses + lifeEventImpact;
-      
-      // Update current assets with this year's balance
-      currentAssets = Number((currentAssets + yearlyBalance).toFixed(1));
+    // 入力内容が変わったら手動修正をリセットして再計算
+    set({ cashFlowOverrides: {} });
+    get().recalculate();
+  },
+  recalculate: () => {
+    const { basicInfo, incomeInfo, lifeEvents, assetsLiabilities, parameters, cashFlowOverrides } = get();
+    set({
+      simulation: simulate(
+        { basicInfo, incomeInfo, lifeEvents, assetsLiabilities },
+        parameters,
+        cashFlowOverrides
+      ),
     });
-
-    set({ cashFlow: newCashFlow });
   },
 }));
-
-function calculateEducationExpense(
-  children: any[],
-  plannedChildren: any[],
-  year: number,
-  currentAge: number,
-  startYear: number,
-  educationCostIncreaseRate: number
-): number {
-  // Calculate expenses for existing children
-  const existingChildrenExpense = children.reduce((total, child) => {
-    const childAge = child.currentAge + (year - startYear);
-    let expense = 0;
-
-    const costs = {
-      nursery: child.educationPlan.nursery === '私立' ? 50 : 23.3,
-      preschool: child.educationPlan.preschool === '私立' ? 100 : 58.3,
-      elementary: child.educationPlan.elementary === '私立' ? 83.3 : 41.7,
-      juniorHigh: child.educationPlan.juniorHigh === '私立' ? 133.3 : 66.7,
-      highSchool: child.educationPlan.highSchool === '私立' ? 250 : 83.3,
-    };
-
-    if (childAge >= 0 && childAge <= 2) expense = child.educationPlan.nursery !== '行かない' ? costs.nursery : 0;
-    if (childAge >= 3 && childAge <= 5) expense = child.educationPlan.preschool !== '行かない' ? costs.preschool : 0;
-    if (childAge >= 6 && childAge <= 11) expense = child.educationPlan.elementary !== '行かない' ? costs.elementary : 0;
-    if (childAge >= 12 && childAge <= 14) expense = child.educationPlan.juniorHigh !== '行かない' ? costs.juniorHigh : 0;
-    if (childAge >= 15 && childAge <= 17) expense = child.educationPlan.highSchool !== '行かない' ? costs.highSchool : 0;
-    if (childAge >= 18 && childAge <= 21) expense = child.educationPlan.university !== '行かない' ? getUniversityCost(child.educationPlan.university) : 0;
-
-    const yearsSinceStart = year - startYear;
-    const increaseMultiplier = Math.pow(1 + educationCostIncreaseRate / 100, yearsSinceStart);
-    return total + (expense * increaseMultiplier);
-  }, 0);
-
-  // Calculate expenses for planned children
-  const plannedChildrenExpense = plannedChildren.reduce((total, child) => {
-    const yearsSinceStart = year - startYear;
-    if (yearsSinceStart >= child.yearsFromNow) {
-      const childAge = yearsSinceStart - child.yearsFromNow;
-      let expense = 0;
-
-      const costs = {
-        nursery: child.educationPlan.nursery === '私立' ? 50 : 23.3,
-        preschool: child.educationPlan.preschool === '私立' ? 100 : 58.3,
-        elementary: child.educationPlan.elementary === '私立' ? 83.3 : 41.7,
-        juniorHigh: child.educationPlan.juniorHigh === '私立' ? 133.3 : 66.7,
-        highSchool: child.educationPlan.highSchool === '私立' ? 250 : 83.3,
-      };
-
-      if (childAge >= 0 && childAge <= 2) expense = child.educationPlan.nursery !== '行かない' ? costs.nursery : 0;
-      if (childAge >= 3 && childAge <= 5) expense = child.educationPlan.preschool !== '行かない' ? costs.preschool : 0;
-      if (childAge >= 6 && childAge <= 11) expense = child.educationPlan.elementary !== '行かない' ? costs.elementary : 0;
-      if (childAge >= 12 && childAge <= 14) expense = child.educationPlan.juniorHigh !== '行かない' ? costs.juniorHigh : 0;
-      if (childAge >= 15 && childAge <= 17) expense = child.educationPlan.highSchool !== '行かない' ? costs.highSchool : 0;
-      if (childAge >= 18 && childAge <= 21) expense = child.educationPlan.university !== '行かない' ? getUniversityCost(child.educationPlan.university) : 0;
-
-      const increaseMultiplier = Math.pow(1 + educationCostIncreaseRate / 100, yearsSinceStart);
-      return total + (expense * increaseMultiplier);
-    }
-    return total;
-  }, 0);
-
-  return Number((existingChildrenExpense + plannedChildrenExpense).toFixed(1));
-}
-
-function getUniversityCost(universityType: string) {
-  switch (universityType) {
-    case '公立大学（文系）':
-      return 325;
-    case '公立大学（理系）':
-      return 375;
-    case '私立大学（文系）':
-      return 550;
-    case '私立大学（理系）':
-      return 650;
-    default:
-      return 0;
-  }
-}
\ No newline at end of file
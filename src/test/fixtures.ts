@@ -0,0 +1,57 @@
+import { useSimulatorStore, type OwnHousing, type Parameters } from '@/store/simulator';
+import type { SimulationPlan } from '@/lib/simulation';
+
+// テスト用のプランと前提条件（ストアの初期値に、テストで必要な項目だけを上書きする）
+
+export function createPlan(changes: {
+  basicInfo?: Partial<SimulationPlan['basicInfo']>;
+  incomeInfo?: Partial<SimulationPlan['incomeInfo']>;
+  assetsLiabilities?: Partial<SimulationPlan['assetsLiabilities']>;
+} = {}): SimulationPlan {
+  const { basicInfo, incomeInfo, lifeEvents, assetsLiabilities } = structuredClone({
+    basicInfo: useSimulatorStore.getState().basicInfo,
+    incomeInfo: useSimulatorStore.getState().incomeInfo,
+    lifeEvents: useSimulatorStore.getState().lifeEvents,
+    assetsLiabilities: useSimulatorStore.getState().assetsLiabilities,
+  });
+  return {
+    basicInfo: { ...basicInfo, ...changes.basicInfo },
+    incomeInfo: { ...incomeInfo, ...changes.incomeInfo },
+    lifeEvents,
+    assetsLiabilities: { ...assetsLiabilities, ...changes.assetsLiabilities },
+  };
+}
+
+export function createParameters(changes: Partial<Parameters> = {}): Parameters {
+  return { ...structuredClone(useSimulatorStore.getState().parameters), ...changes };
+}
+
+// 住宅ローン控除・保有コストの入力は住宅購入画面の初期値と同じ
+export function createOwnHousing(changes: Partial<OwnHousing> = {}): OwnHousing {
+  return {
+    purchaseYear: 2025,
+    purchasePrice: 4000,
+    loanAmount: 3000,
+    interestRate: 1,
+    rateType: 'fixed',
+    fixedPeriodYears: 10,
+    rateChanges: [],
+    loanTermYears: 35,
+    maintenanceCostRate: 0.3,
+    repaymentMethod: 'equal_payment',
+    prepayments: [],
+    homeType: 'energy_efficient',
+    newlyBuilt: true,
+    propertyType: 'house',
+    landShare: 40,
+    landAssessedValue: 0,
+    buildingAssessedValue: 0,
+    managementFee: 1.5,
+    repairReserve: 1,
+    repairReserveStepYears: 5,
+    repairReserveStepRate: 20,
+    renovationCost: 200,
+    renovationIntervalYears: 15,
+    ...changes,
+  };
+}